@@ -26,6 +26,19 @@ const DopplerEffectColors = {
   sourceColorProperty: profileColor("sourceColor", new Color(100, 255, 100), new Color(0, 200, 0)),
   observerColorProperty: profileColor("observerColor", new Color(180, 50, 255), new Color(120, 0, 180)),
 
+  // Added sources and their waves
+  secondSourceColorProperty: profileColor("secondSourceColor", new Color(240, 230, 80), new Color(170, 160, 0)),
+  thirdSourceColorProperty: profileColor("thirdSourceColor", new Color(80, 220, 255), new Color(0, 150, 200)),
+  fourthSourceColorProperty: profileColor("fourthSourceColor", new Color(255, 110, 200), new Color(200, 0, 140)),
+  secondWaveColorProperty: profileColor("secondWaveColor", new Color(220, 215, 130), new Color(150, 140, 40)),
+  thirdWaveColorProperty: profileColor("thirdWaveColor", new Color(130, 200, 220), new Color(40, 140, 170)),
+  fourthWaveColorProperty: profileColor("fourthWaveColor", new Color(220, 150, 195), new Color(170, 60, 130)),
+
+  // Added observers
+  secondObserverColorProperty: profileColor("secondObserverColor", new Color(255, 150, 50), new Color(200, 90, 0)),
+  thirdObserverColorProperty: profileColor("thirdObserverColor", new Color(150, 150, 255), new Color(60, 60, 200)),
+  fourthObserverColorProperty: profileColor("fourthObserverColor", new Color(170, 255, 220), new Color(0, 150, 110)),
+
   // Waves and selection
   connectingLineColorProperty: profileColor("connectingLineColor", new Color(200, 200, 200), new Color(100, 100, 100)),
   waveColorProperty: profileColor("waveColor", new Color(200, 200, 200), new Color(100, 100, 100)),
@@ -69,6 +82,48 @@ const DopplerEffectColors = {
     new Color(120, 0, 180),
   ),
 
+  // Supersonic motion
+  machConeColorProperty: profileColor("machConeColor", new Color(255, 160, 60), new Color(220, 110, 0)),
+  sonicBoomFlashColorProperty: profileColor("sonicBoomFlashColor", new Color(255, 240, 200), new Color(255, 200, 120)),
+
+  // Reflecting walls and plates
+  reflectorColorProperty: profileColor("reflectorColor", new Color(160, 170, 190), new Color(90, 100, 120)),
+
+  // Radar gun screen
+  roadColorProperty: profileColor("roadColor", new Color(70, 70, 75), new Color(200, 200, 205)),
+  carColorProperty: profileColor("carColor", new Color(80, 140, 255), new Color(20, 80, 200)),
+
+  // Doppler ultrasound screen
+  vesselWallColorProperty: profileColor("vesselWallColor", new Color(220, 120, 120), new Color(170, 60, 60)),
+  bloodColorProperty: profileColor("bloodColor", new Color(90, 20, 30), new Color(255, 215, 215)),
+  bloodCellColorProperty: profileColor("bloodCellColor", new Color(255, 70, 70), new Color(200, 0, 0)),
+  ultrasoundBeamColorProperty: profileColor(
+    "ultrasoundBeamColor",
+    new Color(120, 200, 255, 0.3),
+    new Color(0, 120, 220, 0.25),
+  ),
+  probeColorProperty: profileColor("probeColor", new Color(200, 200, 210), new Color(90, 90, 100)),
+  spectrumColorProperty: profileColor("spectrumColor", new Color(230, 230, 230), new Color(40, 40, 40)),
+
+  // Redshift screen
+  galaxyColorProperty: profileColor("galaxyColor", new Color(255, 235, 190), new Color(200, 150, 60)),
+  telescopeColorProperty: profileColor("telescopeColor", new Color(180, 180, 190), new Color(90, 90, 100)),
+  absorptionLineColorProperty: profileColor("absorptionLineColor", BLACK, BLACK),
+  invisibleLightColorProperty: profileColor("invisibleLightColor", new Color(60, 60, 60), new Color(130, 130, 130)),
+
+  // Radial-velocity screen
+  starColorProperty: profileColor("starColor", new Color(255, 220, 100), new Color(220, 150, 0)),
+  companionColorProperty: profileColor("companionColor", new Color(255, 140, 90), new Color(200, 70, 20)),
+  fitCurveColorProperty: profileColor("fitCurveColor", new Color(100, 200, 255), new Color(0, 110, 200)),
+
+  // Echolocation screen
+  batColorProperty: profileColor("batColor", new Color(190, 150, 120), new Color(110, 70, 40)),
+  insectColorProperty: profileColor("insectColor", new Color(150, 230, 120), new Color(40, 140, 20)),
+  echoColorProperty: profileColor("echoColor", new Color(255, 170, 80), new Color(210, 100, 0)),
+
+  // Wind arrow
+  windArrowColorProperty: profileColor("windArrowColor", new Color(100, 200, 255), new Color(0, 120, 200)),
+
   // Grid lines
   gridMajorLineColorProperty: profileColor("gridMajorLineColor", new Color(120, 120, 120), new Color(80, 80, 80)),
   gridMinorLineColorProperty: profileColor("gridMinorLineColor", new Color(70, 70, 70), new Color(180, 180, 180)),
@@ -0,0 +1,13 @@
+import { Screen, type ScreenOptions } from "scenerystack/sim";
+import { BatModel } from "./model/BatModel.js";
+import { BatScreenView } from "./view/BatScreenView.js";
+
+export class BatScreen extends Screen<BatModel, BatScreenView> {
+  public constructor(options: ScreenOptions) {
+    super(
+      () => new BatModel(),
+      (model) => new BatScreenView(model),
+      options,
+    );
+  }
+}
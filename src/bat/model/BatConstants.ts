@@ -0,0 +1,41 @@
+/**
+ * Constants for the echolocation screen
+ *
+ * Units:
+ * - All distances are in meters (m)
+ * - All velocities are in meters per second (m/s)
+ * - All frequencies are in Hertz (Hz)
+ * - All times are in seconds (s)
+ *
+ * The bat and the insect fly along the x axis, the bat chasing the insect from the left.
+ * The calls are slowed down to a few Hertz, with distances to match, so that the wavefronts can be followed.
+ */
+
+import { Vector2 } from "scenerystack";
+
+// Bat, insect and the chase
+export const BAT = {
+  CALL_FREQ: 5, // Frequency at the end of each call, which sweeps down from twice that (Hz)
+  SOUND_SPEED: 343, // Speed of sound in air at 20 °C (m/s)
+  BAT_START_POSITION: new Vector2(-800, 0), // Bat starts 800m left of center (m)
+  INSECT_START_POSITION: new Vector2(-400, 0), // Insect starts 400m ahead of the bat (m)
+  INSECT_WIDTH: 30, // Width of the insect sending back the calls, exaggerated to be visible (m)
+  INITIAL_BAT_SPEED: 20, // Speed of the bat toward the insect (m/s)
+  MAX_BAT_SPEED: 30, // Fastest the bat flies (m/s)
+  INITIAL_INSECT_SPEED: 5, // Speed of the insect away from the bat (m/s)
+  MAX_INSECT_SPEED: 20, // Fastest the insect flies, either way (m/s)
+  CATCH_RANGE: 30, // The bat catches the insect this close, and the chase starts over (m)
+  ESCAPE_RANGE: 650, // The insect escapes this far away, before the echo of one call comes after the next call (m)
+  MAX_X: 900, // The chase starts over when the insect flies past this point (m)
+} as const;
+
+// Scale of the play area
+export const BAT_SCALE = {
+  MODEL_VIEW: 0.45, // Pixels per meter
+} as const;
+
+// Spectrograms of the calls and their echoes
+export const SPECTROGRAM = {
+  DURATION: 10, // Time shown, up to the present (s)
+  MAX_FREQUENCY: 15, // Highest frequency shown (Hz)
+} as const;
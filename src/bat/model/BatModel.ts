@@ -0,0 +1,308 @@
+import {
+  BooleanProperty,
+  createObservableArray,
+  DerivedProperty,
+  NumberProperty,
+  type ObservableArray,
+  Property,
+  RangeWithValue,
+  type TReadOnlyProperty,
+  Vector2,
+} from "scenerystack";
+import { DopplerCalculator } from "../../screen-name/model/DopplerCalculator";
+import { FixedTimestep } from "../../screen-name/model/FixedTimestep";
+import { FrequencyModulation } from "../../screen-name/model/FrequencyModulation";
+import { PropagationHistory } from "../../screen-name/model/PropagationHistory";
+import { Reflector } from "../../screen-name/model/Reflector";
+import { SCALE, TIMESTEP, WAVE } from "../../screen-name/model/SimConstants";
+import type { Wave } from "../../screen-name/model/SimModel";
+import { SoundSource } from "../../screen-name/model/SoundSource";
+import { WaveGenerator } from "../../screen-name/model/WaveGenerator";
+import { BAT, SPECTROGRAM } from "./BatConstants";
+
+// A frequency heard at a moment, one pixel column of a spectrogram
+export type SpectrogramSample = {
+  time: number; // in seconds (s)
+  frequency: number; // in Hertz (Hz)
+};
+
+/**
+ * Model for the echolocation screen
+ *
+ * A bat chases an insect, calling as it flies and listening for the echoes. The bat is both the source
+ * and the receiver: each call sweeps down in frequency, and the insect, a small moving reflector, sends
+ * it back shifted twice by the Doppler effect and delayed by the trip there and back.
+ *
+ * The bat judges the range from the delay of the echo, c·Δt / 2, and the closing speed from its shift,
+ * comparing each echoed wavefront with the frequency it was called at. The shift is inverted as for a
+ * stationary caller, u = c·(f_echo - f_call) / (f_echo + f_call), which is exact to first order in the
+ * speeds of the bat and the insect. The chase starts over once the bat catches the insect or the insect escapes.
+ */
+export class BatModel {
+  // Bat calling and listening for the echoes
+  public readonly bat: SoundSource;
+
+  // Insect sending back the calls
+  public readonly insect: Reflector;
+
+  // Calls of the bat and their echoes from the insect
+  public readonly waves: ObservableArray<Wave>;
+
+  // Speed of the bat toward the insect, in meters per second (m/s)
+  public readonly batSpeedProperty: NumberProperty;
+  public readonly batSpeedRange: RangeWithValue;
+
+  // Speed of the insect away from the bat, negative when it flies toward the bat, in meters per second (m/s)
+  public readonly insectSpeedProperty: NumberProperty;
+  public readonly insectSpeedRange: RangeWithValue;
+
+  // Frequency the latest echoed wavefront was called at, and heard at when it came back, in Hertz (Hz),
+  // null until the first echo comes back
+  public readonly callFrequencyProperty: Property<number | null>;
+  public readonly echoFrequencyProperty: Property<number | null>;
+
+  // Time between calling the latest echoed wavefront and hearing it back, in seconds (s)
+  public readonly echoDelayProperty: Property<number | null>;
+
+  // Range of the insect found from the delay, in meters (m)
+  public readonly estimatedRangeProperty: TReadOnlyProperty<number | null>;
+
+  // Closing speed found from the shift, in meters per second (m/s)
+  public readonly estimatedClosingSpeedProperty: TReadOnlyProperty<number | null>;
+
+  // Actual distance from the bat to the insect, in meters (m)
+  public readonly rangeProperty: NumberProperty;
+
+  // Actual rate at which the distance shrinks, in meters per second (m/s)
+  public readonly closingSpeedProperty: TReadOnlyProperty<number>;
+
+  // Whether the range and closing speed found by the bat are shown
+  public readonly showAnswerProperty: BooleanProperty;
+
+  // Frequencies called and heard back over the last seconds, silences left out
+  public readonly callSpectrogram: SpectrogramSample[] = [];
+  public readonly echoSpectrogram: SpectrogramSample[] = [];
+
+  // Simulation state
+  public readonly simulationTimeProperty: NumberProperty; // in seconds (s)
+  public readonly playProperty: BooleanProperty;
+
+  private readonly propagationHistory: PropagationHistory = new PropagationHistory(WAVE.MAX_AGE);
+  private readonly waveGenerator: WaveGenerator;
+  private readonly dopplerCalculator: DopplerCalculator = new DopplerCalculator();
+
+  // Whether an echo is sounding at the bat
+  private echoHeard: boolean = false;
+
+  // Takes the fixed steps of each frame, carrying over the time that does not make up a whole step
+  private readonly fixedTimestep: FixedTimestep = new FixedTimestep(() => this.fixedStep());
+
+  // Number of fixed steps taken since the chase started
+  private stepCount: number = 0;
+
+  public constructor() {
+    this.bat = new SoundSource(BAT.BAT_START_POSITION, BAT.CALL_FREQ, 0, 0);
+    this.bat.modulationProperty.value = FrequencyModulation.BAT_CALL;
+
+    // The insect faces the bat, across the line of flight
+    this.insect = new Reflector(BAT.INSECT_START_POSITION, new Vector2(0, 1), BAT.INSECT_WIDTH, false);
+    this.insect.enabledProperty.value = true;
+
+    this.waves = createObservableArray<Wave>([]);
+
+    this.batSpeedRange = new RangeWithValue(0, BAT.MAX_BAT_SPEED, BAT.INITIAL_BAT_SPEED);
+    this.batSpeedProperty = new NumberProperty(BAT.INITIAL_BAT_SPEED, { range: this.batSpeedRange });
+    this.insectSpeedRange = new RangeWithValue(-BAT.MAX_INSECT_SPEED, BAT.MAX_INSECT_SPEED, BAT.INITIAL_INSECT_SPEED);
+    this.insectSpeedProperty = new NumberProperty(BAT.INITIAL_INSECT_SPEED, { range: this.insectSpeedRange });
+
+    this.callFrequencyProperty = new Property<number | null>(null);
+    this.echoFrequencyProperty = new Property<number | null>(null);
+    this.echoDelayProperty = new Property<number | null>(null);
+
+    this.estimatedRangeProperty = new DerivedProperty([this.echoDelayProperty], (echoDelay) =>
+      echoDelay === null ? null : (BAT.SOUND_SPEED * echoDelay) / 2,
+    );
+
+    this.estimatedClosingSpeedProperty = new DerivedProperty(
+      [this.callFrequencyProperty, this.echoFrequencyProperty],
+      (callFrequency, echoFrequency) =>
+        callFrequency === null || echoFrequency === null
+          ? null
+          : this.dopplerCalculator.calculateReflectorSpeed(callFrequency, echoFrequency, BAT.SOUND_SPEED),
+    );
+
+    this.rangeProperty = new NumberProperty(BAT.INSECT_START_POSITION.distance(BAT.BAT_START_POSITION));
+    this.closingSpeedProperty = new DerivedProperty(
+      [this.batSpeedProperty, this.insectSpeedProperty],
+      (batSpeed, insectSpeed) => batSpeed - insectSpeed,
+    );
+
+    this.showAnswerProperty = new BooleanProperty(false);
+    this.simulationTimeProperty = new NumberProperty(0);
+    this.playProperty = new BooleanProperty(true);
+
+    this.waveGenerator = new WaveGenerator(
+      this.waves,
+      this.bat,
+      () => this.simulationTimeProperty.value,
+      this.propagationHistory,
+      WAVE.MAX_AGE,
+      () => [this.insect],
+    );
+  }
+
+  /**
+   * Reset the model to its initial state
+   */
+  public reset(): void {
+    this.batSpeedProperty.reset();
+    this.insectSpeedProperty.reset();
+    this.showAnswerProperty.reset();
+    this.playProperty.reset();
+
+    this.restartChase();
+  }
+
+  /**
+   * Step the model forward in time
+   * @param dt - elapsed time in seconds (s)
+   * @param force - step even while paused, for the step button
+   */
+  public step(dt: number, force: boolean = false): void {
+    if (!(this.playProperty.value || force)) {
+      return;
+    }
+
+    // Take as many fixed steps as fit in the elapsed time
+    this.fixedTimestep.advance(dt * SCALE.TIME);
+  }
+
+  /**
+   * Advance the simulation by one fixed step of TIMESTEP.DT
+   */
+  private fixedStep(): void {
+    const modelDt = TIMESTEP.DT; // in seconds (s)
+
+    this.stepCount++;
+    this.simulationTimeProperty.value = this.stepCount * TIMESTEP.DT; // in seconds (s)
+    const time = this.simulationTimeProperty.value; // in seconds (s)
+
+    // The air is still
+    this.propagationHistory.advance(time, modelDt, BAT.SOUND_SPEED, Vector2.ZERO);
+
+    this.fly(this.bat, this.batSpeedProperty.value, modelDt, time);
+    this.fly(this.insect, this.insectSpeedProperty.value, modelDt, time);
+    this.bat.advancePhase(modelDt, time);
+
+    this.waveGenerator.recordEmission();
+    this.waveGenerator.generateWaves();
+    this.waveGenerator.updateWaves(time);
+
+    this.listenForEcho(time);
+
+    if (this.stepCount % TIMESTEP.STEPS_PER_SAMPLE === 0) {
+      this.recordSpectrograms(time);
+    }
+
+    // Nothing older than a wave is looked up again
+    this.propagationHistory.prune(time - WAVE.MAX_AGE);
+    this.waveGenerator.prune(time - WAVE.MAX_AGE);
+
+    // The chase is over once the bat catches the insect or loses it
+    const range = this.insect.positionProperty.value.x - this.bat.positionProperty.value.x; // in meters (m)
+    this.rangeProperty.value = range;
+    if (range < BAT.CATCH_RANGE || range > BAT.ESCAPE_RANGE || this.insect.positionProperty.value.x > BAT.MAX_X) {
+      this.restartChase();
+    }
+  }
+
+  /**
+   * Move a flyer along the line of flight, toward the right
+   * @param flyer - The bat or the insect
+   * @param speed - Speed along the line of flight in meters per second (m/s)
+   * @param dt - elapsed time in seconds (s)
+   * @param time - simulation time at the end of the step in seconds (s)
+   */
+  private fly(flyer: SoundSource | Reflector, speed: number, dt: number, time: number): void {
+    flyer.velocityProperty.value = new Vector2(speed, 0);
+    flyer.movingProperty.value = speed !== 0;
+    flyer.updatePosition(dt, time);
+  }
+
+  /**
+   * Find the frequency and delay of the echo arriving at the bat, from the most recent echo to have reached it
+   * @param time - simulation time in seconds (s)
+   */
+  private listenForEcho(time: number): void {
+    const batPosition = this.bat.positionProperty.value; // in meters (m)
+    const echoes = this.waves.filter((wave) => wave.reflection !== null);
+    const arrival = this.dopplerCalculator.findWaveBranchesAtObserver(echoes, batPosition, this.propagationHistory)[0];
+    if (arrival === undefined) {
+      this.echoHeard = false;
+      return;
+    }
+
+    // The bat hears the echo as a moving receiver
+    const echoFrequency = this.dopplerCalculator.calculateObservedFrequency(
+      arrival.wave,
+      batPosition,
+      this.bat.velocityProperty.value,
+      BAT.SOUND_SPEED,
+      Vector2.ZERO,
+    ); // in Hertz (Hz)
+
+    // The echo of a call falls silent one period after its last wavefront has passed
+    this.echoHeard = time - arrival.arrivalTime < 1 / echoFrequency;
+
+    this.echoFrequencyProperty.value = echoFrequency;
+    this.callFrequencyProperty.value = arrival.wave.sourceFrequency; // in Hertz (Hz)
+    this.echoDelayProperty.value = arrival.arrivalTime - arrival.wave.birthTime; // in seconds (s)
+  }
+
+  /**
+   * Add the frequencies called and heard back now to the spectrograms, and forget those that have scrolled off
+   * @param time - simulation time in seconds (s)
+   */
+  private recordSpectrograms(time: number): void {
+    const callFrequency = this.bat.getInstantaneousFrequency(time); // in Hertz (Hz)
+    if (callFrequency > 0) {
+      this.callSpectrogram.push({ time: time, frequency: callFrequency });
+    }
+
+    const echoFrequency = this.echoFrequencyProperty.value;
+    if (this.echoHeard && echoFrequency !== null) {
+      this.echoSpectrogram.push({ time: time, frequency: echoFrequency });
+    }
+
+    for (const spectrogram of [this.callSpectrogram, this.echoSpectrogram]) {
+      while ((spectrogram[0]?.time ?? time) < time - SPECTROGRAM.DURATION) {
+        spectrogram.shift();
+      }
+    }
+  }
+
+  /**
+   * Bring the bat and the insect back to where they started, with no calls in the air
+   */
+  private restartChase(): void {
+    this.callFrequencyProperty.reset();
+    this.echoFrequencyProperty.reset();
+    this.echoDelayProperty.reset();
+    this.rangeProperty.reset();
+    this.simulationTimeProperty.reset();
+
+    // Resetting the bat also resets its modulation
+    this.bat.reset();
+    this.bat.modulationProperty.value = FrequencyModulation.BAT_CALL;
+    this.insect.reset();
+    this.insect.enabledProperty.value = true;
+
+    this.waveGenerator.reset();
+    this.propagationHistory.reset();
+    this.callSpectrogram.length = 0;
+    this.echoSpectrogram.length = 0;
+    this.echoHeard = false;
+    this.fixedTimestep.reset();
+    this.stepCount = 0;
+  }
+}
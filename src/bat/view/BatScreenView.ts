@@ -0,0 +1,231 @@
+import {
+  Circle,
+  HBox,
+  ModelViewTransform2,
+  Node,
+  Path,
+  PhetFont,
+  ResetAllButton,
+  Shape,
+  Text,
+  TimeControlNode,
+  Vector2,
+} from "scenerystack";
+import { ScreenView, type ScreenViewOptions } from "scenerystack/sim";
+import DopplerEffectColors from "../../DopplerEffectColors";
+import { StringManager } from "../../i18n/StringManager";
+import { WaveManager } from "../../screen-name/view/managers/WaveManager";
+import { BAT_SCALE } from "../model/BatConstants";
+import type { BatModel } from "../model/BatModel";
+import { EcholocationControlNode } from "./components/EcholocationControlNode";
+import { SpectrogramNode } from "./components/SpectrogramNode";
+
+// UI constants
+const UI = {
+  FLIGHT_LINE_Y: 170, // height of the line of flight on the screen, view units
+  FLIGHT_CENTER_OFFSET: -120, // the center of the line of flight is left of the center of the screen, view units
+  BAT_WINGSPAN: 36, // view units
+  BAT_HEIGHT: 14, // view units
+  INSECT_SIZE: 5, // radius of the body of the insect, view units
+  LABEL_SPACING: 6, // view units
+  GRAPH_SPACING: 40, // view units
+} as const;
+
+/**
+ * View for the echolocation screen
+ *
+ * Shows the bat chasing the insect from the left, with the calls of the bat drawn as circles and their
+ * echoes from the insect as dashed arcs. Below them the spectrograms of the calls and of the echoes heard
+ * by the bat scroll by, with the panel of the chase on the right.
+ */
+export class BatScreenView extends ScreenView {
+  // Model reference
+  private readonly model: BatModel;
+
+  // Managers
+  private readonly waveManager: WaveManager;
+
+  private readonly callSpectrogramNode: SpectrogramNode;
+  private readonly echoSpectrogramNode: SpectrogramNode;
+
+  /**
+   * Constructor for the BatScreenView
+   */
+  public constructor(model: BatModel, options?: ScreenViewOptions) {
+    const strings = StringManager.getInstance().getBatStrings();
+
+    super({
+      tagName: "div",
+      labelTagName: "h1",
+      labelContent: StringManager.getInstance().getScreenNameStrings().batStringProperty,
+      descriptionContent:
+        "A bat chases an insect, calling as it flies and listening for the echoes. Each call sweeps down in frequency, and the insect sends it back delayed and shifted by the Doppler effect. Compare the spectrograms of the calls and the echoes to find how far away the insect is and how fast the bat is closing in on it.",
+      ...options,
+    });
+
+    this.model = model;
+
+    // Create model-view transform - y-axis is inverted and the line of flight runs across the top of the screen
+    const modelViewTransform = ModelViewTransform2.createSinglePointScaleInvertedYMapping(
+      new Vector2(0, 0),
+      new Vector2(this.layoutBounds.centerX + UI.FLIGHT_CENTER_OFFSET, UI.FLIGHT_LINE_Y),
+      BAT_SCALE.MODEL_VIEW,
+    );
+
+    const waveLayer = new Node();
+    this.waveManager = new WaveManager(waveLayer, modelViewTransform, () => 1);
+
+    // Create the bat, a body between two pointed wings, with its label above it
+    const halfSpan = UI.BAT_WINGSPAN / 2;
+    const halfHeight = UI.BAT_HEIGHT / 2;
+    const batShape = new Shape()
+      .moveTo(-halfSpan, -halfHeight)
+      .lineTo(-halfSpan / 3, 0)
+      .lineTo(0, -halfHeight / 2)
+      .lineTo(halfSpan / 3, 0)
+      .lineTo(halfSpan, -halfHeight)
+      .lineTo(halfSpan / 2, halfHeight)
+      .lineTo(0, halfHeight / 2)
+      .lineTo(-halfSpan / 2, halfHeight)
+      .close();
+    const batBody = new Path(batShape, { fill: DopplerEffectColors.batColorProperty });
+    const batLabel = new Text(strings.batStringProperty, {
+      font: new PhetFont(14),
+      fill: DopplerEffectColors.textColorProperty,
+      maxWidth: 120,
+      centerX: 0,
+      bottom: batBody.top - UI.LABEL_SPACING,
+    });
+    const batNode = new Node({ children: [batBody, batLabel] });
+    batNode.setAccessibleName("Bat");
+
+    // Create the insect, a body with two wings, with its label above it
+    const insectBody = new Node({
+      children: [
+        new Circle(UI.INSECT_SIZE, {
+          fill: DopplerEffectColors.insectColorProperty,
+          opacity: 0.5,
+          center: new Vector2(-UI.INSECT_SIZE / 2, -UI.INSECT_SIZE),
+        }),
+        new Circle(UI.INSECT_SIZE, {
+          fill: DopplerEffectColors.insectColorProperty,
+          opacity: 0.5,
+          center: new Vector2(-UI.INSECT_SIZE / 2, UI.INSECT_SIZE),
+        }),
+        new Circle(UI.INSECT_SIZE / 2, { fill: DopplerEffectColors.insectColorProperty }),
+      ],
+    });
+    const insectLabel = new Text(strings.insectStringProperty, {
+      font: new PhetFont(14),
+      fill: DopplerEffectColors.textColorProperty,
+      maxWidth: 120,
+      centerX: 0,
+      bottom: insectBody.top - UI.LABEL_SPACING,
+    });
+    const insectNode = new Node({ children: [insectBody, insectLabel] });
+    insectNode.setAccessibleName("Insect");
+
+    model.bat.positionProperty.link((position) => {
+      batNode.translation = modelViewTransform.modelToViewPosition(position);
+    });
+    model.insect.positionProperty.link((position) => {
+      insectNode.translation = modelViewTransform.modelToViewPosition(position);
+    });
+
+    // Create the spectrograms, side by side
+    this.callSpectrogramNode = new SpectrogramNode(
+      strings.callsStringProperty,
+      DopplerEffectColors.sourceColorProperty,
+    );
+    this.echoSpectrogramNode = new SpectrogramNode(strings.echoesStringProperty, DopplerEffectColors.echoColorProperty);
+    const spectrogramsNode = new HBox({
+      spacing: UI.GRAPH_SPACING,
+      align: "top",
+      children: [this.callSpectrogramNode, this.echoSpectrogramNode],
+    });
+    spectrogramsNode.setAccessibleName("Spectrograms of the calls and the echoes");
+
+    // Create the panel of the chase
+    const controlNode = new EcholocationControlNode(
+      model.batSpeedProperty,
+      model.batSpeedRange,
+      model.insectSpeedProperty,
+      model.insectSpeedRange,
+      model.callFrequencyProperty,
+      model.echoFrequencyProperty,
+      model.echoDelayProperty,
+      model.showAnswerProperty,
+      model.estimatedRangeProperty,
+      model.estimatedClosingSpeedProperty,
+      model.rangeProperty,
+      model.closingSpeedProperty,
+    );
+    controlNode.setAccessibleName("Chase controls and echo readouts");
+
+    // Add time control node
+    const timeControlNode = new TimeControlNode(model.playProperty, {
+      tagName: "div",
+      playPauseStepButtonOptions: {
+        stepForwardButtonOptions: {
+          listener: () => {
+            model.step(1 / 60, true);
+          },
+        },
+      },
+    });
+    timeControlNode.setAccessibleName("Simulation speed control");
+
+    // Setup reset all button
+    const resetAllButtonNode = new ResetAllButton({
+      listener: () => {
+        this.interruptSubtreeInput(); // Stop any ongoing interactions
+        model.reset();
+        this.reset();
+      },
+    });
+    resetAllButtonNode.setAccessibleName("Reset simulation");
+
+    for (const node of [waveLayer, batNode, insectNode, spectrogramsNode, controlNode, timeControlNode]) {
+      this.addChild(node);
+    }
+    this.addChild(resetAllButtonNode);
+
+    // Listen for changes to wave collection
+    model.waves.addItemAddedListener((wave) => {
+      this.waveManager.addWaveNode(wave);
+    });
+    model.waves.addItemRemovedListener((wave) => {
+      this.waveManager.removeWaveNode(wave);
+    });
+
+    // Layout
+    this.visibleBoundsProperty.link((visibleBounds) => {
+      const interfaceBounds = visibleBounds.withMinY(this.layoutBounds.minY).withMaxY(this.layoutBounds.maxY);
+      resetAllButtonNode.right = interfaceBounds.right - 10;
+      resetAllButtonNode.bottom = interfaceBounds.bottom - 10;
+      controlNode.right = interfaceBounds.right - 10;
+      controlNode.top = interfaceBounds.top + 10;
+      spectrogramsNode.left = interfaceBounds.left + 20;
+      timeControlNode.centerX = spectrogramsNode.centerX;
+      timeControlNode.bottom = interfaceBounds.bottom - 10;
+      spectrogramsNode.bottom = timeControlNode.top - 10;
+    });
+  }
+
+  /**
+   * Reset the view to initial state
+   */
+  public reset(): void {
+    this.waveManager.clearWaveNodes();
+  }
+
+  /**
+   * Main step function called each frame
+   */
+  public step(): void {
+    const time = this.model.simulationTimeProperty.value; // in seconds (s)
+    this.waveManager.updateWaves(this.model.waves, time);
+    this.callSpectrogramNode.update(this.model.callSpectrogram, time);
+    this.echoSpectrogramNode.update(this.model.echoSpectrogram, time);
+  }
+}
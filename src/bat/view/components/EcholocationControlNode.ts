@@ -0,0 +1,160 @@
+/**
+ * EcholocationControlNode.ts
+ *
+ * Panel of the chase: the speed controls of the bat and the insect, and the readouts of the latest echo,
+ * the frequency it was called at, the frequency heard back and its delay. The range and closing speed
+ * found from the echo, and the actual ones, are hidden until the students ask for the answer.
+ * The echo readouts stay blank until the first echo has come back to the bat.
+ */
+
+import {
+  Checkbox,
+  NumberControl,
+  NumberDisplay,
+  Panel,
+  PhetFont,
+  type Property,
+  Range,
+  type RangeWithValue,
+  Text,
+  type TReadOnlyProperty,
+  VBox,
+} from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import { StringManager } from "../../../i18n/StringManager";
+
+// Ranges the readouts are sized for
+const FREQUENCY_RANGE = new Range(0, 20); // in Hertz (Hz)
+const DELAY_RANGE = new Range(0, 10); // in seconds (s)
+const RANGE_RANGE = new Range(0, 1000); // in meters (m)
+const SPEED_RANGE = new Range(-100, 100); // in meters per second (m/s)
+
+/**
+ * Component that renders the controls and readouts of the chase
+ */
+export class EcholocationControlNode extends Panel {
+  /**
+   * Constructor for the EcholocationControlNode
+   *
+   * @param batSpeedProperty - Property for the speed of the bat toward the insect (m/s)
+   * @param batSpeedRange - Range for the bat speed control (m/s)
+   * @param insectSpeedProperty - Property for the speed of the insect away from the bat (m/s)
+   * @param insectSpeedRange - Range for the insect speed control (m/s)
+   * @param callFrequencyProperty - Frequency the latest echoed wavefront was called at (Hz)
+   * @param echoFrequencyProperty - Frequency the latest echoed wavefront was heard back at (Hz)
+   * @param echoDelayProperty - Time between calling the latest echoed wavefront and hearing it back (s)
+   * @param showAnswerProperty - Property for whether the range and closing speed are shown
+   * @param estimatedRangeProperty - Range of the insect found from the delay (m)
+   * @param estimatedClosingSpeedProperty - Closing speed found from the shift (m/s)
+   * @param rangeProperty - Actual distance from the bat to the insect (m)
+   * @param closingSpeedProperty - Actual rate at which the distance shrinks (m/s)
+   */
+  constructor(
+    batSpeedProperty: Property<number>,
+    batSpeedRange: RangeWithValue,
+    insectSpeedProperty: Property<number>,
+    insectSpeedRange: RangeWithValue,
+    callFrequencyProperty: TReadOnlyProperty<number | null>,
+    echoFrequencyProperty: TReadOnlyProperty<number | null>,
+    echoDelayProperty: TReadOnlyProperty<number | null>,
+    showAnswerProperty: Property<boolean>,
+    estimatedRangeProperty: TReadOnlyProperty<number | null>,
+    estimatedClosingSpeedProperty: TReadOnlyProperty<number | null>,
+    rangeProperty: TReadOnlyProperty<number>,
+    closingSpeedProperty: TReadOnlyProperty<number>,
+  ) {
+    const strings = StringManager.getInstance().getBatStrings();
+
+    // Create the speed controls
+    const createSpeedControl = (
+      title: TReadOnlyProperty<string>,
+      speedProperty: Property<number>,
+      speedRange: RangeWithValue,
+    ): NumberControl =>
+      new NumberControl(title, speedProperty, speedRange, {
+        layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        delta: 1,
+        numberDisplayOptions: {
+          valuePattern: strings.metersPerSecondStringProperty,
+        },
+        titleNodeOptions: {
+          font: new PhetFont(12),
+          maxWidth: 180,
+          fill: DopplerEffectColors.controlPanelTextColorProperty,
+        },
+      });
+
+    // Readouts drawn as plain text on the panel
+    const createReadout = (
+      valueProperty: TReadOnlyProperty<number | null>,
+      range: Range,
+      decimalPlaces: number,
+      valuePattern: TReadOnlyProperty<string>,
+      visibleProperty?: TReadOnlyProperty<boolean>,
+    ): NumberDisplay =>
+      new NumberDisplay(valueProperty, range, {
+        decimalPlaces: decimalPlaces,
+        valuePattern: valuePattern,
+        textOptions: {
+          font: new PhetFont(14),
+          fill: DopplerEffectColors.controlPanelTextColorProperty,
+        },
+        backgroundFill: "transparent",
+        backgroundStroke: null,
+        xMargin: 0,
+        yMargin: 0,
+        visibleProperty: visibleProperty ?? null,
+      });
+
+    const showAnswerCheckbox = new Checkbox(
+      showAnswerProperty,
+      new Text(strings.showAnswerStringProperty, {
+        font: new PhetFont(14),
+        fill: DopplerEffectColors.controlPanelTextColorProperty,
+        maxWidth: 180,
+      }),
+    );
+    showAnswerCheckbox.setAccessibleName("Show answer");
+
+    super(
+      new VBox({
+        spacing: 8,
+        align: "left",
+        children: [
+          createSpeedControl(strings.batSpeedStringProperty, batSpeedProperty, batSpeedRange),
+          createSpeedControl(strings.insectSpeedStringProperty, insectSpeedProperty, insectSpeedRange),
+          createReadout(callFrequencyProperty, FREQUENCY_RANGE, 3, strings.callFrequencyPatternStringProperty),
+          createReadout(echoFrequencyProperty, FREQUENCY_RANGE, 3, strings.echoFrequencyPatternStringProperty),
+          createReadout(echoDelayProperty, DELAY_RANGE, 3, strings.echoDelayPatternStringProperty),
+          showAnswerCheckbox,
+          createReadout(
+            estimatedRangeProperty,
+            RANGE_RANGE,
+            1,
+            strings.estimatedRangePatternStringProperty,
+            showAnswerProperty,
+          ),
+          createReadout(
+            estimatedClosingSpeedProperty,
+            SPEED_RANGE,
+            1,
+            strings.estimatedClosingSpeedPatternStringProperty,
+            showAnswerProperty,
+          ),
+          createReadout(rangeProperty, RANGE_RANGE, 1, strings.rangePatternStringProperty, showAnswerProperty),
+          createReadout(
+            closingSpeedProperty,
+            SPEED_RANGE,
+            1,
+            strings.closingSpeedPatternStringProperty,
+            showAnswerProperty,
+          ),
+        ],
+      }),
+      {
+        fill: DopplerEffectColors.controlPanelBackgroundColorProperty,
+        stroke: DopplerEffectColors.controlPanelBorderColorProperty,
+      },
+    );
+  }
+}
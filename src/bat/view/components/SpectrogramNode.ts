@@ -0,0 +1,138 @@
+/**
+ * SpectrogramNode.ts
+ *
+ * Spectrogram of the last seconds of sound, with time running to the right up to the present and frequency
+ * rising upward. Each frequency heard is drawn as a short dash at its time, so a call sweeping down in
+ * frequency shows as a falling streak, and silences are left blank.
+ */
+
+import {
+  Line,
+  Node,
+  Path,
+  PatternStringProperty,
+  PhetFont,
+  Rectangle,
+  Shape,
+  type TColor,
+  Text,
+  type TReadOnlyProperty,
+  VBox,
+} from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import { StringManager } from "../../../i18n/StringManager";
+import { TIMESTEP } from "../../../screen-name/model/SimConstants";
+import { SPECTROGRAM } from "../../model/BatConstants";
+import type { SpectrogramSample } from "../../model/BatModel";
+
+// Layout of the graph
+const GRAPH = {
+  WIDTH: 300, // view units
+  HEIGHT: 110, // view units
+  DASH_HEIGHT: 3, // view units
+  FREQUENCY_TICK_SPACING: 5, // (Hz)
+  TIME_TICK_SPACING: 2, // (s)
+  LABEL_SPACING: 4, // view units
+} as const;
+
+/**
+ * Component that renders a spectrogram
+ */
+export class SpectrogramNode extends VBox {
+  private readonly tracePath: Path;
+
+  /**
+   * Constructor for the SpectrogramNode
+   *
+   * @param titleProperty - Title of the graph
+   * @param traceColor - Color of the frequencies heard
+   */
+  constructor(titleProperty: TReadOnlyProperty<string>, traceColor: TColor) {
+    const strings = StringManager.getInstance().getBatStrings();
+
+    const titleText = new Text(titleProperty, {
+      font: new PhetFont(12),
+      maxWidth: GRAPH.WIDTH,
+      fill: DopplerEffectColors.textColorProperty,
+    });
+
+    const background = new Rectangle(0, 0, GRAPH.WIDTH, GRAPH.HEIGHT, {
+      fill: DopplerEffectColors.graphBackgroundColorProperty,
+      stroke: DopplerEffectColors.graphGridColorProperty,
+    });
+    const tracePath = new Path(null, { fill: traceColor });
+
+    // Frequency axis, with a grid line at each tick
+    const labelOptions = { font: new PhetFont(10), fill: DopplerEffectColors.textColorProperty };
+    const frequencyTicks: Node[] = [];
+    for (
+      let frequency = GRAPH.FREQUENCY_TICK_SPACING;
+      frequency <= SPECTROGRAM.MAX_FREQUENCY;
+      frequency += GRAPH.FREQUENCY_TICK_SPACING
+    ) {
+      const y = GRAPH.HEIGHT * (1 - frequency / SPECTROGRAM.MAX_FREQUENCY);
+      const label = new Text(new PatternStringProperty(strings.hertzStringProperty, { value: frequency }), {
+        ...labelOptions,
+        maxWidth: 40,
+      });
+      label.boundsProperty.link(() => {
+        label.right = -GRAPH.LABEL_SPACING;
+        label.centerY = y;
+      });
+      frequencyTicks.push(
+        new Line(0, y, GRAPH.WIDTH, y, { stroke: DopplerEffectColors.graphGridColorProperty, lineDash: [2, 4] }),
+        label,
+      );
+    }
+
+    // Time axis, in seconds before the present
+    const timeLabels: Text[] = [];
+    for (let age = 0; age <= SPECTROGRAM.DURATION; age += GRAPH.TIME_TICK_SPACING) {
+      timeLabels.push(
+        new Text(age === 0 ? "0" : `-${age}`, {
+          ...labelOptions,
+          centerX: GRAPH.WIDTH * (1 - age / SPECTROGRAM.DURATION),
+          top: GRAPH.HEIGHT + GRAPH.LABEL_SPACING,
+        }),
+      );
+    }
+
+    const axisText = new Text(strings.timeAxisStringProperty, {
+      font: new PhetFont(10),
+      maxWidth: GRAPH.WIDTH,
+      fill: DopplerEffectColors.textColorProperty,
+    });
+
+    super({
+      spacing: GRAPH.LABEL_SPACING,
+      children: [
+        titleText,
+        new Node({ children: [background, ...frequencyTicks, tracePath, ...timeLabels] }),
+        axisText,
+      ],
+    });
+
+    this.tracePath = tracePath;
+  }
+
+  /**
+   * Redraw the frequencies heard
+   *
+   * @param samples - Frequencies heard, oldest first
+   * @param time - Present simulation time in seconds (s)
+   */
+  public update(samples: readonly SpectrogramSample[], time: number): void {
+    const shape = new Shape();
+
+    // Each dash spans the time since the previous sample, so a steady sound draws a continuous streak
+    const dashWidth = (GRAPH.WIDTH * TIMESTEP.DT * TIMESTEP.STEPS_PER_SAMPLE) / SPECTROGRAM.DURATION;
+    for (const sample of samples) {
+      const x = GRAPH.WIDTH * (1 - (time - sample.time) / SPECTROGRAM.DURATION);
+      const y = GRAPH.HEIGHT * (1 - sample.frequency / SPECTROGRAM.MAX_FREQUENCY);
+      if (x - dashWidth >= 0 && y >= 0) {
+        shape.rect(x - dashWidth, y - GRAPH.DASH_HEIGHT / 2, dashWidth, GRAPH.DASH_HEIGHT);
+      }
+    }
+    this.tracePath.shape = shape;
+  }
+}
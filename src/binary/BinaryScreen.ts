@@ -0,0 +1,13 @@
+import { Screen, type ScreenOptions } from "scenerystack/sim";
+import { BinaryModel } from "./model/BinaryModel.js";
+import { BinaryScreenView } from "./view/BinaryScreenView.js";
+
+export class BinaryScreen extends Screen<BinaryModel, BinaryScreenView> {
+  public constructor(options: ScreenOptions) {
+    super(
+      () => new BinaryModel(),
+      (model) => new BinaryScreenView(model),
+      options,
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Constants for the radial-velocity screen
+ *
+ * Units:
+ * - All distances are in meters (m)
+ * - All velocities are in meters per second (m/s)
+ * - All times are in seconds (s), shown in days
+ * - All masses are in kilograms (kg), shown in solar masses
+ * - All angles are in radians (rad)
+ *
+ * The barycenter is at the origin, and the screen is the plane that holds the line of sight.
+ */
+
+// Physical constants
+export const ASTRONOMY = {
+  GRAVITATIONAL_CONSTANT: 6.674e-11, // (m³/(kg·s²))
+  SOLAR_MASS: 1.989e30, // (kg)
+  JUPITER_MASS: 1.898e27, // (kg)
+  DAY: 86400, // (s)
+  SPEED_OF_LIGHT: 299792458, // (m/s)
+  H_ALPHA_WAVELENGTH: 656.28, // Wavelength of the line measured in the spectrum of the star (nm)
+} as const;
+
+// Star and companion
+export const BINARY = {
+  STAR_MASS: 1, // Mass of the star whose spectrum is observed (solar masses)
+  INITIAL_PERIOD: 10, // (days)
+  MIN_PERIOD: 1, // (days)
+  MAX_PERIOD: 40, // Short enough for three orbits within the graph (days)
+  INITIAL_STAR_COMPANION_MASS: 0.5, // Mass of a companion star (solar masses)
+  MIN_STAR_COMPANION_MASS: 0.1, // (solar masses)
+  MAX_STAR_COMPANION_MASS: 1, // (solar masses)
+  INITIAL_PLANET_MASS: 5, // Mass of a planet (Jupiter masses)
+  MIN_PLANET_MASS: 1, // (Jupiter masses)
+  MAX_PLANET_MASS: 20, // (Jupiter masses)
+  INITIAL_ECCENTRICITY: 0, // (dimensionless)
+  MAX_ECCENTRICITY: 0.9, // (dimensionless)
+  INITIAL_INCLINATION: Math.PI / 2, // Orbit seen edge-on (rad)
+  INITIAL_LINE_OF_SIGHT_ANGLE: 0, // Direction from the barycenter toward the observer, from +x (rad)
+  TIME_SCALE: 4, // Days of orbit per second of simulation (dimensionless)
+} as const;
+
+// Radial-velocity curve
+export const RV_CURVE = {
+  SAMPLE_INTERVAL: 0.5, // Time between measurements of the spectrum (days)
+  DURATION: 120, // Time covered by the graph, after which the measurements stop (days)
+  INITIAL_FIT_PERIOD: 20, // (days)
+  INITIAL_STAR_FIT_AMPLITUDE: 20, // A companion star swings the star by tens of kilometers per second (km/s)
+  MAX_STAR_FIT_AMPLITUDE: 300, // (km/s)
+  INITIAL_PLANET_FIT_AMPLITUDE: 200, // A planet swings the star by meters per second (m/s)
+  MAX_PLANET_FIT_AMPLITUDE: 10000, // (m/s)
+  INITIAL_FIT_PHASE: 0, // (rad)
+} as const;
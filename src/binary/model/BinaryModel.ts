@@ -0,0 +1,362 @@
+import {
+  BooleanProperty,
+  DerivedProperty,
+  EnumerationProperty,
+  Multilink,
+  NumberProperty,
+  Property,
+  RangeWithValue,
+  type TReadOnlyProperty,
+  Vector2,
+} from "scenerystack";
+import { KeplerianTrajectory } from "../../screen-name/model/KeplerianTrajectory";
+import { MovableObject } from "../../screen-name/model/MovableObject";
+import { RelativisticDopplerCalculator } from "../../screen-name/model/RelativisticDopplerCalculator";
+import { ASTRONOMY, BINARY, RV_CURVE } from "./BinaryConstants";
+import { Companion } from "./Companion";
+
+// A measurement of the radial velocity of the star
+export type RadialVelocitySample = {
+  time: number; // time of the measurement in seconds (s)
+  radialVelocity: number; // radial velocity, positive when receding, in meters per second (m/s)
+};
+
+/**
+ * Model for the radial-velocity screen
+ *
+ * A star and its companion, another star or a planet, orbit their barycenter on Keplerian ellipses
+ * with the same period, eccentricity and inclination, the star on the smaller one. A distant observer
+ * measures the Doppler shift of the Hα line in the spectrum of the star at regular times, and takes
+ * v_r = c·Δλ/λ as its radial velocity, building up the radial-velocity curve.
+ *
+ * Students fit a sine curve to the measurements by adjusting its period, amplitude and phase. For a circular orbit
+ * the fitted amplitude is the semi-amplitude K = 2πa·sin(i) / (P·sqrt(1 - e²)) of the star; an eccentric orbit
+ * gives a skewed curve that no sine fits.
+ */
+export class BinaryModel {
+  // Kind of companion, which sets the units of its mass and of the radial velocity
+  public readonly companionProperty: EnumerationProperty<Companion>;
+
+  // Orbital period in seconds (s)
+  public readonly periodProperty: NumberProperty;
+  public readonly periodRange: RangeWithValue;
+
+  // Mass of a companion star and of a planet in kilograms (kg)
+  public readonly starCompanionMassProperty: NumberProperty;
+  public readonly starCompanionMassRange: RangeWithValue;
+  public readonly planetMassProperty: NumberProperty;
+  public readonly planetMassRange: RangeWithValue;
+
+  // Eccentricity of the orbits (dimensionless)
+  public readonly eccentricityProperty: NumberProperty;
+  public readonly eccentricityRange: RangeWithValue;
+
+  // Inclination of the orbits to the plane of the sky, 90° edge-on, in radians (rad)
+  public readonly inclinationProperty: NumberProperty;
+  public readonly inclinationRange: RangeWithValue;
+
+  // Direction from the barycenter toward the observer, measured from the x axis, in radians (rad)
+  public readonly lineOfSightAngleProperty: NumberProperty;
+  public readonly lineOfSightAngleRange: RangeWithValue;
+
+  // Unit vector from the barycenter toward the observer (dimensionless)
+  public readonly lineOfSightProperty: TReadOnlyProperty<Vector2>;
+
+  // Orbits of the star and of its companion
+  public readonly starTrajectoryProperty: TReadOnlyProperty<KeplerianTrajectory>;
+  public readonly companionTrajectoryProperty: TReadOnlyProperty<KeplerianTrajectory>;
+
+  // The star whose spectrum is measured, and its companion
+  public readonly star: MovableObject;
+  public readonly companion: MovableObject;
+
+  // Time since the measurements started in seconds (s)
+  public readonly timeProperty: NumberProperty;
+
+  // Measurements of the radial velocity, one every sample interval
+  public readonly samples: RadialVelocitySample[] = [];
+
+  // Wavelength of the Hα line as observed now, in nanometers (nm)
+  public readonly observedWavelengthProperty: NumberProperty;
+
+  // Radial velocity of the star measured now, positive when receding, in meters per second (m/s)
+  public readonly radialVelocityProperty: NumberProperty;
+
+  // Semi-amplitude of the radial-velocity curve, the answer to the fit, in meters per second (m/s)
+  public readonly trueAmplitudeProperty: TReadOnlyProperty<number>;
+
+  // Sine curve fitted by the students: period in seconds (s), amplitudes in meters per second (m/s)
+  // for a companion star and for a planet, and phase in radians (rad)
+  public readonly fitPeriodProperty: NumberProperty;
+  public readonly fitPeriodRange: RangeWithValue;
+  public readonly starFitAmplitudeProperty: NumberProperty;
+  public readonly starFitAmplitudeRange: RangeWithValue;
+  public readonly planetFitAmplitudeProperty: NumberProperty;
+  public readonly planetFitAmplitudeRange: RangeWithValue;
+  public readonly fitPhaseProperty: NumberProperty;
+  public readonly fitPhaseRange: RangeWithValue;
+
+  // Amplitude of the fitted curve for the current companion in meters per second (m/s)
+  public readonly fitAmplitudeProperty: TReadOnlyProperty<number>;
+
+  // Root-mean-square difference between the measurements and the fitted curve, in meters per second (m/s),
+  // null before the first measurement
+  public readonly fitErrorProperty: Property<number | null>;
+
+  // Whether the true period and amplitude are shown
+  public readonly showAnswerProperty: BooleanProperty;
+
+  // Simulation state
+  public readonly playProperty: BooleanProperty;
+
+  private readonly dopplerCalculator: RelativisticDopplerCalculator = new RelativisticDopplerCalculator();
+
+  public constructor() {
+    this.companionProperty = new EnumerationProperty(Companion.STAR);
+
+    this.periodRange = new RangeWithValue(
+      BINARY.MIN_PERIOD * ASTRONOMY.DAY,
+      BINARY.MAX_PERIOD * ASTRONOMY.DAY,
+      BINARY.INITIAL_PERIOD * ASTRONOMY.DAY,
+    );
+    this.periodProperty = new NumberProperty(this.periodRange.defaultValue, { range: this.periodRange });
+
+    this.starCompanionMassRange = new RangeWithValue(
+      BINARY.MIN_STAR_COMPANION_MASS * ASTRONOMY.SOLAR_MASS,
+      BINARY.MAX_STAR_COMPANION_MASS * ASTRONOMY.SOLAR_MASS,
+      BINARY.INITIAL_STAR_COMPANION_MASS * ASTRONOMY.SOLAR_MASS,
+    );
+    this.starCompanionMassProperty = new NumberProperty(this.starCompanionMassRange.defaultValue, {
+      range: this.starCompanionMassRange,
+    });
+    this.planetMassRange = new RangeWithValue(
+      BINARY.MIN_PLANET_MASS * ASTRONOMY.JUPITER_MASS,
+      BINARY.MAX_PLANET_MASS * ASTRONOMY.JUPITER_MASS,
+      BINARY.INITIAL_PLANET_MASS * ASTRONOMY.JUPITER_MASS,
+    );
+    this.planetMassProperty = new NumberProperty(this.planetMassRange.defaultValue, { range: this.planetMassRange });
+
+    this.eccentricityRange = new RangeWithValue(0, BINARY.MAX_ECCENTRICITY, BINARY.INITIAL_ECCENTRICITY);
+    this.eccentricityProperty = new NumberProperty(BINARY.INITIAL_ECCENTRICITY, { range: this.eccentricityRange });
+
+    this.inclinationRange = new RangeWithValue(0, Math.PI / 2, BINARY.INITIAL_INCLINATION);
+    this.inclinationProperty = new NumberProperty(BINARY.INITIAL_INCLINATION, { range: this.inclinationRange });
+
+    this.lineOfSightAngleRange = new RangeWithValue(-Math.PI, Math.PI, BINARY.INITIAL_LINE_OF_SIGHT_ANGLE);
+    this.lineOfSightAngleProperty = new NumberProperty(BINARY.INITIAL_LINE_OF_SIGHT_ANGLE, {
+      range: this.lineOfSightAngleRange,
+    });
+    this.lineOfSightProperty = new DerivedProperty([this.lineOfSightAngleProperty], (angle) =>
+      Vector2.createPolar(1, angle),
+    );
+
+    // Both bodies go around the barycenter with the period of the pair, on ellipses in inverse proportion
+    // to their masses, from Kepler's third law a³ = G(M + m)P² / 4π²
+    const createTrajectory = (isStar: boolean) =>
+      new DerivedProperty(
+        [
+          this.companionProperty,
+          this.periodProperty,
+          this.starCompanionMassProperty,
+          this.planetMassProperty,
+          this.eccentricityProperty,
+          this.inclinationProperty,
+          this.lineOfSightProperty,
+        ],
+        (companion, period, starCompanionMass, planetMass, eccentricity, inclination, lineOfSight) => {
+          const starMass = BINARY.STAR_MASS * ASTRONOMY.SOLAR_MASS; // in kilograms (kg)
+          const companionMass = companion === Companion.STAR ? starCompanionMass : planetMass; // in kilograms (kg)
+          const totalMass = starMass + companionMass; // in kilograms (kg)
+          const separation = Math.cbrt(
+            (ASTRONOMY.GRAVITATIONAL_CONSTANT * totalMass * period * period) / (4 * Math.PI * Math.PI),
+          ); // in meters (m)
+          return new KeplerianTrajectory(
+            Vector2.ZERO,
+            (separation * (isStar ? companionMass : starMass)) / totalMass,
+            eccentricity,
+            period,
+            isStar ? 0 : Math.PI,
+            inclination,
+            lineOfSight,
+          );
+        },
+      );
+    this.starTrajectoryProperty = createTrajectory(true);
+    this.companionTrajectoryProperty = createTrajectory(false);
+
+    this.star = new MovableObject(Vector2.ZERO);
+    this.companion = new MovableObject(Vector2.ZERO);
+    this.timeProperty = new NumberProperty(0);
+    this.observedWavelengthProperty = new NumberProperty(ASTRONOMY.H_ALPHA_WAVELENGTH);
+    this.radialVelocityProperty = new NumberProperty(0);
+
+    this.trueAmplitudeProperty = new DerivedProperty([this.starTrajectoryProperty], (trajectory) =>
+      trajectory.getRadialVelocityAmplitude(),
+    );
+
+    this.fitPeriodRange = new RangeWithValue(
+      BINARY.MIN_PERIOD * ASTRONOMY.DAY,
+      BINARY.MAX_PERIOD * ASTRONOMY.DAY,
+      RV_CURVE.INITIAL_FIT_PERIOD * ASTRONOMY.DAY,
+    );
+    this.fitPeriodProperty = new NumberProperty(this.fitPeriodRange.defaultValue, { range: this.fitPeriodRange });
+    this.starFitAmplitudeRange = new RangeWithValue(
+      0,
+      RV_CURVE.MAX_STAR_FIT_AMPLITUDE * Companion.STAR.velocityUnit,
+      RV_CURVE.INITIAL_STAR_FIT_AMPLITUDE * Companion.STAR.velocityUnit,
+    );
+    this.starFitAmplitudeProperty = new NumberProperty(this.starFitAmplitudeRange.defaultValue, {
+      range: this.starFitAmplitudeRange,
+    });
+    this.planetFitAmplitudeRange = new RangeWithValue(
+      0,
+      RV_CURVE.MAX_PLANET_FIT_AMPLITUDE * Companion.PLANET.velocityUnit,
+      RV_CURVE.INITIAL_PLANET_FIT_AMPLITUDE * Companion.PLANET.velocityUnit,
+    );
+    this.planetFitAmplitudeProperty = new NumberProperty(this.planetFitAmplitudeRange.defaultValue, {
+      range: this.planetFitAmplitudeRange,
+    });
+    this.fitAmplitudeProperty = new DerivedProperty(
+      [this.companionProperty, this.starFitAmplitudeProperty, this.planetFitAmplitudeProperty],
+      (companion, starFitAmplitude, planetFitAmplitude) =>
+        companion === Companion.STAR ? starFitAmplitude : planetFitAmplitude,
+    );
+    this.fitPhaseRange = new RangeWithValue(-Math.PI, Math.PI, RV_CURVE.INITIAL_FIT_PHASE);
+    this.fitPhaseProperty = new NumberProperty(RV_CURVE.INITIAL_FIT_PHASE, { range: this.fitPhaseRange });
+    this.fitErrorProperty = new Property<number | null>(null);
+
+    this.showAnswerProperty = new BooleanProperty(false);
+    this.playProperty = new BooleanProperty(true);
+
+    // A new system starts a new set of measurements
+    Multilink.multilink([this.starTrajectoryProperty, this.companionTrajectoryProperty], () => this.restart());
+
+    Multilink.lazyMultilink([this.fitPeriodProperty, this.fitAmplitudeProperty, this.fitPhaseProperty], () =>
+      this.updateFitError(),
+    );
+  }
+
+  /**
+   * Reset the model to its initial state
+   */
+  public reset(): void {
+    this.companionProperty.reset();
+    this.periodProperty.reset();
+    this.starCompanionMassProperty.reset();
+    this.planetMassProperty.reset();
+    this.eccentricityProperty.reset();
+    this.inclinationProperty.reset();
+    this.lineOfSightAngleProperty.reset();
+    this.fitPeriodProperty.reset();
+    this.starFitAmplitudeProperty.reset();
+    this.planetFitAmplitudeProperty.reset();
+    this.fitPhaseProperty.reset();
+    this.showAnswerProperty.reset();
+    this.playProperty.reset();
+    this.restart();
+  }
+
+  /**
+   * Step the model forward in time
+   * @param dt - elapsed time in seconds (s)
+   * @param force - step even while paused, for the step button
+   */
+  public step(dt: number, force: boolean = false): void {
+    if (!(this.playProperty.value || force)) {
+      return;
+    }
+
+    const previousTime = this.timeProperty.value; // in seconds (s)
+    const time = previousTime + dt * BINARY.TIME_SCALE * ASTRONOMY.DAY; // in seconds (s)
+    this.timeProperty.value = time;
+    this.star.updatePosition(time - previousTime, time);
+    this.companion.updatePosition(time - previousTime, time);
+    this.measure();
+
+    // Record a measurement at every sample time passed, until the graph is full
+    const sampleInterval = RV_CURVE.SAMPLE_INTERVAL * ASTRONOMY.DAY; // in seconds (s)
+    const duration = RV_CURVE.DURATION * ASTRONOMY.DAY; // in seconds (s)
+    let sampleTime = this.samples.length * sampleInterval; // in seconds (s)
+    while (sampleTime <= time && sampleTime <= duration) {
+      this.samples.push({
+        time: sampleTime,
+        radialVelocity: this.measureRadialVelocity(this.starTrajectoryProperty.value.getVelocity(sampleTime)).velocity,
+      });
+      sampleTime = this.samples.length * sampleInterval;
+    }
+    this.updateFitError();
+  }
+
+  /**
+   * Get the radial velocity on the fitted sine curve
+   * @param time - time since the measurements started in seconds (s)
+   * @returns radial velocity in meters per second (m/s)
+   */
+  public getFitVelocity(time: number): number {
+    return (
+      this.fitAmplitudeProperty.value *
+      Math.sin((2 * Math.PI * time) / this.fitPeriodProperty.value + this.fitPhaseProperty.value)
+    ); // in m/s
+  }
+
+  /**
+   * Put the star and the companion at periapsis and clear the measurements
+   */
+  private restart(): void {
+    this.timeProperty.value = 0;
+    this.samples.length = 0;
+    this.star.followTrajectory(this.starTrajectoryProperty.value, 0);
+    this.companion.followTrajectory(this.companionTrajectoryProperty.value, 0);
+    this.measure();
+    this.updateFitError();
+  }
+
+  /**
+   * Measure the Hα line in the spectrum of the star as it moves now
+   */
+  private measure(): void {
+    const measurement = this.measureRadialVelocity(this.star.velocityProperty.value);
+    this.observedWavelengthProperty.value = measurement.wavelength;
+    this.radialVelocityProperty.value = measurement.velocity;
+  }
+
+  /**
+   * Find the radial velocity of the star as an astronomer does, from the shift of the Hα line
+   * @param velocity - velocity of the star in meters per second (m/s)
+   * @returns observed wavelength of the line in nanometers (nm) and radial velocity in meters per second (m/s)
+   */
+  private measureRadialVelocity(velocity: Vector2): { wavelength: number; velocity: number } {
+    // The light travels from the star along the line of sight toward the observer
+    const restFrequency = ASTRONOMY.SPEED_OF_LIGHT / (ASTRONOMY.H_ALPHA_WAVELENGTH * 1e-9); // in Hertz (Hz)
+    const observedFrequency = this.dopplerCalculator.calculateReceivedFrequency(
+      restFrequency,
+      velocity,
+      Vector2.ZERO,
+      this.lineOfSightProperty.value,
+      ASTRONOMY.SPEED_OF_LIGHT,
+      Vector2.ZERO,
+    ); // in Hertz (Hz)
+    const wavelength = (ASTRONOMY.SPEED_OF_LIGHT / observedFrequency) * 1e9; // in nanometers (nm)
+
+    // For speeds far below the speed of light, v_r = c·Δλ/λ
+    return {
+      wavelength: wavelength,
+      velocity: (ASTRONOMY.SPEED_OF_LIGHT * (wavelength - ASTRONOMY.H_ALPHA_WAVELENGTH)) / ASTRONOMY.H_ALPHA_WAVELENGTH,
+    };
+  }
+
+  /**
+   * Update the root-mean-square difference between the measurements and the fitted curve
+   */
+  private updateFitError(): void {
+    if (this.samples.length === 0) {
+      this.fitErrorProperty.value = null;
+      return;
+    }
+    const sumOfSquares = this.samples.reduce(
+      (sum, sample) => sum + (sample.radialVelocity - this.getFitVelocity(sample.time)) ** 2,
+      0,
+    ); // in square meters per second squared (m²/s²)
+    this.fitErrorProperty.value = Math.sqrt(sumOfSquares / this.samples.length);
+  }
+}
@@ -0,0 +1,44 @@
+import { Enumeration, EnumerationValue, type TReadOnlyProperty } from "scenerystack";
+import { StringManager } from "../../i18n/StringManager";
+import { ASTRONOMY } from "./BinaryConstants";
+
+/**
+ * Companion orbiting the star, either another star or a planet. A planet swings the star around
+ * a thousand times more slowly than a star does, so each kind of companion has its own mass unit and
+ * its own unit for the radial velocity.
+ */
+export class Companion extends EnumerationValue {
+  // String property for display name
+  public readonly displayNameProperty: TReadOnlyProperty<string>;
+
+  // Unit of the mass of the companion, in kilograms (kg)
+  public readonly massUnit: number;
+
+  // Unit of the radial velocity of the star, in meters per second (m/s)
+  public readonly velocityUnit: number;
+
+  public constructor(displayNameProperty: TReadOnlyProperty<string>, massUnit: number, velocityUnit: number) {
+    super();
+
+    this.displayNameProperty = displayNameProperty;
+    this.massUnit = massUnit;
+    this.velocityUnit = velocityUnit;
+  }
+
+  // Spectroscopic binary: a second star in solar masses, radial velocities in kilometers per second
+  public static readonly STAR = new Companion(
+    StringManager.getInstance().getBinaryStrings().starCompanionStringProperty,
+    ASTRONOMY.SOLAR_MASS,
+    1000,
+  );
+
+  // Exoplanet: a giant planet in Jupiter masses, radial velocities in meters per second
+  public static readonly PLANET = new Companion(
+    StringManager.getInstance().getBinaryStrings().planetCompanionStringProperty,
+    ASTRONOMY.JUPITER_MASS,
+    1,
+  );
+
+  // Gets a list of keys, values and mapping between them. For use in EnumerationProperty
+  public static readonly enumeration = new Enumeration(Companion);
+}
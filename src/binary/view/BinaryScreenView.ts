@@ -0,0 +1,330 @@
+import {
+  ArrowNode,
+  Circle,
+  DerivedProperty,
+  Multilink,
+  NumberDisplay,
+  Path,
+  PhetFont,
+  Range,
+  ResetAllButton,
+  Shape,
+  Text,
+  TimeControlNode,
+  VBox,
+  Vector2,
+} from "scenerystack";
+import { ScreenView, type ScreenViewOptions } from "scenerystack/sim";
+import DopplerEffectColors from "../../DopplerEffectColors";
+import { StringManager } from "../../i18n/StringManager";
+import type { KeplerianTrajectory } from "../../screen-name/model/KeplerianTrajectory";
+import type { BinaryModel } from "../model/BinaryModel";
+import { Companion } from "../model/Companion";
+import { BinarySystemControlNode } from "./components/BinarySystemControlNode";
+import { CurveFitControlNode } from "./components/CurveFitControlNode";
+import { RadialVelocityGraphNode } from "./components/RadialVelocityGraphNode";
+
+// UI constants
+const UI = {
+  ORBIT_CENTER: new Vector2(170, 150), // barycenter, view units
+  ORBIT_RADIUS: 105, // the larger orbit is scaled to reach this far from the barycenter, view units
+  ORBIT_POINTS: 200, // points along each drawn orbit (dimensionless)
+  STAR_RADIUS: 10, // view units
+  COMPANION_STAR_RADIUS: 8, // view units
+  PLANET_RADIUS: 4, // view units
+  BARYCENTER_SIZE: 5, // half the size of the cross at the barycenter, view units
+  OBSERVER_ARROW_START: 115, // distance of the arrow toward the observer from the barycenter, view units
+  OBSERVER_ARROW_LENGTH: 40, // view units
+  LABEL_SPACING: 6, // view units
+} as const;
+
+/**
+ * View for the radial-velocity screen
+ *
+ * Shows the star and its companion going around their barycenter, scaled so that the larger orbit fills
+ * the view, with an arrow toward the distant observer. Below them the radial-velocity curve builds up over
+ * many orbits, and the panels hold the controls of the pair and of the sine curve fitted to the measurements.
+ */
+export class BinaryScreenView extends ScreenView {
+  // Model reference
+  private readonly model: BinaryModel;
+
+  // Scale of the drawn orbits, in view units per meter
+  private orbitScale: number = 1;
+
+  private readonly starNode: Circle;
+  private readonly companionNode: Circle;
+  private readonly graphNode: RadialVelocityGraphNode;
+
+  /**
+   * Constructor for the BinaryScreenView
+   */
+  public constructor(model: BinaryModel, options?: ScreenViewOptions) {
+    const strings = StringManager.getInstance().getBinaryStrings();
+
+    super({
+      tagName: "div",
+      labelTagName: "h1",
+      labelContent: StringManager.getInstance().getScreenNameStrings().binaryStringProperty,
+      descriptionContent:
+        "A star and its companion, another star or a planet, orbit their barycenter. A distant observer measures the Doppler shift of a line in the spectrum of the star and plots its radial velocity over many orbits. Fit a sine curve to the measurements to find the orbital period and the amplitude of the star's motion.",
+      ...options,
+    });
+
+    this.model = model;
+
+    // Unit of the radial velocities, kilometers per second for a companion star and meters per second for a planet
+    const unitPatternProperty = new DerivedProperty(
+      [model.companionProperty, strings.kilometersPerSecondStringProperty, strings.metersPerSecondStringProperty],
+      (companion, kilometersPerSecond, metersPerSecond) =>
+        companion === Companion.STAR ? kilometersPerSecond : metersPerSecond,
+    );
+
+    // Create the orbits, the barycenter and the two bodies
+    const orbitsPath = new Path(null, {
+      stroke: DopplerEffectColors.graphGridColorProperty,
+      lineDash: [4, 4],
+    });
+    const barycenterNode = new Path(
+      new Shape()
+        .moveTo(-UI.BARYCENTER_SIZE, -UI.BARYCENTER_SIZE)
+        .lineTo(UI.BARYCENTER_SIZE, UI.BARYCENTER_SIZE)
+        .moveTo(-UI.BARYCENTER_SIZE, UI.BARYCENTER_SIZE)
+        .lineTo(UI.BARYCENTER_SIZE, -UI.BARYCENTER_SIZE),
+      { stroke: DopplerEffectColors.textColorProperty, lineWidth: 2, center: UI.ORBIT_CENTER },
+    );
+    barycenterNode.setAccessibleName("Barycenter");
+    this.starNode = new Circle(UI.STAR_RADIUS, { fill: DopplerEffectColors.starColorProperty });
+    this.starNode.setAccessibleName("Star");
+    this.companionNode = new Circle(UI.COMPANION_STAR_RADIUS, { fill: DopplerEffectColors.companionColorProperty });
+    this.companionNode.setAccessibleName("Companion");
+    model.companionProperty.link((companion) => {
+      this.companionNode.radius = companion === Companion.STAR ? UI.COMPANION_STAR_RADIUS : UI.PLANET_RADIUS;
+    });
+
+    Multilink.multilink([model.starTrajectoryProperty, model.companionTrajectoryProperty], (...trajectories) => {
+      // Scale the larger orbit to fill the view
+      const orbitPoints = trajectories.map((trajectory) => this.sampleOrbit(trajectory)); // in meters (m)
+      const largestDistance = Math.max(...orbitPoints.flat().map((point) => point.magnitude)); // in meters (m)
+      this.orbitScale = largestDistance > 0 ? UI.ORBIT_RADIUS / largestDistance : 1;
+
+      const orbitsShape = new Shape();
+      for (const points of orbitPoints) {
+        points.forEach((point, i) => {
+          const viewPoint = this.orbitToView(point);
+          if (i === 0) {
+            orbitsShape.moveToPoint(viewPoint);
+          } else {
+            orbitsShape.lineToPoint(viewPoint);
+          }
+        });
+        orbitsShape.close();
+      }
+      orbitsPath.shape = orbitsShape;
+    });
+
+    // Create the arrow toward the distant observer
+    const observerArrow = new ArrowNode(0, 0, 0, 0, {
+      headHeight: 12,
+      headWidth: 12,
+      tailWidth: 3,
+      fill: DopplerEffectColors.observerColorProperty,
+      stroke: null,
+    });
+    observerArrow.setAccessibleName("Direction to the observer");
+    const observerLabel = new Text(strings.toObserverStringProperty, {
+      font: new PhetFont(12),
+      fill: DopplerEffectColors.textColorProperty,
+      maxWidth: 110,
+    });
+    model.lineOfSightProperty.link((lineOfSight) => {
+      // The y-axis of the view points down
+      const direction = new Vector2(lineOfSight.x, -lineOfSight.y); // dimensionless
+      const tail = UI.ORBIT_CENTER.plus(direction.timesScalar(UI.OBSERVER_ARROW_START));
+      const tip = tail.plus(direction.timesScalar(UI.OBSERVER_ARROW_LENGTH));
+      observerArrow.setTailAndTip(tail.x, tail.y, tip.x, tip.y);
+      observerLabel.center = tip.plus(direction.timesScalar(UI.LABEL_SPACING + observerLabel.width / 2));
+    });
+
+    // Readouts of the measurement now, the radial velocity in the unit of the companion
+    const radialVelocityDisplay = new NumberDisplay(
+      new DerivedProperty(
+        [model.radialVelocityProperty, model.companionProperty],
+        (radialVelocity, companion) => radialVelocity / companion.velocityUnit,
+      ),
+      new Range(-10000, 10000),
+      {
+        decimalPlaces: 2,
+        valuePattern: new DerivedProperty(
+          [strings.radialVelocityPatternStringProperty, unitPatternProperty],
+          (pattern, unitPattern) => pattern.replace("{{value}}", unitPattern),
+        ),
+        textOptions: { font: new PhetFont(14), fill: DopplerEffectColors.textColorProperty },
+        backgroundFill: "transparent",
+        backgroundStroke: null,
+        xMargin: 0,
+        yMargin: 0,
+      },
+    );
+    const wavelengthDisplay = new NumberDisplay(model.observedWavelengthProperty, new Range(0, 1000), {
+      decimalPlaces: 5,
+      valuePattern: strings.observedWavelengthPatternStringProperty,
+      textOptions: { font: new PhetFont(14), fill: DopplerEffectColors.textColorProperty },
+      backgroundFill: "transparent",
+      backgroundStroke: null,
+      xMargin: 0,
+      yMargin: 0,
+    });
+    const readoutNode = new VBox({
+      spacing: 4,
+      align: "left",
+      children: [radialVelocityDisplay, wavelengthDisplay],
+      left: UI.ORBIT_CENTER.x - UI.ORBIT_RADIUS,
+      top: UI.ORBIT_CENTER.y + UI.ORBIT_RADIUS + 2 * UI.LABEL_SPACING,
+    });
+
+    // Create the graph and the panels
+    this.graphNode = new RadialVelocityGraphNode(unitPatternProperty);
+    this.graphNode.setAccessibleName("Radial-velocity curve");
+
+    const systemControlNode = new BinarySystemControlNode(
+      model.companionProperty,
+      model.periodProperty,
+      model.periodRange,
+      model.starCompanionMassProperty,
+      model.starCompanionMassRange,
+      model.planetMassProperty,
+      model.planetMassRange,
+      model.eccentricityProperty,
+      model.eccentricityRange,
+      model.inclinationProperty,
+      model.inclinationRange,
+      model.lineOfSightAngleProperty,
+      model.lineOfSightAngleRange,
+    );
+    systemControlNode.setAccessibleName("Orbit controls");
+
+    const fitControlNode = new CurveFitControlNode(
+      model.companionProperty,
+      unitPatternProperty,
+      model.fitPeriodProperty,
+      model.fitPeriodRange,
+      model.starFitAmplitudeProperty,
+      model.starFitAmplitudeRange,
+      model.planetFitAmplitudeProperty,
+      model.planetFitAmplitudeRange,
+      model.fitPhaseProperty,
+      model.fitPhaseRange,
+      model.fitErrorProperty,
+      model.showAnswerProperty,
+      model.periodProperty,
+      model.trueAmplitudeProperty,
+    );
+    fitControlNode.setAccessibleName("Curve fit controls");
+
+    // Add time control node
+    const timeControlNode = new TimeControlNode(model.playProperty, {
+      tagName: "div",
+      playPauseStepButtonOptions: {
+        stepForwardButtonOptions: {
+          listener: () => {
+            model.step(1 / 60, true);
+          },
+        },
+      },
+    });
+    timeControlNode.setAccessibleName("Simulation speed control");
+
+    // Setup reset all button
+    const resetAllButtonNode = new ResetAllButton({
+      listener: () => {
+        this.interruptSubtreeInput(); // Stop any ongoing interactions
+        model.reset();
+        this.updateView();
+      },
+    });
+    resetAllButtonNode.setAccessibleName("Reset simulation");
+
+    for (const node of [
+      orbitsPath,
+      barycenterNode,
+      this.companionNode,
+      this.starNode,
+      observerArrow,
+      observerLabel,
+      readoutNode,
+      this.graphNode,
+      fitControlNode,
+      systemControlNode,
+      timeControlNode,
+      resetAllButtonNode,
+    ]) {
+      this.addChild(node);
+    }
+
+    // Layout
+    this.visibleBoundsProperty.link((visibleBounds) => {
+      const interfaceBounds = visibleBounds.withMinY(this.layoutBounds.minY).withMaxY(this.layoutBounds.maxY);
+      resetAllButtonNode.right = interfaceBounds.right - 10;
+      resetAllButtonNode.bottom = interfaceBounds.bottom - 10;
+      systemControlNode.right = interfaceBounds.right - 10;
+      systemControlNode.top = interfaceBounds.top + 10;
+      fitControlNode.right = systemControlNode.left - 10;
+      fitControlNode.top = interfaceBounds.top + 10;
+      timeControlNode.centerX = interfaceBounds.centerX;
+      timeControlNode.bottom = interfaceBounds.bottom - 10;
+      this.graphNode.left = interfaceBounds.minX + 10;
+      this.graphNode.bottom = timeControlNode.top - 10;
+    });
+
+    this.updateView();
+  }
+
+  /**
+   * Main step function called each frame
+   */
+  public step(): void {
+    this.updateView();
+  }
+
+  /**
+   * Move the star and the companion and redraw the graph
+   */
+  private updateView(): void {
+    this.starNode.center = this.orbitToView(this.model.star.positionProperty.value);
+    this.companionNode.center = this.orbitToView(this.model.companion.positionProperty.value);
+
+    this.graphNode.update(
+      this.model.samples,
+      (time) => this.model.getFitVelocity(time),
+      this.model.fitAmplitudeProperty.value,
+      this.model.timeProperty.value,
+      this.model.companionProperty.value.velocityUnit,
+    );
+  }
+
+  /**
+   * Get points around an orbit over one period
+   * @param trajectory - the orbit
+   * @returns positions in meters (m)
+   */
+  private sampleOrbit(trajectory: KeplerianTrajectory): Vector2[] {
+    const points: Vector2[] = [];
+    for (let i = 0; i < UI.ORBIT_POINTS; i++) {
+      points.push(trajectory.getPosition((i / UI.ORBIT_POINTS) * trajectory.period));
+    }
+    return points;
+  }
+
+  /**
+   * Convert a position around the barycenter to view coordinates, with the y-axis pointing down
+   * @param position - position in meters (m)
+   * @returns position in view units
+   */
+  private orbitToView(position: Vector2): Vector2 {
+    return new Vector2(
+      UI.ORBIT_CENTER.x + position.x * this.orbitScale,
+      UI.ORBIT_CENTER.y - position.y * this.orbitScale,
+    );
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * BinarySystemControlNode.ts
+ *
+ * Panel of the controls for the orbiting pair: the kind of companion and its mass, the orbital period,
+ * the eccentricity and inclination of the orbits, and the direction of the line of sight.
+ * A companion star is weighed in solar masses and a planet in Jupiter masses.
+ */
+
+import {
+  DerivedProperty,
+  type EnumerationProperty,
+  HorizontalAquaRadioButtonGroup,
+  NumberControl,
+  Panel,
+  PhetFont,
+  type Property,
+  type RangeWithValue,
+  Text,
+  type TReadOnlyProperty,
+  UnitConversionProperty,
+  VBox,
+} from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import { StringManager } from "../../../i18n/StringManager";
+import { ASTRONOMY } from "../../model/BinaryConstants";
+import { Companion } from "../../model/Companion";
+
+/**
+ * Component that renders the controls of the orbiting pair
+ */
+export class BinarySystemControlNode extends Panel {
+  /**
+   * Constructor for the BinarySystemControlNode
+   *
+   * @param companionProperty - Property for the kind of companion
+   * @param periodProperty - Property for the orbital period (s)
+   * @param periodRange - Range for the orbital period (s)
+   * @param starCompanionMassProperty - Property for the mass of a companion star (kg)
+   * @param starCompanionMassRange - Range for the mass of a companion star (kg)
+   * @param planetMassProperty - Property for the mass of a planet (kg)
+   * @param planetMassRange - Range for the mass of a planet (kg)
+   * @param eccentricityProperty - Property for the eccentricity of the orbits (dimensionless)
+   * @param eccentricityRange - Range for the eccentricity (dimensionless)
+   * @param inclinationProperty - Property for the inclination of the orbits (rad)
+   * @param inclinationRange - Range for the inclination (rad)
+   * @param lineOfSightAngleProperty - Property for the direction toward the observer (rad)
+   * @param lineOfSightAngleRange - Range for the direction toward the observer (rad)
+   */
+  constructor(
+    companionProperty: EnumerationProperty<Companion>,
+    periodProperty: Property<number>,
+    periodRange: RangeWithValue,
+    starCompanionMassProperty: Property<number>,
+    starCompanionMassRange: RangeWithValue,
+    planetMassProperty: Property<number>,
+    planetMassRange: RangeWithValue,
+    eccentricityProperty: Property<number>,
+    eccentricityRange: RangeWithValue,
+    inclinationProperty: Property<number>,
+    inclinationRange: RangeWithValue,
+    lineOfSightAngleProperty: Property<number>,
+    lineOfSightAngleRange: RangeWithValue,
+  ) {
+    const strings = StringManager.getInstance().getBinaryStrings();
+
+    const titleNodeOptions = {
+      font: new PhetFont(12),
+      maxWidth: 140,
+      fill: DopplerEffectColors.controlPanelTextColorProperty,
+    };
+
+    const companionRadioButtonGroup = new HorizontalAquaRadioButtonGroup(
+      companionProperty,
+      [Companion.STAR, Companion.PLANET].map((companion) => ({
+        value: companion,
+        createNode: () =>
+          new Text(companion.displayNameProperty, {
+            font: new PhetFont(14),
+            fill: DopplerEffectColors.controlPanelTextColorProperty,
+            maxWidth: 90,
+          }),
+      })),
+      { spacing: 16 },
+    );
+    companionRadioButtonGroup.setAccessibleName("Companion selector");
+
+    // Create the period control, displayed in days while the model uses seconds
+    const periodControl = new NumberControl(
+      strings.periodStringProperty,
+      new UnitConversionProperty(periodProperty, { factor: 1 / ASTRONOMY.DAY }),
+      periodRange.times(1 / ASTRONOMY.DAY),
+      {
+        layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        delta: 0.5,
+        numberDisplayOptions: {
+          decimalPlaces: 1,
+          valuePattern: strings.daysStringProperty,
+        },
+        titleNodeOptions: titleNodeOptions,
+      },
+    );
+
+    // Create a mass control for each kind of companion, shown only while that kind is chosen
+    const starCompanionMassControl = new NumberControl(
+      strings.companionMassStringProperty,
+      new UnitConversionProperty(starCompanionMassProperty, { factor: 1 / ASTRONOMY.SOLAR_MASS }),
+      starCompanionMassRange.times(1 / ASTRONOMY.SOLAR_MASS),
+      {
+        layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        delta: 0.05,
+        numberDisplayOptions: {
+          decimalPlaces: 2,
+          valuePattern: strings.solarMassesStringProperty,
+        },
+        titleNodeOptions: titleNodeOptions,
+        visibleProperty: new DerivedProperty([companionProperty], (companion) => companion === Companion.STAR),
+      },
+    );
+    const planetMassControl = new NumberControl(
+      strings.companionMassStringProperty,
+      new UnitConversionProperty(planetMassProperty, { factor: 1 / ASTRONOMY.JUPITER_MASS }),
+      planetMassRange.times(1 / ASTRONOMY.JUPITER_MASS),
+      {
+        layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        delta: 0.5,
+        numberDisplayOptions: {
+          decimalPlaces: 1,
+          valuePattern: strings.jupiterMassesStringProperty,
+        },
+        titleNodeOptions: titleNodeOptions,
+        visibleProperty: new DerivedProperty([companionProperty], (companion) => companion === Companion.PLANET),
+      },
+    );
+
+    const eccentricityControl = new NumberControl(
+      strings.eccentricityStringProperty,
+      eccentricityProperty,
+      eccentricityRange,
+      {
+        layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        delta: 0.01,
+        numberDisplayOptions: {
+          decimalPlaces: 2,
+        },
+        titleNodeOptions: titleNodeOptions,
+      },
+    );
+
+    // Create the angle controls, displayed in degrees while the model uses radians
+    const createAngleControl = (
+      title: TReadOnlyProperty<string>,
+      angleProperty: Property<number>,
+      angleRange: RangeWithValue,
+    ): NumberControl =>
+      new NumberControl(
+        title,
+        new UnitConversionProperty(angleProperty, { factor: 180 / Math.PI }),
+        angleRange.times(180 / Math.PI),
+        {
+          layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+          delta: 1,
+          numberDisplayOptions: {
+            valuePattern: strings.degreesStringProperty,
+          },
+          titleNodeOptions: titleNodeOptions,
+        },
+      );
+
+    super(
+      new VBox({
+        spacing: 8,
+        align: "left",
+        children: [
+          companionRadioButtonGroup,
+          starCompanionMassControl,
+          planetMassControl,
+          periodControl,
+          eccentricityControl,
+          createAngleControl(strings.inclinationStringProperty, inclinationProperty, inclinationRange),
+          createAngleControl(strings.lineOfSightStringProperty, lineOfSightAngleProperty, lineOfSightAngleRange),
+        ],
+      }),
+      {
+        fill: DopplerEffectColors.controlPanelBackgroundColorProperty,
+        stroke: DopplerEffectColors.controlPanelBorderColorProperty,
+      },
+    );
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * CurveFitControlNode.ts
+ *
+ * Panel for fitting a sine curve to the radial-velocity curve: controls for the period, amplitude and phase
+ * of the curve, a readout of how far the measurements lie from it, and the true period and amplitude,
+ * hidden until the students ask for the answer.
+ */
+
+import {
+  Checkbox,
+  DerivedProperty,
+  type EnumerationProperty,
+  NumberControl,
+  NumberDisplay,
+  Panel,
+  PhetFont,
+  type Property,
+  Range,
+  type RangeWithValue,
+  Text,
+  type TReadOnlyProperty,
+  UnitConversionProperty,
+  VBox,
+} from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import { StringManager } from "../../../i18n/StringManager";
+import { ASTRONOMY } from "../../model/BinaryConstants";
+import { Companion } from "../../model/Companion";
+
+// Ranges the readouts are sized for
+const PERIOD_RANGE = new Range(0, 100); // in days
+const VELOCITY_RANGE = new Range(0, 10000); // in the unit of the companion, km/s or m/s
+
+/**
+ * Component that renders the controls of the fitted curve
+ */
+export class CurveFitControlNode extends Panel {
+  /**
+   * Constructor for the CurveFitControlNode
+   *
+   * @param companionProperty - Property for the kind of companion, which sets the unit of the velocities
+   * @param unitPatternProperty - Pattern of the unit of the velocities, such as "{{value}} km/s"
+   * @param fitPeriodProperty - Property for the period of the fitted curve (s)
+   * @param fitPeriodRange - Range for the period of the fitted curve (s)
+   * @param starFitAmplitudeProperty - Property for the amplitude fitted for a companion star (m/s)
+   * @param starFitAmplitudeRange - Range for the amplitude fitted for a companion star (m/s)
+   * @param planetFitAmplitudeProperty - Property for the amplitude fitted for a planet (m/s)
+   * @param planetFitAmplitudeRange - Range for the amplitude fitted for a planet (m/s)
+   * @param fitPhaseProperty - Property for the phase of the fitted curve (rad)
+   * @param fitPhaseRange - Range for the phase of the fitted curve (rad)
+   * @param fitErrorProperty - Root-mean-square difference between the measurements and the curve (m/s)
+   * @param showAnswerProperty - Property for whether the true period and amplitude are shown
+   * @param periodProperty - True orbital period (s)
+   * @param trueAmplitudeProperty - True semi-amplitude of the radial-velocity curve (m/s)
+   */
+  constructor(
+    companionProperty: EnumerationProperty<Companion>,
+    unitPatternProperty: TReadOnlyProperty<string>,
+    fitPeriodProperty: Property<number>,
+    fitPeriodRange: RangeWithValue,
+    starFitAmplitudeProperty: Property<number>,
+    starFitAmplitudeRange: RangeWithValue,
+    planetFitAmplitudeProperty: Property<number>,
+    planetFitAmplitudeRange: RangeWithValue,
+    fitPhaseProperty: Property<number>,
+    fitPhaseRange: RangeWithValue,
+    fitErrorProperty: TReadOnlyProperty<number | null>,
+    showAnswerProperty: Property<boolean>,
+    periodProperty: TReadOnlyProperty<number>,
+    trueAmplitudeProperty: TReadOnlyProperty<number>,
+  ) {
+    const strings = StringManager.getInstance().getBinaryStrings();
+
+    const titleText = new Text(strings.fitStringProperty, {
+      font: new PhetFont({ size: 14, weight: "bold" }),
+      fill: DopplerEffectColors.fitCurveColorProperty,
+      maxWidth: 200,
+    });
+
+    const titleNodeOptions = {
+      font: new PhetFont(12),
+      maxWidth: 140,
+      fill: DopplerEffectColors.controlPanelTextColorProperty,
+    };
+
+    // Create the period control, displayed in days while the model uses seconds
+    const fitPeriodControl = new NumberControl(
+      strings.fitPeriodStringProperty,
+      new UnitConversionProperty(fitPeriodProperty, { factor: 1 / ASTRONOMY.DAY }),
+      fitPeriodRange.times(1 / ASTRONOMY.DAY),
+      {
+        layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        delta: 0.1,
+        numberDisplayOptions: {
+          decimalPlaces: 1,
+          valuePattern: strings.daysStringProperty,
+        },
+        titleNodeOptions: titleNodeOptions,
+      },
+    );
+
+    // Create an amplitude control for each kind of companion, in its own unit, shown only while it is chosen
+    const createAmplitudeControl = (
+      companion: Companion,
+      amplitudeProperty: Property<number>,
+      amplitudeRange: RangeWithValue,
+      valuePattern: TReadOnlyProperty<string>,
+      decimalPlaces: number,
+    ): NumberControl =>
+      new NumberControl(
+        strings.fitAmplitudeStringProperty,
+        new UnitConversionProperty(amplitudeProperty, { factor: 1 / companion.velocityUnit }),
+        amplitudeRange.times(1 / companion.velocityUnit),
+        {
+          layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+          delta: 10 ** -decimalPlaces,
+          numberDisplayOptions: {
+            decimalPlaces: decimalPlaces,
+            valuePattern: valuePattern,
+          },
+          titleNodeOptions: titleNodeOptions,
+          visibleProperty: new DerivedProperty([companionProperty], (value) => value === companion),
+        },
+      );
+
+    // Create the phase control, displayed in degrees while the model uses radians
+    const fitPhaseControl = new NumberControl(
+      strings.fitPhaseStringProperty,
+      new UnitConversionProperty(fitPhaseProperty, { factor: 180 / Math.PI }),
+      fitPhaseRange.times(180 / Math.PI),
+      {
+        layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        delta: 1,
+        numberDisplayOptions: {
+          valuePattern: strings.degreesStringProperty,
+        },
+        titleNodeOptions: titleNodeOptions,
+      },
+    );
+
+    // Readouts drawn as plain text on the panel
+    const createReadout = (
+      valueProperty: TReadOnlyProperty<number | null>,
+      range: Range,
+      decimalPlaces: number,
+      valuePattern: TReadOnlyProperty<string>,
+      visibleProperty?: TReadOnlyProperty<boolean>,
+    ): NumberDisplay =>
+      new NumberDisplay(valueProperty, range, {
+        decimalPlaces: decimalPlaces,
+        valuePattern: valuePattern,
+        textOptions: {
+          font: new PhetFont(14),
+          fill: DopplerEffectColors.controlPanelTextColorProperty,
+        },
+        backgroundFill: "transparent",
+        backgroundStroke: null,
+        xMargin: 0,
+        yMargin: 0,
+        visibleProperty: visibleProperty ?? null,
+      });
+
+    // Patterns with the velocity in the unit of the companion, such as "Fit Error: {{value}} km/s"
+    const createVelocityPattern = (patternProperty: TReadOnlyProperty<string>) =>
+      new DerivedProperty([patternProperty, unitPatternProperty], (pattern, unitPattern) =>
+        pattern.replace("{{value}}", unitPattern),
+      );
+
+    // Velocities in the unit of the companion
+    const createVelocityReadoutValue = (velocityProperty: TReadOnlyProperty<number | null>) =>
+      new DerivedProperty([velocityProperty, companionProperty], (velocity, companion) =>
+        velocity === null ? null : velocity / companion.velocityUnit,
+      );
+
+    const showAnswerCheckbox = new Checkbox(
+      showAnswerProperty,
+      new Text(strings.showAnswerStringProperty, {
+        font: new PhetFont(14),
+        fill: DopplerEffectColors.controlPanelTextColorProperty,
+        maxWidth: 180,
+      }),
+    );
+    showAnswerCheckbox.setAccessibleName("Show answer");
+
+    super(
+      new VBox({
+        spacing: 6,
+        align: "left",
+        children: [
+          titleText,
+          fitPeriodControl,
+          createAmplitudeControl(
+            Companion.STAR,
+            starFitAmplitudeProperty,
+            starFitAmplitudeRange,
+            strings.kilometersPerSecondStringProperty,
+            1,
+          ),
+          createAmplitudeControl(
+            Companion.PLANET,
+            planetFitAmplitudeProperty,
+            planetFitAmplitudeRange,
+            strings.metersPerSecondStringProperty,
+            0,
+          ),
+          fitPhaseControl,
+          createReadout(
+            createVelocityReadoutValue(fitErrorProperty),
+            VELOCITY_RANGE,
+            2,
+            createVelocityPattern(strings.fitErrorPatternStringProperty),
+          ),
+          showAnswerCheckbox,
+          createReadout(
+            new DerivedProperty([periodProperty], (period) => period / ASTRONOMY.DAY),
+            PERIOD_RANGE,
+            1,
+            strings.truePeriodPatternStringProperty,
+            showAnswerProperty,
+          ),
+          createReadout(
+            createVelocityReadoutValue(trueAmplitudeProperty),
+            VELOCITY_RANGE,
+            2,
+            createVelocityPattern(strings.trueAmplitudePatternStringProperty),
+            showAnswerProperty,
+          ),
+        ],
+      }),
+      {
+        fill: DopplerEffectColors.controlPanelBackgroundColorProperty,
+        stroke: DopplerEffectColors.controlPanelBorderColorProperty,
+      },
+    );
+  }
+}
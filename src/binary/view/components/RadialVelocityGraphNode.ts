@@ -0,0 +1,176 @@
+/**
+ * RadialVelocityGraphNode.ts
+ *
+ * Graph of the radial-velocity curve over the whole run of measurements, many orbits long, with each
+ * measurement drawn as a dot and the sine curve fitted by the students drawn through them. The velocity axis
+ * is scaled to a round value that holds both the measurements and the fitted curve.
+ */
+
+import {
+  Line,
+  Node,
+  NumberProperty,
+  Path,
+  PatternStringProperty,
+  PhetFont,
+  Rectangle,
+  Shape,
+  Text,
+  type TReadOnlyProperty,
+  VBox,
+} from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import { StringManager } from "../../../i18n/StringManager";
+import { ASTRONOMY, RV_CURVE } from "../../model/BinaryConstants";
+import type { RadialVelocitySample } from "../../model/BinaryModel";
+
+// Layout of the graph
+const GRAPH = {
+  WIDTH: 640, // view units
+  HEIGHT: 170, // view units
+  DOT_RADIUS: 2, // view units
+  CURVE_POINTS: 400, // points along the fitted curve (dimensionless)
+  TIME_TICK_SPACING: 20, // (days)
+  LABEL_SPACING: 4, // view units
+} as const;
+
+/**
+ * Component that renders the radial-velocity curve and the fitted sine curve
+ */
+export class RadialVelocityGraphNode extends VBox {
+  private readonly dotsPath: Path;
+  private readonly fitPath: Path;
+  private readonly nowLine: Line;
+
+  // Largest velocity on the axis, either way, in the unit of the velocity axis
+  private readonly scaleProperty: NumberProperty;
+
+  /**
+   * Constructor for the RadialVelocityGraphNode
+   *
+   * @param unitPatternProperty - Pattern of the unit of the velocity axis, such as "{{value}} km/s"
+   */
+  constructor(unitPatternProperty: TReadOnlyProperty<string>) {
+    const strings = StringManager.getInstance().getBinaryStrings();
+
+    const titleText = new Text(strings.graphTitleStringProperty, {
+      font: new PhetFont(14),
+      maxWidth: GRAPH.WIDTH,
+      fill: DopplerEffectColors.textColorProperty,
+    });
+
+    const background = new Rectangle(0, 0, GRAPH.WIDTH, GRAPH.HEIGHT, {
+      fill: DopplerEffectColors.graphBackgroundColorProperty,
+      stroke: DopplerEffectColors.graphGridColorProperty,
+    });
+    const zeroLine = new Line(0, GRAPH.HEIGHT / 2, GRAPH.WIDTH, GRAPH.HEIGHT / 2, {
+      stroke: DopplerEffectColors.graphGridColorProperty,
+      lineDash: [4, 4],
+    });
+    const nowLine = new Line(0, 0, 0, GRAPH.HEIGHT, { stroke: DopplerEffectColors.graphGridColorProperty });
+    const fitPath = new Path(null, { stroke: DopplerEffectColors.fitCurveColorProperty, lineWidth: 2 });
+    const dotsPath = new Path(null, { fill: DopplerEffectColors.starColorProperty });
+
+    // Time axis, in days
+    const labelOptions = { font: new PhetFont(10), fill: DopplerEffectColors.textColorProperty };
+    const timeLabels: Text[] = [];
+    for (let day = 0; day <= RV_CURVE.DURATION; day += GRAPH.TIME_TICK_SPACING) {
+      timeLabels.push(
+        new Text(`${day}`, {
+          ...labelOptions,
+          centerX: (day / RV_CURVE.DURATION) * GRAPH.WIDTH,
+          top: GRAPH.HEIGHT + GRAPH.LABEL_SPACING,
+        }),
+      );
+    }
+
+    // Velocity axis, with the scale at the top and bottom and zero in the middle
+    const scaleProperty = new NumberProperty(1);
+    const maxLabel = new Text(new PatternStringProperty(unitPatternProperty, { value: scaleProperty }), labelOptions);
+    const minLabel = new Text(
+      new PatternStringProperty(unitPatternProperty, {
+        value: scaleProperty,
+        maps: { value: (scale: number) => -scale },
+      }),
+      labelOptions,
+    );
+    const zeroLabel = new Text("0", labelOptions);
+    maxLabel.boundsProperty.link(() => {
+      maxLabel.right = -GRAPH.LABEL_SPACING;
+      maxLabel.top = 0;
+    });
+    minLabel.boundsProperty.link(() => {
+      minLabel.right = -GRAPH.LABEL_SPACING;
+      minLabel.bottom = GRAPH.HEIGHT;
+    });
+    zeroLabel.right = -GRAPH.LABEL_SPACING;
+    zeroLabel.centerY = GRAPH.HEIGHT / 2;
+
+    const axisText = new Text(strings.timeAxisStringProperty, {
+      font: new PhetFont(12),
+      maxWidth: GRAPH.WIDTH,
+      fill: DopplerEffectColors.textColorProperty,
+    });
+
+    super({
+      spacing: GRAPH.LABEL_SPACING,
+      children: [
+        titleText,
+        new Node({
+          children: [background, zeroLine, nowLine, fitPath, dotsPath, ...timeLabels, maxLabel, minLabel, zeroLabel],
+        }),
+        axisText,
+      ],
+    });
+
+    this.dotsPath = dotsPath;
+    this.fitPath = fitPath;
+    this.nowLine = nowLine;
+    this.scaleProperty = scaleProperty;
+  }
+
+  /**
+   * Redraw the measurements and the fitted curve
+   *
+   * @param samples - Measurements of the radial velocity
+   * @param getFitVelocity - Radial velocity on the fitted curve at a time in seconds (s), in meters per second (m/s)
+   * @param fitAmplitude - Amplitude of the fitted curve in meters per second (m/s)
+   * @param time - Time since the measurements started in seconds (s)
+   * @param velocityUnit - Unit of the velocity axis in meters per second (m/s)
+   */
+  public update(
+    samples: readonly RadialVelocitySample[],
+    getFitVelocity: (time: number) => number,
+    fitAmplitude: number,
+    time: number,
+    velocityUnit: number,
+  ): void {
+    // Round the largest velocity up to 1, 2 or 5 times a power of ten, in the unit of the axis
+    const largest =
+      Math.max(fitAmplitude, ...samples.map((sample) => Math.abs(sample.radialVelocity)), velocityUnit) / velocityUnit;
+    const power = 10 ** Math.floor(Math.log10(largest));
+    const scale = ([1, 2, 5, 10].find((step) => step * power >= largest) ?? 10) * power;
+    this.scaleProperty.value = scale;
+
+    const duration = RV_CURVE.DURATION * ASTRONOMY.DAY; // in seconds (s)
+    const toX = (sampleTime: number): number => (sampleTime / duration) * GRAPH.WIDTH;
+    const toY = (velocity: number): number =>
+      GRAPH.HEIGHT / 2 - (velocity / (scale * velocityUnit)) * (GRAPH.HEIGHT / 2);
+
+    const dotsShape = new Shape();
+    for (const sample of samples) {
+      dotsShape.circle(toX(sample.time), toY(sample.radialVelocity), GRAPH.DOT_RADIUS);
+    }
+    this.dotsPath.shape = dotsShape;
+
+    const fitShape = new Shape();
+    for (let i = 0; i <= GRAPH.CURVE_POINTS; i++) {
+      const curveTime = (i / GRAPH.CURVE_POINTS) * duration; // in seconds (s)
+      fitShape.lineTo(toX(curveTime), toY(getFitVelocity(curveTime)));
+    }
+    this.fitPath.shape = fitShape;
+
+    const nowX = toX(Math.min(time, duration));
+    this.nowLine.setLine(nowX, 0, nowX, GRAPH.HEIGHT);
+  }
+}
@@ -46,6 +46,10 @@ export class StringManager {
       selectedObjectPatternStringProperty: stringProperties.selectedObjectStringProperty,
       blueshiftStringProperty: stringProperties.shift.blueshiftStringProperty,
       redshiftStringProperty: stringProperties.shift.redshiftStringProperty,
+      machNumberPatternStringProperty: stringProperties.status.machNumberStringProperty,
+      soundSpeedPatternStringProperty: stringProperties.status.soundSpeedStringProperty,
+      speedOfLightPatternStringProperty: stringProperties.status.speedOfLightStringProperty,
+      intensityLevelPatternStringProperty: stringProperties.status.intensityLevelStringProperty,
       sourceStringProperty: stringProperties.sourceStringProperty,
       observerStringProperty: stringProperties.observerStringProperty,
     };
@@ -56,13 +60,37 @@ export class StringManager {
       valuesStringProperty: stringProperties.controls.valuesStringProperty,
       velocityArrowsStringProperty: stringProperties.controls.velocityArrowsStringProperty,
       lineOfSightStringProperty: stringProperties.controls.lineOfSightStringProperty,
-      soundSpeedStringProperty: stringProperties.controls.soundSpeedStringProperty,
       frequencyStringProperty: stringProperties.controls.frequencyStringProperty,
       motionTrailsStringProperty: stringProperties.controls.motionTrailsStringProperty,
       gridStringProperty: stringProperties.controls.gridStringProperty,
       metersPerSecondStringProperty: stringProperties.units.metersPerSecondStringProperty,
       hertzStringProperty: stringProperties.units.hertzStringProperty,
       microphoneClicksStringProperty: stringProperties.controls.microphoneClicksStringProperty,
+      supersonicStringProperty: stringProperties.controls.supersonicStringProperty,
+      lightWavesStringProperty: stringProperties.controls.lightWavesStringProperty,
+      absorptionStringProperty: stringProperties.controls.absorptionStringProperty,
+      sourcesStringProperty: stringProperties.controls.sourcesStringProperty,
+      observersStringProperty: stringProperties.controls.observersStringProperty,
+      wallStringProperty: stringProperties.controls.wallStringProperty,
+      movingReflectorStringProperty: stringProperties.controls.movingReflectorStringProperty,
+      windStringProperty: stringProperties.controls.windStringProperty,
+      windSpeedStringProperty: stringProperties.controls.windSpeedStringProperty,
+      windDirectionStringProperty: stringProperties.controls.windDirectionStringProperty,
+      degreesStringProperty: stringProperties.units.degreesStringProperty,
+      rotationRadiusStringProperty: stringProperties.controls.rotationRadiusStringProperty,
+      rotationRateStringProperty: stringProperties.controls.rotationRateStringProperty,
+      altitudeStringProperty: stringProperties.controls.altitudeStringProperty,
+      sideViewStringProperty: stringProperties.controls.sideViewStringProperty,
+      metersStringProperty: stringProperties.units.metersStringProperty,
+      radiansPerSecondStringProperty: stringProperties.units.radiansPerSecondStringProperty,
+      mediumStringProperty: stringProperties.controls.mediumStringProperty,
+      waveShapeStringProperty: stringProperties.controls.waveShapeStringProperty,
+      modulationStringProperty: stringProperties.controls.modulationStringProperty,
+      temperatureStringProperty: stringProperties.controls.temperatureStringProperty,
+      playBackwardStringProperty: stringProperties.controls.playBackwardStringProperty,
+      timelineStringProperty: stringProperties.controls.timelineStringProperty,
+      secondsStringProperty: stringProperties.units.secondsStringProperty,
+      celsiusStringProperty: stringProperties.units.celsiusStringProperty,
     };
   }
 
@@ -97,7 +125,7 @@ export class StringManager {
       },
       adjust: {
         frequencyStringProperty: stringProperties.help.adjust.frequencyStringProperty,
-        soundSpeedStringProperty: stringProperties.help.adjust.soundSpeedStringProperty,
+        temperatureStringProperty: stringProperties.help.adjust.temperatureStringProperty,
       },
       scenarioKeys: {
         freePlayStringProperty: stringProperties.help.scenarioKeys.freePlayStringProperty,
@@ -107,6 +135,10 @@ export class StringManager {
         observerRecedingStringProperty: stringProperties.help.scenarioKeys.observerRecedingStringProperty,
         sameDirectionStringProperty: stringProperties.help.scenarioKeys.sameDirectionStringProperty,
         perpendicularStringProperty: stringProperties.help.scenarioKeys.perpendicularStringProperty,
+        rotatingSourceStringProperty: stringProperties.help.scenarioKeys.rotatingSourceStringProperty,
+        flyoverStringProperty: stringProperties.help.scenarioKeys.flyoverStringProperty,
+        trainBrakingStringProperty: stringProperties.help.scenarioKeys.trainBrakingStringProperty,
+        raceCarStringProperty: stringProperties.help.scenarioKeys.raceCarStringProperty,
       },
       toggleMotionTrailsStringProperty: stringProperties.help.toggleMotionTrailsStringProperty,
       toggleMicrophoneStringProperty: stringProperties.help.toggleMicrophoneStringProperty,
@@ -124,7 +156,7 @@ export class StringManager {
         },
         adjust: {
           frequencyStringProperty: stringProperties.help.a11y.adjust.frequencyStringProperty,
-          soundSpeedStringProperty: stringProperties.help.a11y.adjust.soundSpeedStringProperty,
+          temperatureStringProperty: stringProperties.help.a11y.adjust.temperatureStringProperty,
         },
         scenarioKeys: {
           freePlayStringProperty: stringProperties.help.a11y.scenarioKeys.freePlayStringProperty,
@@ -134,6 +166,10 @@ export class StringManager {
           observerRecedingStringProperty: stringProperties.help.a11y.scenarioKeys.observerRecedingStringProperty,
           sameDirectionStringProperty: stringProperties.help.a11y.scenarioKeys.sameDirectionStringProperty,
           perpendicularStringProperty: stringProperties.help.a11y.scenarioKeys.perpendicularStringProperty,
+          rotatingSourceStringProperty: stringProperties.help.a11y.scenarioKeys.rotatingSourceStringProperty,
+          flyoverStringProperty: stringProperties.help.a11y.scenarioKeys.flyoverStringProperty,
+          trainBrakingStringProperty: stringProperties.help.a11y.scenarioKeys.trainBrakingStringProperty,
+          raceCarStringProperty: stringProperties.help.a11y.scenarioKeys.raceCarStringProperty,
         },
         toggleMotionTrailsStringProperty: stringProperties.help.a11y.toggleMotionTrailsStringProperty,
         toggleMicrophoneStringProperty: stringProperties.help.a11y.toggleMicrophoneStringProperty,
@@ -154,6 +190,159 @@ export class StringManager {
       observerRecedingStringProperty: stringProperties.scenarios.observerRecedingStringProperty,
       sameDirectionStringProperty: stringProperties.scenarios.sameDirectionStringProperty,
       perpendicularStringProperty: stringProperties.scenarios.perpendicularStringProperty,
+      rotatingSourceStringProperty: stringProperties.scenarios.rotatingSourceStringProperty,
+      flyoverStringProperty: stringProperties.scenarios.flyoverStringProperty,
+      trainBrakingStringProperty: stringProperties.scenarios.trainBrakingStringProperty,
+      raceCarStringProperty: stringProperties.scenarios.raceCarStringProperty,
+    };
+  }
+
+  public getMediumStrings() {
+    return {
+      airStringProperty: stringProperties.media.airStringProperty,
+      heliumStringProperty: stringProperties.media.heliumStringProperty,
+      waterStringProperty: stringProperties.media.waterStringProperty,
+      steelStringProperty: stringProperties.media.steelStringProperty,
+    };
+  }
+
+  public getWaveShapeStrings() {
+    return {
+      sineStringProperty: stringProperties.waveShapes.sineStringProperty,
+      squareStringProperty: stringProperties.waveShapes.squareStringProperty,
+      triangleStringProperty: stringProperties.waveShapes.triangleStringProperty,
+      sawtoothStringProperty: stringProperties.waveShapes.sawtoothStringProperty,
+      pulseStringProperty: stringProperties.waveShapes.pulseStringProperty,
+    };
+  }
+
+  public getModulationStrings() {
+    return {
+      noneStringProperty: stringProperties.modulations.noneStringProperty,
+      chirpStringProperty: stringProperties.modulations.chirpStringProperty,
+      sirenStringProperty: stringProperties.modulations.sirenStringProperty,
+      twoToneStringProperty: stringProperties.modulations.twoToneStringProperty,
+      batCallStringProperty: stringProperties.modulations.batCallStringProperty,
+    };
+  }
+
+  public getScreenNameStrings() {
+    return {
+      dopplerStringProperty: stringProperties.screens.dopplerStringProperty,
+      radarStringProperty: stringProperties.screens.radarStringProperty,
+      ultrasoundStringProperty: stringProperties.screens.ultrasoundStringProperty,
+      redshiftStringProperty: stringProperties.screens.redshiftStringProperty,
+      binaryStringProperty: stringProperties.screens.binaryStringProperty,
+      batStringProperty: stringProperties.screens.batStringProperty,
+    };
+  }
+
+  public getRadarStrings() {
+    return {
+      gunStringProperty: stringProperties.radar.gunStringProperty,
+      carStringProperty: stringProperties.radar.carStringProperty,
+      carSpeedStringProperty: stringProperties.radar.carSpeedStringProperty,
+      emittedFrequencyPatternStringProperty: stringProperties.radar.emittedFrequencyStringProperty,
+      echoFrequencyPatternStringProperty: stringProperties.radar.echoFrequencyStringProperty,
+      beatFrequencyPatternStringProperty: stringProperties.radar.beatFrequencyStringProperty,
+      measuredSpeedPatternStringProperty: stringProperties.radar.measuredSpeedStringProperty,
+      metersPerSecondStringProperty: stringProperties.units.metersPerSecondStringProperty,
+    };
+  }
+
+  public getUltrasoundStrings() {
+    return {
+      probeStringProperty: stringProperties.ultrasound.probeStringProperty,
+      vesselStringProperty: stringProperties.ultrasound.vesselStringProperty,
+      insonationAngleStringProperty: stringProperties.ultrasound.insonationAngleStringProperty,
+      peakVelocityStringProperty: stringProperties.ultrasound.peakVelocityStringProperty,
+      transmitFrequencyStringProperty: stringProperties.ultrasound.transmitFrequencyStringProperty,
+      megahertzStringProperty: stringProperties.ultrasound.megahertzStringProperty,
+      spectrumStringProperty: stringProperties.ultrasound.spectrumStringProperty,
+      shiftAxisStringProperty: stringProperties.ultrasound.shiftAxisStringProperty,
+      kilohertzStringProperty: stringProperties.ultrasound.kilohertzStringProperty,
+      peakShiftPatternStringProperty: stringProperties.ultrasound.peakShiftStringProperty,
+      meanShiftPatternStringProperty: stringProperties.ultrasound.meanShiftStringProperty,
+      estimatedPeakVelocityPatternStringProperty: stringProperties.ultrasound.estimatedPeakVelocityStringProperty,
+      estimatedMeanVelocityPatternStringProperty: stringProperties.ultrasound.estimatedMeanVelocityStringProperty,
+      velocityEquationStringProperty: stringProperties.ultrasound.velocityEquationStringProperty,
+      degreesStringProperty: stringProperties.units.degreesStringProperty,
+      metersPerSecondStringProperty: stringProperties.units.metersPerSecondStringProperty,
+    };
+  }
+
+  public getRedshiftStrings() {
+    return {
+      galaxyStringProperty: stringProperties.redshift.galaxyStringProperty,
+      telescopeStringProperty: stringProperties.redshift.telescopeStringProperty,
+      lineOfSightStringProperty: stringProperties.redshift.lineOfSightStringProperty,
+      speedStringProperty: stringProperties.redshift.speedStringProperty,
+      directionStringProperty: stringProperties.redshift.directionStringProperty,
+      labSpectrumStringProperty: stringProperties.redshift.labSpectrumStringProperty,
+      observedSpectrumStringProperty: stringProperties.redshift.observedSpectrumStringProperty,
+      wavelengthAxisStringProperty: stringProperties.redshift.wavelengthAxisStringProperty,
+      redshiftPatternStringProperty: stringProperties.redshift.redshiftStringProperty,
+      radialVelocityPatternStringProperty: stringProperties.redshift.radialVelocityStringProperty,
+      actualRadialVelocityPatternStringProperty: stringProperties.redshift.actualRadialVelocityStringProperty,
+      redshiftEquationStringProperty: stringProperties.redshift.redshiftEquationStringProperty,
+      blueshiftStringProperty: stringProperties.shift.blueshiftStringProperty,
+      redshiftStringProperty: stringProperties.shift.redshiftStringProperty,
+      degreesStringProperty: stringProperties.units.degreesStringProperty,
+    };
+  }
+
+  public getBinaryStrings() {
+    return {
+      starStringProperty: stringProperties.binary.starStringProperty,
+      companionStringProperty: stringProperties.binary.companionStringProperty,
+      starCompanionStringProperty: stringProperties.binary.starCompanionStringProperty,
+      planetCompanionStringProperty: stringProperties.binary.planetCompanionStringProperty,
+      toObserverStringProperty: stringProperties.binary.toObserverStringProperty,
+      periodStringProperty: stringProperties.binary.periodStringProperty,
+      companionMassStringProperty: stringProperties.binary.companionMassStringProperty,
+      eccentricityStringProperty: stringProperties.binary.eccentricityStringProperty,
+      inclinationStringProperty: stringProperties.binary.inclinationStringProperty,
+      lineOfSightStringProperty: stringProperties.binary.lineOfSightStringProperty,
+      daysStringProperty: stringProperties.binary.daysStringProperty,
+      solarMassesStringProperty: stringProperties.binary.solarMassesStringProperty,
+      jupiterMassesStringProperty: stringProperties.binary.jupiterMassesStringProperty,
+      kilometersPerSecondStringProperty: stringProperties.binary.kilometersPerSecondStringProperty,
+      fitStringProperty: stringProperties.binary.fitStringProperty,
+      fitPeriodStringProperty: stringProperties.binary.fitPeriodStringProperty,
+      fitAmplitudeStringProperty: stringProperties.binary.fitAmplitudeStringProperty,
+      fitPhaseStringProperty: stringProperties.binary.fitPhaseStringProperty,
+      fitErrorPatternStringProperty: stringProperties.binary.fitErrorStringProperty,
+      truePeriodPatternStringProperty: stringProperties.binary.truePeriodStringProperty,
+      trueAmplitudePatternStringProperty: stringProperties.binary.trueAmplitudeStringProperty,
+      radialVelocityPatternStringProperty: stringProperties.binary.radialVelocityStringProperty,
+      observedWavelengthPatternStringProperty: stringProperties.binary.observedWavelengthStringProperty,
+      showAnswerStringProperty: stringProperties.binary.showAnswerStringProperty,
+      graphTitleStringProperty: stringProperties.binary.graphTitleStringProperty,
+      timeAxisStringProperty: stringProperties.binary.timeAxisStringProperty,
+      degreesStringProperty: stringProperties.units.degreesStringProperty,
+      metersPerSecondStringProperty: stringProperties.units.metersPerSecondStringProperty,
+    };
+  }
+
+  public getBatStrings() {
+    return {
+      batStringProperty: stringProperties.bat.batStringProperty,
+      insectStringProperty: stringProperties.bat.insectStringProperty,
+      batSpeedStringProperty: stringProperties.bat.batSpeedStringProperty,
+      insectSpeedStringProperty: stringProperties.bat.insectSpeedStringProperty,
+      callsStringProperty: stringProperties.bat.callsStringProperty,
+      echoesStringProperty: stringProperties.bat.echoesStringProperty,
+      timeAxisStringProperty: stringProperties.bat.timeAxisStringProperty,
+      callFrequencyPatternStringProperty: stringProperties.bat.callFrequencyStringProperty,
+      echoFrequencyPatternStringProperty: stringProperties.bat.echoFrequencyStringProperty,
+      echoDelayPatternStringProperty: stringProperties.bat.echoDelayStringProperty,
+      showAnswerStringProperty: stringProperties.bat.showAnswerStringProperty,
+      estimatedRangePatternStringProperty: stringProperties.bat.estimatedRangeStringProperty,
+      estimatedClosingSpeedPatternStringProperty: stringProperties.bat.estimatedClosingSpeedStringProperty,
+      rangePatternStringProperty: stringProperties.bat.rangeStringProperty,
+      closingSpeedPatternStringProperty: stringProperties.bat.closingSpeedStringProperty,
+      hertzStringProperty: stringProperties.units.hertzStringProperty,
+      metersPerSecondStringProperty: stringProperties.units.metersPerSecondStringProperty,
     };
   }
 
@@ -2,7 +2,7 @@
  * main.ts
  *
  * Entry point for the simulation. Initializes SceneryStack, creates the
- * screen, and starts the main event loop.
+ * screens, and starts the main event loop.
  *
  * !! CRITICAL IMPORT ORDER !!
  * brand.js MUST be the first import. It triggers the full bootstrap chain:
@@ -17,18 +17,50 @@ import "./brand.js";
 
 import { Tandem } from "scenerystack";
 import { onReadyToLaunch, PreferencesModel, Sim } from "scenerystack/sim";
+import { BatScreen } from "./bat/BatScreen.js";
+import { BinaryScreen } from "./binary/BinaryScreen.js";
 import DopplerEffectColors from "./DopplerEffectColors.js";
 import { StringManager } from "./i18n/StringManager.js";
+import { RadarScreen } from "./radar/RadarScreen.js";
+import { RedshiftScreen } from "./redshift/RedshiftScreen.js";
 import { SimScreen } from "./screen-name/SimScreen.js";
+import { UltrasoundScreen } from "./ultrasound/UltrasoundScreen.js";
 
 onReadyToLaunch(() => {
   const stringManager = StringManager.getInstance();
+  const screenNameStrings = stringManager.getScreenNameStrings();
 
   const screens = [
     new SimScreen({
+      name: screenNameStrings.dopplerStringProperty,
       tandem: Tandem.ROOT.createTandem("simScreen"),
       backgroundColorProperty: DopplerEffectColors.backgroundColorProperty,
     }),
+    new RadarScreen({
+      name: screenNameStrings.radarStringProperty,
+      tandem: Tandem.ROOT.createTandem("radarScreen"),
+      backgroundColorProperty: DopplerEffectColors.backgroundColorProperty,
+    }),
+    new UltrasoundScreen({
+      name: screenNameStrings.ultrasoundStringProperty,
+      tandem: Tandem.ROOT.createTandem("ultrasoundScreen"),
+      backgroundColorProperty: DopplerEffectColors.backgroundColorProperty,
+    }),
+    new RedshiftScreen({
+      name: screenNameStrings.redshiftStringProperty,
+      tandem: Tandem.ROOT.createTandem("redshiftScreen"),
+      backgroundColorProperty: DopplerEffectColors.backgroundColorProperty,
+    }),
+    new BinaryScreen({
+      name: screenNameStrings.binaryStringProperty,
+      tandem: Tandem.ROOT.createTandem("binaryScreen"),
+      backgroundColorProperty: DopplerEffectColors.backgroundColorProperty,
+    }),
+    new BatScreen({
+      name: screenNameStrings.batStringProperty,
+      tandem: Tandem.ROOT.createTandem("batScreen"),
+      backgroundColorProperty: DopplerEffectColors.backgroundColorProperty,
+    }),
   ];
 
   const sim = new Sim(stringManager.getTitleStringProperty(), screens, {
@@ -0,0 +1,13 @@
+import { Screen, type ScreenOptions } from "scenerystack/sim";
+import { RadarModel } from "./model/RadarModel.js";
+import { RadarScreenView } from "./view/RadarScreenView.js";
+
+export class RadarScreen extends Screen<RadarModel, RadarScreenView> {
+  public constructor(options: ScreenOptions) {
+    super(
+      () => new RadarModel(),
+      (model) => new RadarScreenView(model),
+      options,
+    );
+  }
+}
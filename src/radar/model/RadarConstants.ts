@@ -0,0 +1,31 @@
+/**
+ * Constants for the radar speed gun screen
+ *
+ * Units:
+ * - All distances are in meters (m)
+ * - All velocities are in meters per second (m/s)
+ * - All frequencies are in Hertz (Hz)
+ *
+ * The road runs along the x axis, with the gun standing at its edge on the left and aimed down the road.
+ * The gun stays within the width of the front of the car, so that the echo comes straight back to it.
+ */
+
+import { Vector2 } from "scenerystack";
+
+// Radar gun, car and road
+export const RADAR = {
+  EMITTED_FREQ: 3, // Frequency sent out by the gun (Hz)
+  GUN_POSITION: new Vector2(-600, -20), // Gun at the edge of the road, 600m left of center (m)
+  CAR_START_POSITION: new Vector2(0, 0), // Car starts at the center (m)
+  CAR_FRONT_WIDTH: 50, // Width of the reflecting front of the car, exaggerated to be visible (m)
+  INITIAL_CAR_SPEED: 30, // Speed of the car toward the gun (m/s)
+  MAX_CAR_SPEED: 60, // Fastest the car drives, either way (m/s)
+  ROAD_MIN_X: -400, // The car drives between these ends of the road, and comes around again from the other end (m)
+  ROAD_MAX_X: 700, // (m)
+  ROAD_WIDTH: 40, // Width of the road, centered on the x axis (m)
+} as const;
+
+// Scale of the play area
+export const RADAR_SCALE = {
+  MODEL_VIEW: 0.5, // Pixels per meter
+} as const;
@@ -0,0 +1,223 @@
+import {
+  BooleanProperty,
+  createObservableArray,
+  DerivedProperty,
+  NumberProperty,
+  type ObservableArray,
+  Property,
+  Range,
+  type TReadOnlyProperty,
+  Vector2,
+} from "scenerystack";
+import { DopplerCalculator } from "../../screen-name/model/DopplerCalculator";
+import { FixedTimestep } from "../../screen-name/model/FixedTimestep";
+import { PropagationHistory } from "../../screen-name/model/PropagationHistory";
+import { Reflector } from "../../screen-name/model/Reflector";
+import { LIGHT, SCALE, TIMESTEP, WAVE } from "../../screen-name/model/SimConstants";
+import type { Wave } from "../../screen-name/model/SimModel";
+import { SoundSource } from "../../screen-name/model/SoundSource";
+import { WaveGenerator } from "../../screen-name/model/WaveGenerator";
+import { RADAR } from "./RadarConstants";
+
+/**
+ * Model for the radar speed gun screen
+ *
+ * A stationary gun sends out a steady signal down a road. The front of a car driving along the road
+ * is a reflector, which sends back an echo shifted twice by the Doppler effect: once as the car hears
+ * the signal and once as it sends the signal on. The gun mixes the echo with what it sends out, and the
+ * beat between the two gives the speed of the car.
+ *
+ * The radar waves travel at the scaled speed of light used by the light mode of the Doppler screen.
+ * For a reflector moving along the line of sight, the classical and relativistic double Doppler
+ * formulas agree, so the classical calculator is exact here.
+ */
+export class RadarModel {
+  // Gun sending out the signal and receiving its echo
+  public readonly gun: SoundSource;
+
+  // Front of the car, reflecting the signal back to the gun
+  public readonly car: Reflector;
+
+  // Waves sent out by the gun and their echoes from the car
+  public readonly waves: ObservableArray<Wave>;
+
+  // Speed of the car toward the gun, negative when it drives away, in meters per second (m/s)
+  public readonly carSpeedProperty: NumberProperty;
+  public readonly carSpeedRange: Range;
+
+  // Frequency of the echo arriving at the gun in Hertz (Hz), null until the first echo comes back
+  public readonly echoFrequencyProperty: Property<number | null>;
+
+  // Difference between the echo and the emitted frequency in Hertz (Hz)
+  public readonly beatFrequencyProperty: TReadOnlyProperty<number | null>;
+
+  // Speed of the car toward the gun found from the beat, in meters per second (m/s)
+  public readonly measuredSpeedProperty: TReadOnlyProperty<number | null>;
+
+  // Simulation state
+  public readonly simulationTimeProperty: NumberProperty; // in seconds (s)
+  public readonly playProperty: BooleanProperty;
+
+  private readonly propagationHistory: PropagationHistory = new PropagationHistory(WAVE.MAX_AGE);
+  private readonly waveGenerator: WaveGenerator;
+  private readonly dopplerCalculator: DopplerCalculator = new DopplerCalculator();
+
+  // Takes the fixed steps of each frame, carrying over the time that does not make up a whole step
+  private readonly fixedTimestep: FixedTimestep = new FixedTimestep(() => this.fixedStep());
+
+  // Number of fixed steps taken since the start
+  private stepCount: number = 0;
+
+  public constructor() {
+    this.gun = new SoundSource(RADAR.GUN_POSITION, RADAR.EMITTED_FREQ, 0, 0);
+
+    // The front of the car is across the road, facing the gun
+    this.car = new Reflector(RADAR.CAR_START_POSITION, new Vector2(0, 1), RADAR.CAR_FRONT_WIDTH, false);
+    this.car.enabledProperty.value = true;
+
+    this.waves = createObservableArray<Wave>([]);
+
+    this.carSpeedProperty = new NumberProperty(RADAR.INITIAL_CAR_SPEED);
+    this.carSpeedRange = new Range(-RADAR.MAX_CAR_SPEED, RADAR.MAX_CAR_SPEED);
+
+    this.echoFrequencyProperty = new Property<number | null>(null);
+
+    this.beatFrequencyProperty = new DerivedProperty(
+      [this.echoFrequencyProperty, this.gun.emittedFrequencyProperty],
+      (echoFrequency, emittedFrequency) => (echoFrequency === null ? null : echoFrequency - emittedFrequency),
+    );
+
+    this.measuredSpeedProperty = new DerivedProperty(
+      [this.echoFrequencyProperty, this.gun.emittedFrequencyProperty],
+      (echoFrequency, emittedFrequency) =>
+        echoFrequency === null
+          ? null
+          : this.dopplerCalculator.calculateReflectorSpeed(emittedFrequency, echoFrequency, LIGHT.SCALED_SPEED),
+    );
+
+    this.simulationTimeProperty = new NumberProperty(0);
+    this.playProperty = new BooleanProperty(true);
+
+    this.waveGenerator = new WaveGenerator(
+      this.waves,
+      this.gun,
+      () => this.simulationTimeProperty.value,
+      this.propagationHistory,
+      WAVE.MAX_AGE,
+      () => [this.car],
+    );
+  }
+
+  /**
+   * Reset the model to its initial state
+   */
+  public reset(): void {
+    this.carSpeedProperty.reset();
+    this.echoFrequencyProperty.reset();
+    this.simulationTimeProperty.reset();
+    this.playProperty.reset();
+
+    this.gun.reset();
+    this.car.reset();
+    this.car.enabledProperty.value = true;
+
+    this.waveGenerator.reset();
+    this.propagationHistory.reset();
+    this.fixedTimestep.reset();
+    this.stepCount = 0;
+  }
+
+  /**
+   * Step the model forward in time
+   * @param dt - elapsed time in seconds (s)
+   * @param force - step even while paused, for the step button
+   */
+  public step(dt: number, force: boolean = false): void {
+    if (!(this.playProperty.value || force)) {
+      return;
+    }
+
+    // Take as many fixed steps as fit in the elapsed time
+    this.fixedTimestep.advance(dt * SCALE.TIME);
+  }
+
+  /**
+   * Advance the simulation by one fixed step of TIMESTEP.DT
+   */
+  private fixedStep(): void {
+    const modelDt = TIMESTEP.DT; // in seconds (s)
+
+    this.stepCount++;
+    this.simulationTimeProperty.value = this.stepCount * TIMESTEP.DT; // in seconds (s)
+    const time = this.simulationTimeProperty.value; // in seconds (s)
+
+    // Radar waves travel through empty space, with no medium to carry them along
+    this.propagationHistory.advance(time, modelDt, LIGHT.SCALED_SPEED, Vector2.ZERO);
+
+    this.driveCar(modelDt, time);
+    this.gun.advancePhase(modelDt, time);
+
+    this.waveGenerator.recordEmission();
+    this.waveGenerator.generateWaves();
+    this.waveGenerator.updateWaves(time);
+
+    this.measureEcho();
+
+    // Nothing older than a wave is looked up again
+    this.propagationHistory.prune(time - WAVE.MAX_AGE);
+    this.waveGenerator.prune(time - WAVE.MAX_AGE);
+  }
+
+  /**
+   * Move the car along the road at its set speed, bringing it around again at the end of the road
+   * @param dt - elapsed time in seconds (s)
+   * @param time - simulation time at the end of the step in seconds (s)
+   */
+  private driveCar(dt: number, time: number): void {
+    const speed = this.carSpeedProperty.value; // in meters per second (m/s)
+
+    // The gun is at the left end of the road, so driving toward it is driving left
+    this.car.velocityProperty.value = new Vector2(-speed, 0);
+    this.car.movingProperty.value = speed !== 0;
+    this.car.updatePosition(dt, time);
+
+    const position = this.car.positionProperty.value; // in meters (m)
+    if (position.x < RADAR.ROAD_MIN_X) {
+      this.car.positionProperty.value = new Vector2(RADAR.ROAD_MAX_X, position.y);
+      this.clearSignal();
+    } else if (position.x > RADAR.ROAD_MAX_X) {
+      this.car.positionProperty.value = new Vector2(RADAR.ROAD_MIN_X, position.y);
+      this.clearSignal();
+    }
+  }
+
+  /**
+   * Start the signal afresh when the car comes around again at the other end of the road. The echoes in
+   * flight were sent back from where the car was before, so they would make the delay and the beat jump:
+   * the waves and the echo readout are cleared instead, until the first echo from the new position comes back.
+   */
+  private clearSignal(): void {
+    this.waveGenerator.reset();
+    this.echoFrequencyProperty.reset();
+  }
+
+  /**
+   * Find the frequency of the echo arriving at the gun, from the most recent echo to have reached it
+   */
+  private measureEcho(): void {
+    const gunPosition = this.gun.positionProperty.value; // in meters (m)
+    const echoes = this.waves.filter((wave) => wave.reflection !== null);
+    const arrival = this.dopplerCalculator.findWaveBranchesAtObserver(echoes, gunPosition, this.propagationHistory)[0];
+    if (arrival === undefined) {
+      return;
+    }
+
+    this.echoFrequencyProperty.value = this.dopplerCalculator.calculateObservedFrequency(
+      arrival.wave,
+      gunPosition,
+      Vector2.ZERO,
+      LIGHT.SCALED_SPEED,
+      Vector2.ZERO,
+    ); // in Hertz (Hz)
+  }
+}
@@ -0,0 +1,190 @@
+import {
+  Bounds2,
+  ModelViewTransform2,
+  Node,
+  PhetFont,
+  Rectangle,
+  ResetAllButton,
+  Text,
+  TimeControlNode,
+  Vector2,
+} from "scenerystack";
+import { ScreenView, type ScreenViewOptions } from "scenerystack/sim";
+import DopplerEffectColors from "../../DopplerEffectColors";
+import { StringManager } from "../../i18n/StringManager";
+import { ReflectorNode } from "../../screen-name/view/components/ReflectorNode";
+import { WaveManager } from "../../screen-name/view/managers/WaveManager";
+import { RADAR, RADAR_SCALE } from "../model/RadarConstants";
+import type { RadarModel } from "../model/RadarModel";
+import { RadarReadoutNode } from "./components/RadarReadoutNode";
+
+// UI constants
+const UI = {
+  GUN_WIDTH: 24,
+  GUN_HEIGHT: 12,
+  CAR_LENGTH: 40, // in meters (m), drawn behind the reflecting front
+  LABEL_SPACING: 6,
+  ROAD_EXTENT: 2000, // road drawn from this far left to this far right of center, in meters (m)
+} as const;
+
+/**
+ * View for the radar speed gun screen
+ *
+ * Shows the road seen from above, with the gun at its edge on the left and the car driving along it.
+ * The waves sent out by the gun are drawn as circles and their echoes from the car as dashed arcs,
+ * with the panel of the gun on the right.
+ */
+export class RadarScreenView extends ScreenView {
+  // Model reference
+  private readonly model: RadarModel;
+
+  // Managers
+  private readonly waveManager: WaveManager;
+
+  /**
+   * Constructor for the RadarScreenView
+   */
+  public constructor(model: RadarModel, options?: ScreenViewOptions) {
+    const strings = StringManager.getInstance().getRadarStrings();
+
+    super({
+      tagName: "div",
+      labelTagName: "h1",
+      labelContent: StringManager.getInstance().getScreenNameStrings().radarStringProperty,
+      descriptionContent:
+        "A radar gun at the side of a road measures the speed of a passing car. The gun sends out a steady signal, and the car sends back an echo shifted twice by the Doppler effect. The beat between the echo and the signal gives the speed of the car.",
+      ...options,
+    });
+
+    this.model = model;
+
+    // Create model-view transform - y-axis is inverted and centered on the screen
+    const modelViewTransform = ModelViewTransform2.createSinglePointScaleInvertedYMapping(
+      new Vector2(0, 0),
+      this.layoutBounds.center,
+      RADAR_SCALE.MODEL_VIEW,
+    );
+
+    // Create the road, behind the waves
+    const roadNode = new Rectangle(
+      modelViewTransform.modelToViewBounds(
+        new Bounds2(-UI.ROAD_EXTENT, -RADAR.ROAD_WIDTH / 2, UI.ROAD_EXTENT, RADAR.ROAD_WIDTH / 2),
+      ),
+      { fill: DopplerEffectColors.roadColorProperty, tagName: null },
+    );
+
+    const waveLayer = new Node();
+    this.waveManager = new WaveManager(waveLayer, modelViewTransform, () => 1);
+
+    // Create the gun, with its label above it
+    const gunCenter = modelViewTransform.modelToViewPosition(model.gun.positionProperty.value);
+    const gunNode = new Rectangle(0, 0, UI.GUN_WIDTH, UI.GUN_HEIGHT, {
+      fill: DopplerEffectColors.sourceColorProperty,
+      center: gunCenter,
+    });
+    gunNode.setAccessibleName("Radar gun");
+    const gunLabel = new Text(strings.gunStringProperty, {
+      font: new PhetFont(14),
+      fill: DopplerEffectColors.textColorProperty,
+      maxWidth: 120,
+    });
+
+    // Create the car, a body behind its reflecting front, with its label above it
+    const carBodyHeight = modelViewTransform.modelToViewDeltaX(RADAR.CAR_FRONT_WIDTH);
+    const carBody = new Rectangle(0, 0, modelViewTransform.modelToViewDeltaX(UI.CAR_LENGTH), carBodyHeight, {
+      fill: DopplerEffectColors.carColorProperty,
+      cornerRadius: 3,
+    });
+    const carFront = new ReflectorNode(model.car, modelViewTransform);
+    const carLabel = new Text(strings.carStringProperty, {
+      font: new PhetFont(14),
+      fill: DopplerEffectColors.textColorProperty,
+      maxWidth: 120,
+    });
+    const carNode = new Node({ children: [carBody, carFront, carLabel] });
+    carNode.setAccessibleName("Car");
+
+    // The front faces the gun, on the left, and the body trails behind it
+    model.car.positionProperty.link((position) => {
+      const front = modelViewTransform.modelToViewPosition(position);
+      carBody.left = front.x;
+      carBody.centerY = front.y;
+      carLabel.centerX = carBody.centerX;
+      carLabel.bottom = carBody.top - UI.LABEL_SPACING;
+    });
+
+    // Create the panel of the gun
+    const readoutNode = new RadarReadoutNode(
+      model.carSpeedProperty,
+      model.carSpeedRange,
+      model.gun.emittedFrequencyProperty,
+      model.echoFrequencyProperty,
+      model.beatFrequencyProperty,
+      model.measuredSpeedProperty,
+    );
+    readoutNode.setAccessibleName("Radar gun readouts");
+
+    // Add time control node
+    const timeControlNode = new TimeControlNode(model.playProperty, {
+      tagName: "div",
+      playPauseStepButtonOptions: {
+        stepForwardButtonOptions: {
+          listener: () => {
+            model.step(1 / 60, true);
+          },
+        },
+      },
+    });
+    timeControlNode.setAccessibleName("Simulation speed control");
+
+    // Setup reset all button
+    const resetAllButtonNode = new ResetAllButton({
+      listener: () => {
+        this.interruptSubtreeInput(); // Stop any ongoing interactions
+        model.reset();
+        this.reset();
+      },
+    });
+    resetAllButtonNode.setAccessibleName("Reset simulation");
+
+    for (const node of [roadNode, waveLayer, gunNode, gunLabel, carNode, readoutNode, timeControlNode]) {
+      this.addChild(node);
+    }
+    this.addChild(resetAllButtonNode);
+
+    // Listen for changes to wave collection
+    model.waves.addItemAddedListener((wave) => {
+      this.waveManager.addWaveNode(wave);
+    });
+    model.waves.addItemRemovedListener((wave) => {
+      this.waveManager.removeWaveNode(wave);
+    });
+
+    // Layout
+    gunLabel.centerX = gunNode.centerX;
+    gunLabel.bottom = gunNode.top - UI.LABEL_SPACING;
+    this.visibleBoundsProperty.link((visibleBounds) => {
+      const interfaceBounds = visibleBounds.withMinY(this.layoutBounds.minY).withMaxY(this.layoutBounds.maxY);
+      resetAllButtonNode.right = interfaceBounds.right - 10;
+      resetAllButtonNode.bottom = interfaceBounds.bottom - 10;
+      readoutNode.right = interfaceBounds.right - 10;
+      readoutNode.top = interfaceBounds.top + 10;
+      timeControlNode.centerX = interfaceBounds.centerX;
+      timeControlNode.bottom = interfaceBounds.bottom - 10;
+    });
+  }
+
+  /**
+   * Reset the view to initial state
+   */
+  public reset(): void {
+    this.waveManager.clearWaveNodes();
+  }
+
+  /**
+   * Main step function called each frame
+   */
+  public step(): void {
+    this.waveManager.updateWaves(this.model.waves, this.model.simulationTimeProperty.value);
+  }
+}
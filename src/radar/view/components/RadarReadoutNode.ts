@@ -0,0 +1,101 @@
+/**
+ * RadarReadoutNode.ts
+ *
+ * Panel of the radar gun: the speed control of the car, and the readouts of the frequency sent out,
+ * the frequency of the echo, the beat between them and the speed of the car found from the beat.
+ * The echo readouts stay blank until the first echo has come back to the gun.
+ */
+
+import {
+  NumberControl,
+  NumberDisplay,
+  Panel,
+  PhetFont,
+  type Property,
+  Range,
+  type TReadOnlyProperty,
+  VBox,
+} from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import { StringManager } from "../../../i18n/StringManager";
+
+// Ranges the readouts are sized for
+const FREQUENCY_RANGE = new Range(-10, 10); // in Hertz (Hz)
+const SPEED_RANGE = new Range(-100, 100); // in meters per second (m/s)
+
+/**
+ * Component that renders the controls and readouts of the radar gun
+ */
+export class RadarReadoutNode extends Panel {
+  /**
+   * Constructor for the RadarReadoutNode
+   *
+   * @param carSpeedProperty - Property for the speed of the car toward the gun (m/s)
+   * @param carSpeedRange - Range for the car speed control (m/s)
+   * @param emittedFrequencyProperty - Frequency sent out by the gun (Hz)
+   * @param echoFrequencyProperty - Frequency of the echo arriving at the gun (Hz)
+   * @param beatFrequencyProperty - Difference between the echo and the emitted frequency (Hz)
+   * @param measuredSpeedProperty - Speed of the car toward the gun found from the beat (m/s)
+   */
+  constructor(
+    carSpeedProperty: Property<number>,
+    carSpeedRange: Range,
+    emittedFrequencyProperty: TReadOnlyProperty<number>,
+    echoFrequencyProperty: TReadOnlyProperty<number | null>,
+    beatFrequencyProperty: TReadOnlyProperty<number | null>,
+    measuredSpeedProperty: TReadOnlyProperty<number | null>,
+  ) {
+    const strings = StringManager.getInstance().getRadarStrings();
+
+    const carSpeedControl = new NumberControl(strings.carSpeedStringProperty, carSpeedProperty, carSpeedRange, {
+      layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+      delta: 1,
+      numberDisplayOptions: {
+        valuePattern: strings.metersPerSecondStringProperty,
+      },
+      titleNodeOptions: {
+        font: new PhetFont(12),
+        maxWidth: 140,
+        fill: DopplerEffectColors.controlPanelTextColorProperty,
+      },
+    });
+
+    // Readouts drawn as plain text on the panel
+    const createReadout = (
+      valueProperty: TReadOnlyProperty<number | null>,
+      range: Range,
+      decimalPlaces: number,
+      valuePattern: TReadOnlyProperty<string>,
+    ): NumberDisplay =>
+      new NumberDisplay(valueProperty, range, {
+        decimalPlaces: decimalPlaces,
+        valuePattern: valuePattern,
+        textOptions: {
+          font: new PhetFont(14),
+          fill: DopplerEffectColors.controlPanelTextColorProperty,
+        },
+        backgroundFill: "transparent",
+        backgroundStroke: null,
+        xMargin: 0,
+        yMargin: 0,
+      });
+
+    super(
+      new VBox({
+        spacing: 8,
+        align: "left",
+        children: [
+          carSpeedControl,
+          createReadout(emittedFrequencyProperty, FREQUENCY_RANGE, 3, strings.emittedFrequencyPatternStringProperty),
+          createReadout(echoFrequencyProperty, FREQUENCY_RANGE, 3, strings.echoFrequencyPatternStringProperty),
+          createReadout(beatFrequencyProperty, FREQUENCY_RANGE, 3, strings.beatFrequencyPatternStringProperty),
+          createReadout(measuredSpeedProperty, SPEED_RANGE, 1, strings.measuredSpeedPatternStringProperty),
+        ],
+      }),
+      {
+        fill: DopplerEffectColors.controlPanelBackgroundColorProperty,
+        stroke: DopplerEffectColors.controlPanelBorderColorProperty,
+      },
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { Screen, type ScreenOptions } from "scenerystack/sim";
+import { RedshiftModel } from "./model/RedshiftModel.js";
+import { RedshiftScreenView } from "./view/RedshiftScreenView.js";
+
+export class RedshiftScreen extends Screen<RedshiftModel, RedshiftScreenView> {
+  public constructor(options: ScreenOptions) {
+    super(
+      () => new RedshiftModel(),
+      (model) => new RedshiftScreenView(model),
+      options,
+    );
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Constants for the redshift screen
+ *
+ * Units:
+ * - All wavelengths are in nanometers (nm)
+ * - All velocities are in meters per second (m/s), the speed of the galaxy as a fraction of c (dimensionless)
+ * - All angles are in radians (rad)
+ *
+ * The telescope is at the origin and the galaxy lies along +x, so the light travels toward -x.
+ */
+
+// An absorption line of the spectrum
+export type SpectralLine = {
+  symbol: string; // name of the line (not translated, the symbols are the same in every language)
+  restWavelength: number; // wavelength in the laboratory, with the source at rest (nm)
+};
+
+// Hydrogen Balmer series, from the longest wavelength
+export const BALMER_LINES: readonly SpectralLine[] = [
+  { symbol: "Hα", restWavelength: 656.28 },
+  { symbol: "Hβ", restWavelength: 486.13 },
+  { symbol: "Hγ", restWavelength: 434.05 },
+  { symbol: "Hδ", restWavelength: 410.17 },
+  { symbol: "Hε", restWavelength: 397.01 },
+];
+
+// Galaxy
+export const REDSHIFT = {
+  SPEED_OF_LIGHT: 299792458, // Speed of light in vacuum (m/s)
+  INITIAL_SPEED: 0.1, // Speed of the galaxy as a fraction of c (dimensionless)
+  MAX_SPEED: 0.9, // (dimensionless)
+  INITIAL_DIRECTION: 0, // Angle of the motion from the line of sight, 0 receding and π approaching (rad)
+} as const;
+
+// Spectrum bars
+export const SPECTRUM_BAR = {
+  MIN_WAVELENGTH: 300, // Shortest wavelength shown, in the ultraviolet (nm)
+  MAX_WAVELENGTH: 1000, // Longest wavelength shown, in the infrared (nm)
+  TICK_SPACING: 100, // Wavelength between labelled ticks (nm)
+} as const;
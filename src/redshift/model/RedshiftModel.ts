@@ -0,0 +1,94 @@
+import { DerivedProperty, NumberProperty, RangeWithValue, type TReadOnlyProperty, Vector2 } from "scenerystack";
+import { RelativisticDopplerCalculator } from "../../screen-name/model/RelativisticDopplerCalculator";
+import { BALMER_LINES, REDSHIFT } from "./RedshiftConstants";
+
+/**
+ * Model for the redshift screen
+ *
+ * A distant galaxy moves at a set speed and direction relative to the line of sight from a telescope.
+ * The hydrogen in its stars absorbs the Balmer lines, which the telescope sees shifted by the relativistic
+ * Doppler effect. Every line is stretched by the same factor, 1 + z = λ_obs / λ_rest.
+ *
+ * An astronomer only sees the shift, and takes it to come from motion along the line of sight, inverting
+ * the relativistic formula for the radial velocity. That matches the actual radial velocity only when the galaxy
+ * moves straight along the line of sight: moving across it, the galaxy is still redshifted by time dilation.
+ */
+export class RedshiftModel {
+  // Speed of the galaxy as a fraction of the speed of light (dimensionless)
+  public readonly speedProperty: NumberProperty;
+  public readonly speedRange: RangeWithValue;
+
+  // Angle of the motion of the galaxy from the line of sight, 0 receding and π approaching, in radians (rad)
+  public readonly directionProperty: NumberProperty;
+  public readonly directionRange: RangeWithValue;
+
+  // Velocity of the galaxy in meters per second (m/s)
+  public readonly velocityProperty: TReadOnlyProperty<Vector2>;
+
+  // Observed wavelength of each Balmer line, in the order of BALMER_LINES, in nanometers (nm)
+  public readonly observedWavelengthsProperty: TReadOnlyProperty<readonly number[]>;
+
+  // Redshift z, negative for a blueshift (dimensionless)
+  public readonly redshiftProperty: TReadOnlyProperty<number>;
+
+  // Radial velocity inferred from the redshift, positive when receding, in meters per second (m/s)
+  public readonly radialVelocityProperty: TReadOnlyProperty<number>;
+
+  // Actual component of the velocity along the line of sight, positive when receding, in meters per second (m/s)
+  public readonly actualRadialVelocityProperty: TReadOnlyProperty<number>;
+
+  private readonly dopplerCalculator: RelativisticDopplerCalculator = new RelativisticDopplerCalculator();
+
+  public constructor() {
+    this.speedRange = new RangeWithValue(0, REDSHIFT.MAX_SPEED, REDSHIFT.INITIAL_SPEED);
+    this.speedProperty = new NumberProperty(REDSHIFT.INITIAL_SPEED, { range: this.speedRange });
+
+    this.directionRange = new RangeWithValue(0, Math.PI, REDSHIFT.INITIAL_DIRECTION);
+    this.directionProperty = new NumberProperty(REDSHIFT.INITIAL_DIRECTION, { range: this.directionRange });
+
+    this.velocityProperty = new DerivedProperty([this.speedProperty, this.directionProperty], (speed, direction) =>
+      Vector2.createPolar(speed * REDSHIFT.SPEED_OF_LIGHT, direction),
+    );
+
+    // The light travels from the galaxy back toward the telescope at the origin
+    const lightDirection = new Vector2(-1, 0); // dimensionless
+    this.observedWavelengthsProperty = new DerivedProperty([this.velocityProperty], (velocity) =>
+      BALMER_LINES.map((line) => {
+        const restFrequency = REDSHIFT.SPEED_OF_LIGHT / (line.restWavelength * 1e-9); // in Hertz (Hz)
+        const observedFrequency = this.dopplerCalculator.calculateReceivedFrequency(
+          restFrequency,
+          velocity,
+          Vector2.ZERO,
+          lightDirection,
+          REDSHIFT.SPEED_OF_LIGHT,
+          Vector2.ZERO,
+        ); // in Hertz (Hz)
+        return (REDSHIFT.SPEED_OF_LIGHT / observedFrequency) * 1e9; // in nanometers (nm)
+      }),
+    );
+
+    // All lines share the same z, so the first one gives it
+    this.redshiftProperty = new DerivedProperty([this.observedWavelengthsProperty], (observedWavelengths) => {
+      const line = BALMER_LINES[0];
+      const observedWavelength = observedWavelengths[0];
+      return line && observedWavelength !== undefined ? observedWavelength / line.restWavelength - 1 : 0;
+    });
+
+    // Inverting 1 + z = sqrt((1 + β) / (1 - β)) for motion along the line of sight gives
+    // β = ((1 + z)² - 1) / ((1 + z)² + 1)
+    this.radialVelocityProperty = new DerivedProperty([this.redshiftProperty], (redshift) => {
+      const stretchSquared = (1 + redshift) * (1 + redshift); // dimensionless
+      return (REDSHIFT.SPEED_OF_LIGHT * (stretchSquared - 1)) / (stretchSquared + 1); // in m/s
+    });
+
+    this.actualRadialVelocityProperty = new DerivedProperty([this.velocityProperty], (velocity) => velocity.x);
+  }
+
+  /**
+   * Reset the model to its initial state
+   */
+  public reset(): void {
+    this.speedProperty.reset();
+    this.directionProperty.reset();
+  }
+}
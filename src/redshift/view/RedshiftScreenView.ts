@@ -0,0 +1,217 @@
+import {
+  ArrowNode,
+  Circle,
+  Line,
+  Path,
+  PhetFont,
+  Property,
+  Rectangle,
+  ResetAllButton,
+  Shape,
+  Text,
+  Vector2,
+} from "scenerystack";
+import { ScreenView, type ScreenViewOptions } from "scenerystack/sim";
+import DopplerEffectColors from "../../DopplerEffectColors";
+import { StringManager } from "../../i18n/StringManager";
+import { BALMER_LINES } from "../model/RedshiftConstants";
+import type { RedshiftModel } from "../model/RedshiftModel";
+import { RedshiftControlNode } from "./components/RedshiftControlNode";
+import { SpectrumBarNode } from "./components/SpectrumBarNode";
+
+// UI constants
+const UI = {
+  TELESCOPE_POSITION: new Vector2(110, 140), // view units
+  GALAXY_POSITION: new Vector2(560, 140), // view units
+  GALAXY_RADII: new Vector2(45, 16), // view units
+  ARROW_LENGTH: 150, // length of the velocity arrow at the speed of light, view units
+  ANGLE_ARC_RADIUS: 60, // view units
+  SPECTRUM_LEFT: 30, // view units
+  LAB_SPECTRUM_TOP: 240, // view units
+  OBSERVED_SPECTRUM_TOP: 390, // view units
+  LABEL_SPACING: 8, // view units
+} as const;
+
+/**
+ * View for the redshift screen
+ *
+ * Shows the telescope and the distant galaxy joined by the line of sight, with the velocity of the galaxy
+ * as an arrow, and below them the spectrum of hydrogen in the laboratory and as the telescope sees it.
+ * The scene is schematic: the galaxy is not drawn to scale and does not move across the screen.
+ */
+export class RedshiftScreenView extends ScreenView {
+  /**
+   * Constructor for the RedshiftScreenView
+   */
+  public constructor(model: RedshiftModel, options?: ScreenViewOptions) {
+    const strings = StringManager.getInstance().getRedshiftStrings();
+
+    super({
+      tagName: "div",
+      labelTagName: "h1",
+      labelContent: StringManager.getInstance().getScreenNameStrings().redshiftStringProperty,
+      descriptionContent:
+        "A distant galaxy moves relative to the line of sight from a telescope. The hydrogen absorption lines in its spectrum are shifted by the relativistic Doppler effect, toward red when it recedes and toward blue when it approaches. The redshift z and the radial velocity inferred from it are shown beside the actual radial velocity.",
+      ...options,
+    });
+
+    // Create the line of sight from the telescope to the galaxy
+    const lineOfSight = new Line(UI.TELESCOPE_POSITION, UI.GALAXY_POSITION, {
+      stroke: DopplerEffectColors.connectingLineColorProperty,
+      lineDash: [6, 6],
+    });
+    const lineOfSightLabel = new Text(strings.lineOfSightStringProperty, {
+      font: new PhetFont(12),
+      fill: DopplerEffectColors.textColorProperty,
+      maxWidth: 200,
+      centerX: (UI.TELESCOPE_POSITION.x + UI.GALAXY_POSITION.x) / 2,
+      bottom: UI.TELESCOPE_POSITION.y - UI.LABEL_SPACING,
+    });
+
+    // Create the telescope, a tube on a tripod pointing along the line of sight
+    const telescopeNode = new Path(
+      new Shape()
+        .moveTo(UI.TELESCOPE_POSITION.x, UI.TELESCOPE_POSITION.y)
+        .lineTo(UI.TELESCOPE_POSITION.x - 25, UI.TELESCOPE_POSITION.y + 45)
+        .moveTo(UI.TELESCOPE_POSITION.x, UI.TELESCOPE_POSITION.y)
+        .lineTo(UI.TELESCOPE_POSITION.x + 25, UI.TELESCOPE_POSITION.y + 45),
+      { stroke: DopplerEffectColors.telescopeColorProperty, lineWidth: 3 },
+    );
+    const tubeNode = new Rectangle(UI.TELESCOPE_POSITION.x - 40, UI.TELESCOPE_POSITION.y - 10, 80, 20, {
+      fill: DopplerEffectColors.telescopeColorProperty,
+      stroke: DopplerEffectColors.textColorProperty,
+    });
+    tubeNode.setAccessibleName("Telescope");
+    const telescopeLabel = new Text(strings.telescopeStringProperty, {
+      font: new PhetFont(14),
+      fill: DopplerEffectColors.textColorProperty,
+      maxWidth: 150,
+      centerX: UI.TELESCOPE_POSITION.x,
+      top: UI.TELESCOPE_POSITION.y + 45 + UI.LABEL_SPACING,
+    });
+
+    // Create the galaxy, a tilted disk around a bright core
+    const galaxyNode = new Path(
+      Shape.ellipse(UI.GALAXY_POSITION.x, UI.GALAXY_POSITION.y, UI.GALAXY_RADII.x, UI.GALAXY_RADII.y, -0.3),
+      { fill: DopplerEffectColors.galaxyColorProperty, opacity: 0.5 },
+    );
+    galaxyNode.setAccessibleName("Galaxy");
+    const galaxyCoreNode = new Circle(8, {
+      fill: DopplerEffectColors.galaxyColorProperty,
+      center: UI.GALAXY_POSITION,
+    });
+    const galaxyLabel = new Text(strings.galaxyStringProperty, {
+      font: new PhetFont(14),
+      fill: DopplerEffectColors.textColorProperty,
+      maxWidth: 150,
+      centerX: UI.GALAXY_POSITION.x,
+      top: galaxyNode.bottom + UI.LABEL_SPACING,
+    });
+
+    // Create the velocity arrow and the arc of its angle from the line of sight, measured away from the telescope
+    const velocityArrow = new ArrowNode(0, 0, 0, 0, {
+      headHeight: 12,
+      headWidth: 12,
+      tailWidth: 4,
+      fill: DopplerEffectColors.sourceVelocityArrowColorProperty,
+      stroke: null,
+    });
+    velocityArrow.setAccessibleName("Galaxy velocity");
+    const anglePath = new Path(null, { stroke: DopplerEffectColors.textColorProperty, lineWidth: 1.5 });
+    const angleLabel = new Text("θ", { font: new PhetFont(16), fill: DopplerEffectColors.textColorProperty });
+    model.velocityProperty.link(() => {
+      const speed = model.speedProperty.value; // dimensionless
+      const direction = model.directionProperty.value; // in radians (rad)
+
+      // The y-axis of the view points down, so the angle is drawn counterclockwise with a negated sine
+      const tip = UI.GALAXY_POSITION.plus(Vector2.createPolar(speed * UI.ARROW_LENGTH, -direction));
+      velocityArrow.setTailAndTip(UI.GALAXY_POSITION.x, UI.GALAXY_POSITION.y, tip.x, tip.y);
+      velocityArrow.visible = speed > 0;
+
+      anglePath.shape = new Shape().arc(
+        UI.GALAXY_POSITION.x,
+        UI.GALAXY_POSITION.y,
+        UI.ANGLE_ARC_RADIUS,
+        0,
+        -direction,
+        true,
+      );
+      angleLabel.center = UI.GALAXY_POSITION.plus(Vector2.createPolar(UI.ANGLE_ARC_RADIUS + 12, -direction / 2));
+      anglePath.visible = speed > 0 && direction > 0;
+      angleLabel.visible = anglePath.visible;
+    });
+
+    // Create the spectra in the laboratory and as observed, on the same wavelength scale
+    const labSpectrumNode = new SpectrumBarNode(
+      strings.labSpectrumStringProperty,
+      new Property<readonly number[]>(BALMER_LINES.map((line) => line.restWavelength)),
+    );
+    labSpectrumNode.left = UI.SPECTRUM_LEFT;
+    labSpectrumNode.top = UI.LAB_SPECTRUM_TOP;
+    labSpectrumNode.setAccessibleName("Laboratory spectrum");
+    const observedSpectrumNode = new SpectrumBarNode(
+      strings.observedSpectrumStringProperty,
+      model.observedWavelengthsProperty,
+    );
+    observedSpectrumNode.left = UI.SPECTRUM_LEFT;
+    observedSpectrumNode.top = UI.OBSERVED_SPECTRUM_TOP;
+    observedSpectrumNode.setAccessibleName("Observed spectrum");
+    const wavelengthAxisText = new Text(strings.wavelengthAxisStringProperty, {
+      font: new PhetFont(12),
+      fill: DopplerEffectColors.textColorProperty,
+      maxWidth: 200,
+      centerX: observedSpectrumNode.centerX,
+      top: observedSpectrumNode.bottom + UI.LABEL_SPACING,
+    });
+
+    const controlNode = new RedshiftControlNode(
+      model.speedProperty,
+      model.speedRange,
+      model.directionProperty,
+      model.directionRange,
+      model.redshiftProperty,
+      model.radialVelocityProperty,
+      model.actualRadialVelocityProperty,
+    );
+    controlNode.setAccessibleName("Redshift controls");
+
+    // Setup reset all button
+    const resetAllButtonNode = new ResetAllButton({
+      listener: () => {
+        this.interruptSubtreeInput(); // Stop any ongoing interactions
+        model.reset();
+      },
+    });
+    resetAllButtonNode.setAccessibleName("Reset simulation");
+
+    for (const node of [
+      lineOfSight,
+      lineOfSightLabel,
+      telescopeNode,
+      tubeNode,
+      telescopeLabel,
+      galaxyNode,
+      galaxyCoreNode,
+      galaxyLabel,
+      anglePath,
+      angleLabel,
+      velocityArrow,
+      labSpectrumNode,
+      observedSpectrumNode,
+      wavelengthAxisText,
+      controlNode,
+      resetAllButtonNode,
+    ]) {
+      this.addChild(node);
+    }
+
+    // Layout
+    this.visibleBoundsProperty.link((visibleBounds) => {
+      const interfaceBounds = visibleBounds.withMinY(this.layoutBounds.minY).withMaxY(this.layoutBounds.maxY);
+      resetAllButtonNode.right = interfaceBounds.right - 10;
+      resetAllButtonNode.bottom = interfaceBounds.bottom - 10;
+      controlNode.right = interfaceBounds.right - 10;
+      controlNode.top = interfaceBounds.top + 10;
+    });
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * RedshiftControlNode.ts
+ *
+ * Panel of the redshift screen: controls for the speed of the galaxy and the direction of its motion,
+ * and readouts of the redshift z, labelled as a blueshift or redshift like the Doppler screen does for sound,
+ * with the radial velocity an astronomer infers from it beside the actual one.
+ */
+
+import {
+  DerivedProperty,
+  NumberControl,
+  NumberDisplay,
+  Panel,
+  PhetFont,
+  type Property,
+  Range,
+  type RangeWithValue,
+  Text,
+  type TReadOnlyProperty,
+  UnitConversionProperty,
+  VBox,
+} from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import { StringManager } from "../../../i18n/StringManager";
+
+// Ranges the readouts are sized for
+const REDSHIFT_RANGE = new Range(-1, 10); // dimensionless
+const VELOCITY_RANGE = new Range(-300000, 300000); // in kilometers per second (km/s)
+
+/**
+ * Component that renders the controls and readouts of the redshift screen
+ */
+export class RedshiftControlNode extends Panel {
+  /**
+   * Constructor for the RedshiftControlNode
+   *
+   * @param speedProperty - Property for the speed of the galaxy as a fraction of c (dimensionless)
+   * @param speedRange - Range for the speed (dimensionless)
+   * @param directionProperty - Property for the angle of the motion from the line of sight (rad)
+   * @param directionRange - Range for the direction (rad)
+   * @param redshiftProperty - Redshift z of the observed spectrum (dimensionless)
+   * @param radialVelocityProperty - Radial velocity inferred from the redshift (m/s)
+   * @param actualRadialVelocityProperty - Actual velocity of the galaxy along the line of sight (m/s)
+   */
+  constructor(
+    speedProperty: Property<number>,
+    speedRange: RangeWithValue,
+    directionProperty: Property<number>,
+    directionRange: RangeWithValue,
+    redshiftProperty: TReadOnlyProperty<number>,
+    radialVelocityProperty: TReadOnlyProperty<number>,
+    actualRadialVelocityProperty: TReadOnlyProperty<number>,
+  ) {
+    const strings = StringManager.getInstance().getRedshiftStrings();
+
+    const titleNodeOptions = {
+      font: new PhetFont(12),
+      maxWidth: 140,
+      fill: DopplerEffectColors.controlPanelTextColorProperty,
+    };
+
+    const speedControl = new NumberControl(strings.speedStringProperty, speedProperty, speedRange, {
+      layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+      delta: 0.01,
+      numberDisplayOptions: {
+        decimalPlaces: 2,
+      },
+      titleNodeOptions: titleNodeOptions,
+    });
+
+    // Create the direction control, displayed in degrees while the model uses radians
+    const directionControl = new NumberControl(
+      strings.directionStringProperty,
+      new UnitConversionProperty(directionProperty, { factor: 180 / Math.PI }),
+      directionRange.times(180 / Math.PI),
+      {
+        layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        delta: 1,
+        numberDisplayOptions: {
+          valuePattern: strings.degreesStringProperty,
+        },
+        titleNodeOptions: titleNodeOptions,
+      },
+    );
+
+    // Readouts drawn as plain text on the panel
+    const createReadout = (
+      valueProperty: TReadOnlyProperty<number>,
+      range: Range,
+      decimalPlaces: number,
+      valuePattern: TReadOnlyProperty<string>,
+    ): NumberDisplay =>
+      new NumberDisplay(valueProperty, range, {
+        decimalPlaces: decimalPlaces,
+        valuePattern: valuePattern,
+        textOptions: {
+          font: new PhetFont(14),
+          fill: DopplerEffectColors.controlPanelTextColorProperty,
+        },
+        backgroundFill: "transparent",
+        backgroundStroke: null,
+        xMargin: 0,
+        yMargin: 0,
+      });
+
+    // The velocities are shown in kilometers per second (km/s)
+    const toKilometersPerSecond = (velocity: number): number => velocity / 1000;
+
+    const equationText = new Text(strings.redshiftEquationStringProperty, {
+      font: new PhetFont({ size: 14, style: "italic" }),
+      fill: DopplerEffectColors.controlPanelTextColorProperty,
+      maxWidth: 200,
+    });
+
+    // Shift status, worded and colored like the status text of the Doppler screen
+    const shiftStatusText = new Text(
+      new DerivedProperty(
+        [redshiftProperty, strings.blueshiftStringProperty, strings.redshiftStringProperty],
+        (redshift, blueshiftString, redshiftString) => {
+          if (redshift < 0) {
+            return blueshiftString;
+          } else if (redshift > 0) {
+            return redshiftString;
+          } else {
+            return "";
+          }
+        },
+      ),
+      {
+        font: new PhetFont({ size: 16, weight: "bold" }),
+        fill: new DerivedProperty(
+          [
+            redshiftProperty,
+            DopplerEffectColors.blueshiftColorProperty,
+            DopplerEffectColors.redshiftColorProperty,
+            DopplerEffectColors.controlPanelTextColorProperty,
+          ],
+          (redshift, blueshiftColor, redshiftColor, textColor) =>
+            redshift < 0 ? blueshiftColor : redshift > 0 ? redshiftColor : textColor,
+        ),
+        maxWidth: 220,
+      },
+    );
+
+    super(
+      new VBox({
+        spacing: 8,
+        align: "left",
+        children: [
+          speedControl,
+          directionControl,
+          equationText,
+          createReadout(redshiftProperty, REDSHIFT_RANGE, 3, strings.redshiftPatternStringProperty),
+          shiftStatusText,
+          createReadout(
+            new DerivedProperty([radialVelocityProperty], toKilometersPerSecond),
+            VELOCITY_RANGE,
+            0,
+            strings.radialVelocityPatternStringProperty,
+          ),
+          createReadout(
+            new DerivedProperty([actualRadialVelocityProperty], toKilometersPerSecond),
+            VELOCITY_RANGE,
+            0,
+            strings.actualRadialVelocityPatternStringProperty,
+          ),
+        ],
+      }),
+      {
+        fill: DopplerEffectColors.controlPanelBackgroundColorProperty,
+        stroke: DopplerEffectColors.controlPanelBorderColorProperty,
+      },
+    );
+  }
+}
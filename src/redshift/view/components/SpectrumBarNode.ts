@@ -0,0 +1,132 @@
+/**
+ * SpectrumBarNode.ts
+ *
+ * A spectrum drawn as a bar of color from the ultraviolet to the infrared, crossed by dark absorption lines
+ * labelled with their symbols. The invisible parts of the spectrum are drawn gray, and a line shifted
+ * beyond either end of the bar is not drawn.
+ */
+
+import {
+  type Color,
+  Line,
+  LinearGradient,
+  Node,
+  Path,
+  PhetFont,
+  Rectangle,
+  Shape,
+  Text,
+  type TReadOnlyProperty,
+  VBox,
+} from "scenerystack";
+import { VisibleColor } from "scenerystack/scenery-phet";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import { BALMER_LINES, SPECTRUM_BAR } from "../../model/RedshiftConstants";
+
+// Layout of the bar
+const BAR = {
+  WIDTH: 700, // view units
+  HEIGHT: 40, // view units
+  LINE_WIDTH: 3, // width of an absorption line, view units
+  GRADIENT_STEP: 5, // wavelength between the color stops of the bar (nm)
+  TICK_LENGTH: 5, // view units
+  LABEL_SPACING: 2, // view units
+  LABEL_ROW_HEIGHT: 13, // neighbouring lines have their labels on alternate rows, view units
+} as const;
+
+/**
+ * Component that renders a spectrum with its absorption lines
+ */
+export class SpectrumBarNode extends VBox {
+  /**
+   * Constructor for the SpectrumBarNode
+   *
+   * @param titleProperty - Title shown above the bar
+   * @param wavelengthsProperty - Wavelength of each Balmer line, in the order of BALMER_LINES (nm)
+   */
+  constructor(titleProperty: TReadOnlyProperty<string>, wavelengthsProperty: TReadOnlyProperty<readonly number[]>) {
+    const titleText = new Text(titleProperty, {
+      font: new PhetFont(14),
+      fill: DopplerEffectColors.textColorProperty,
+      maxWidth: BAR.WIDTH,
+    });
+
+    // Horizontal position of a wavelength on the bar, view units
+    const wavelengthToX = (wavelength: number): number =>
+      (BAR.WIDTH * (wavelength - SPECTRUM_BAR.MIN_WAVELENGTH)) /
+      (SPECTRUM_BAR.MAX_WAVELENGTH - SPECTRUM_BAR.MIN_WAVELENGTH);
+
+    // The labels of the lines take two rows above the bar
+    const barTop = 2 * BAR.LABEL_ROW_HEIGHT + BAR.LABEL_SPACING; // view units
+    const barNode = new Rectangle(0, barTop, BAR.WIDTH, BAR.HEIGHT, {
+      stroke: DopplerEffectColors.graphGridColorProperty,
+    });
+    DopplerEffectColors.invisibleLightColorProperty.link((invisibleColor: Color) => {
+      const gradient = new LinearGradient(0, 0, BAR.WIDTH, 0);
+      for (
+        let wavelength = SPECTRUM_BAR.MIN_WAVELENGTH;
+        wavelength <= SPECTRUM_BAR.MAX_WAVELENGTH;
+        wavelength += BAR.GRADIENT_STEP
+      ) {
+        gradient.addColorStop(
+          wavelengthToX(wavelength) / BAR.WIDTH,
+          VisibleColor.wavelengthToColor(wavelength, { irColor: invisibleColor, uvColor: invisibleColor }),
+        );
+      }
+      barNode.fill = gradient;
+    });
+
+    // Ticks and labels of the wavelength axis below the bar
+    const axisNodes: Node[] = [];
+    for (
+      let wavelength = SPECTRUM_BAR.MIN_WAVELENGTH;
+      wavelength <= SPECTRUM_BAR.MAX_WAVELENGTH;
+      wavelength += SPECTRUM_BAR.TICK_SPACING
+    ) {
+      const x = wavelengthToX(wavelength);
+      const tick = new Line(x, barTop + BAR.HEIGHT, x, barTop + BAR.HEIGHT + BAR.TICK_LENGTH, {
+        stroke: DopplerEffectColors.textColorProperty,
+      });
+      const label = new Text(`${wavelength}`, {
+        font: new PhetFont(10),
+        fill: DopplerEffectColors.textColorProperty,
+        centerX: x,
+        top: tick.bottom + BAR.LABEL_SPACING,
+      });
+      axisNodes.push(tick, label);
+    }
+
+    const linesPath = new Path(null, { fill: DopplerEffectColors.absorptionLineColorProperty });
+    const lineLabels = BALMER_LINES.map(
+      (line) => new Text(line.symbol, { font: new PhetFont(11), fill: DopplerEffectColors.textColorProperty }),
+    );
+
+    wavelengthsProperty.link((wavelengths) => {
+      const linesShape = new Shape();
+      lineLabels.forEach((label, i) => {
+        const wavelength = wavelengths[i];
+        const onBar =
+          wavelength !== undefined &&
+          wavelength >= SPECTRUM_BAR.MIN_WAVELENGTH &&
+          wavelength <= SPECTRUM_BAR.MAX_WAVELENGTH;
+        label.visible = onBar;
+        if (onBar) {
+          const x = wavelengthToX(wavelength);
+          linesShape.rect(x - BAR.LINE_WIDTH / 2, barTop, BAR.LINE_WIDTH, BAR.HEIGHT);
+          label.centerX = x;
+          label.bottom = barTop - BAR.LABEL_SPACING - (i % 2) * BAR.LABEL_ROW_HEIGHT;
+        }
+      });
+      linesPath.shape = linesShape;
+    });
+
+    // Keeps the rows of labels in the bounds when the lines are shifted off the bar, so the bar stays in place
+    const labelRows = new Rectangle(0, 0, BAR.WIDTH, barTop);
+
+    super({
+      spacing: BAR.LABEL_SPACING,
+      align: "left",
+      children: [titleText, new Node({ children: [labelRows, barNode, linesPath, ...lineLabels, ...axisNodes] })],
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import { AMPLITUDE } from "./SimConstants";
+
+/**
+ * AmplitudeCalculator handles how loud the waves are once they have travelled away from where they were emitted.
+ *
+ * The energy of a wavefront spreads over a growing sphere, so the intensity falls off as 1/r² and the
+ * amplitude as 1/r beyond a reference distance. Optionally the medium also absorbs the waves, with an
+ * absorption coefficient that grows as the square of the frequency like the classical absorption of air.
+ */
+export class AmplitudeCalculator {
+  /**
+   * Calculate the amplitude of a wave after travelling a distance
+   * @param distance Distance travelled from the (image) source in meters (m)
+   * @param frequency Frequency of the wave in Hertz (Hz)
+   * @param absorptionEnabled Whether the medium absorbs the wave along the way
+   * @returns Amplitude relative to the amplitude at the reference distance (dimensionless)
+   */
+  public calculateAmplitude(distance: number, frequency: number, absorptionEnabled: boolean): number {
+    // Spherical spreading, capped at full amplitude close to the source
+    const spreading = Math.min(1, AMPLITUDE.REFERENCE_DISTANCE / Math.max(distance, Number.EPSILON)); // dimensionless
+
+    if (!absorptionEnabled) {
+      return spreading;
+    }
+
+    const frequencyRatio = frequency / AMPLITUDE.ABSORPTION_REFERENCE_FREQUENCY; // dimensionless
+    const absorptionCoefficient = AMPLITUDE.ABSORPTION_COEFFICIENT * frequencyRatio * frequencyRatio; // in 1/m
+    return spreading * Math.exp(-absorptionCoefficient * distance);
+  }
+
+  /**
+   * Calculate the intensity level of wave trains heard together. Their intensities add,
+   * since trains of different frequencies do not keep a fixed phase relationship.
+   * @param amplitudes Amplitudes of the wave trains (dimensionless)
+   * @returns Intensity level in decibels (dB), or null when nothing is heard
+   */
+  public calculateIntensityLevel(amplitudes: number[]): number | null {
+    const relativeIntensity = amplitudes.reduce((sum, amplitude) => sum + amplitude * amplitude, 0); // dimensionless
+    return relativeIntensity > 0 ? AMPLITUDE.REFERENCE_LEVEL + 10 * Math.log10(relativeIntensity) : null;
+  }
+}
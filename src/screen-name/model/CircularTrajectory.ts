@@ -0,0 +1,53 @@
+import { Vector2 } from "scenerystack";
+import type { Trajectory } from "./Trajectory";
+
+/**
+ * CircularTrajectory goes around a circle at a constant angular speed, like a source on a circular track.
+ */
+export class CircularTrajectory implements Trajectory {
+  public readonly center: Vector2; // in meters (m)
+  public readonly radius: number; // in meters (m)
+  public readonly angularSpeed: number; // in radians per second (rad/s), positive counterclockwise
+  public readonly startAngle: number; // in radians (rad)
+
+  /**
+   * Create a new circular trajectory
+   * @param center Center of the circle in meters (m)
+   * @param radius Radius of the circle in meters (m)
+   * @param angularSpeed Angular speed in radians per second (rad/s), positive counterclockwise
+   * @param startAngle Angle of the starting position, measured from the x axis, in radians (rad)
+   */
+  constructor(center: Vector2, radius: number, angularSpeed: number, startAngle: number) {
+    this.center = center;
+    this.radius = radius;
+    this.angularSpeed = angularSpeed;
+    this.startAngle = startAngle;
+  }
+
+  /**
+   * Get the position along the trajectory
+   * @param time Time since the start of the trajectory in seconds (s)
+   * @returns Position in meters (m)
+   */
+  public getPosition(time: number): Vector2 {
+    return this.center.plus(Vector2.createPolar(this.radius, this.getAngle(time)));
+  }
+
+  /**
+   * Get the velocity along the trajectory, tangent to the circle
+   * @param time Time since the start of the trajectory in seconds (s)
+   * @returns Velocity in meters per second (m/s)
+   */
+  public getVelocity(time: number): Vector2 {
+    return Vector2.createPolar(this.radius * this.angularSpeed, this.getAngle(time) + Math.PI / 2);
+  }
+
+  /**
+   * Get the angle of the position on the circle
+   * @param time Time since the start of the trajectory in seconds (s)
+   * @returns Angle measured from the x axis in radians (rad)
+   */
+  private getAngle(time: number): number {
+    return this.startAngle + this.angularSpeed * time;
+  }
+}
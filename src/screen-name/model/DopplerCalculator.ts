@@ -1,8 +1,31 @@
 import { Vector2 } from "scenerystack";
+import type { EmissionHistory, EmissionSample } from "./EmissionHistory";
+import type { PropagationHistory } from "./PropagationHistory";
+import { SUPERSONIC, WAVE } from "./SimConstants";
 import type { Wave } from "./SimModel";
 
+// A wave reaching the observer, with the time it arrived in seconds (s)
+export type WaveArrival = {
+  wave: Wave;
+  arrivalTime: number;
+};
+
+// What a source emitted at the retarded time, the moment the signal heard now left it
+export type RetardedEmission = {
+  emission: EmissionSample; // state of the source at the retarded time
+  center: Vector2; // current center of the wavefront emitted then, drifted by the medium, in meters (m)
+  distance: number; // distance travelled through the medium since then in meters (m)
+};
+
+// Number of bisection steps when solving for the retarded time within a recorded step (dimensionless)
+const RETARDED_TIME_ITERATIONS = 30;
+
 /**
  * DopplerCalculator handles the physics calculations for the Doppler effect.
+ *
+ * A source may fly above the ground while observers stay on it. All velocities are horizontal, so only
+ * the horizontal part of the direction from the source to the observer enters the Doppler formula,
+ * and distances to the observer are slant distances through the air.
  */
 export class DopplerCalculator {
   /**
@@ -11,6 +34,7 @@ export class DopplerCalculator {
    * @param observerPosition Current observer position in meters (m)
    * @param observerVelocity Current observer velocity in meters per second (m/s)
    * @param soundSpeed Current speed of sound in meters per second (m/s)
+   * @param mediumVelocity Velocity of the medium (wind) in meters per second (m/s)
    * @returns The observed frequency in Hertz (Hz)
    */
   public calculateObservedFrequency(
@@ -18,64 +42,240 @@ export class DopplerCalculator {
     observerPosition: Vector2,
     observerVelocity: Vector2,
     soundSpeed: number,
+    mediumVelocity: Vector2,
+  ): number {
+    let emittedFrequency = wave.sourceFrequency; // in Hertz (Hz)
+    let emitterVelocity = wave.sourceVelocity; // in meters per second (m/s)
+
+    // An echo is shifted twice (the double Doppler effect): the reflector first hears the source,
+    // then sends that frequency on as a moving source itself
+    if (wave.reflection !== null) {
+      emittedFrequency = this.shiftFrequency(
+        emittedFrequency,
+        emitterVelocity,
+        wave.reflection.reflectorVelocity,
+        wave.reflection.incidentDirection,
+        soundSpeed,
+        mediumVelocity,
+      );
+      emitterVelocity = wave.reflection.reflectorVelocity;
+    }
+
+    // Calculate the direction from the (drifted) wave center to observer (dimensionless)
+    const direction = this.getGroundDirection(observerPosition.minus(wave.position), wave.emissionAltitude);
+
+    return this.shiftFrequency(
+      emittedFrequency,
+      emitterVelocity,
+      observerVelocity,
+      direction,
+      soundSpeed,
+      mediumVelocity,
+    ); // in Hertz (Hz)
+  }
+
+  /**
+   * Calculate the frequency of the echo that a moving reflector sends back to a stationary emitter in a still medium.
+   * The reflector first hears the signal as a moving observer, then sends it back as a moving source.
+   * @param frequency Frequency sent out by the emitter in Hertz (Hz)
+   * @param reflectorVelocity Velocity of the reflector in meters per second (m/s)
+   * @param direction Unit vector from the emitter to the reflector (dimensionless)
+   * @param waveSpeed Speed of the waves in meters per second (m/s)
+   * @returns The frequency of the echo arriving back at the emitter in Hertz (Hz)
+   */
+  public calculateEchoFrequency(
+    frequency: number,
+    reflectorVelocity: Vector2,
+    direction: Vector2,
+    waveSpeed: number,
+  ): number {
+    const heardFrequency = this.shiftFrequency(
+      frequency,
+      Vector2.ZERO,
+      reflectorVelocity,
+      direction,
+      waveSpeed,
+      Vector2.ZERO,
+    ); // in Hertz (Hz)
+    return this.shiftFrequency(
+      heardFrequency,
+      reflectorVelocity,
+      Vector2.ZERO,
+      direction.negated(),
+      waveSpeed,
+      Vector2.ZERO,
+    ); // in Hertz (Hz)
+  }
+
+  /**
+   * Calculate the frequency received from a distant emitter, whose signal arrives along a fixed direction
+   * @param frequency Frequency sent by the emitter in Hertz (Hz)
+   * @param emitterVelocity Velocity of the emitter in meters per second (m/s)
+   * @param receiverVelocity Velocity of the receiver in meters per second (m/s)
+   * @param direction Unit vector along which the wave travels from the emitter to the receiver (dimensionless)
+   * @param waveSpeed Speed of the waves in meters per second (m/s)
+   * @param mediumVelocity Velocity of the medium (wind) in meters per second (m/s)
+   * @returns The frequency received in Hertz (Hz)
+   */
+  public calculateReceivedFrequency(
+    frequency: number,
+    emitterVelocity: Vector2,
+    receiverVelocity: Vector2,
+    direction: Vector2,
+    waveSpeed: number,
+    mediumVelocity: Vector2,
   ): number {
-    // Calculate unit vector from source to observer (dimensionless)
-    const direction = observerPosition.minus(wave.position).normalized(); // dimensionless unit vector
+    return this.shiftFrequency(frequency, emitterVelocity, receiverVelocity, direction, waveSpeed, mediumVelocity);
+  }
+
+  /**
+   * Find the speed of a reflector from the echo it sends back to a stationary emitter in a still medium.
+   * Inverts the double Doppler effect of a reflector moving along the line of sight, f_echo = f * (v + u) / (v - u),
+   * where u is the speed of the reflector toward the emitter.
+   * @param emittedFrequency Frequency sent out by the emitter in Hertz (Hz)
+   * @param echoFrequency Frequency of the echo arriving back at the emitter in Hertz (Hz)
+   * @param waveSpeed Speed of the waves in meters per second (m/s)
+   * @returns Speed of the reflector toward the emitter in meters per second (m/s), negative when moving away
+   */
+  public calculateReflectorSpeed(emittedFrequency: number, echoFrequency: number, waveSpeed: number): number {
+    return (waveSpeed * (echoFrequency - emittedFrequency)) / (echoFrequency + emittedFrequency); // in m/s
+  }
 
-    // Calculate velocity components along the direction vector
-    const sourceVelocityComponent = wave.sourceVelocity.dot(direction); // in meters per second (m/s)
-    const observerVelocityComponent = observerVelocity.dot(direction); // in meters per second (m/s)
+  /**
+   * Shift a frequency from a moving emitter to a moving receiver using the Doppler formula
+   * @param frequency Frequency sent by the emitter in Hertz (Hz)
+   * @param emitterVelocity Velocity of the emitter in meters per second (m/s)
+   * @param receiverVelocity Velocity of the receiver in meters per second (m/s)
+   * @param direction Unit vector along which the wave travels from the emitter to the receiver, or its horizontal
+   *                  part when the emitter is in the air (dimensionless)
+   * @param soundSpeed Current speed of sound in meters per second (m/s)
+   * @param mediumVelocity Velocity of the medium (wind) in meters per second (m/s)
+   * @returns The frequency heard by the receiver in Hertz (Hz)
+   */
+  protected shiftFrequency(
+    frequency: number,
+    emitterVelocity: Vector2,
+    receiverVelocity: Vector2,
+    direction: Vector2,
+    soundSpeed: number,
+    mediumVelocity: Vector2,
+  ): number {
+    // Calculate velocity components along the direction vector, relative to the medium,
+    // since sound travels at soundSpeed with respect to the air, not the ground
+    const sourceVelocityComponent = emitterVelocity.minus(mediumVelocity).dot(direction); // in m/s
+    const observerVelocityComponent = receiverVelocity.minus(mediumVelocity).dot(direction); // in m/s
 
     // Calculate observed frequency using Doppler formula:
     // f' = f * (v - v_o) / (v - v_s)
     // where f is emitted frequency, v is sound speed,
-    // v_o is observer velocity component, v_s is source velocity component
+    // v_o is observer velocity component, v_s is source velocity component (both relative to the medium)
+    // The result is negative when the source approaches faster than sound (the waves arrive in reverse order)
     const observedFrequency =
-      (wave.sourceFrequency * // in Hertz (Hz)
+      (frequency * // in Hertz (Hz)
         (soundSpeed - observerVelocityComponent)) / // in meters per second (m/s)
-      (soundSpeed - sourceVelocityComponent); // in meters per second (m/s) // result in Hertz (Hz)
+      this.limitDenominator(soundSpeed - sourceVelocityComponent, soundSpeed); // in meters per second (m/s)
 
     return observedFrequency; // in Hertz (Hz)
   }
 
+  /**
+   * Get the distance from the center of a wave, which is in the air for a flying source, to a position on the ground
+   * @param wave The wave
+   * @param position Position on the ground in meters (m)
+   * @returns Slant distance in meters (m)
+   */
+  public getSlantDistance(wave: Wave, position: Vector2): number {
+    return Math.hypot(wave.position.distance(position), wave.emissionAltitude);
+  }
+
+  /**
+   * Get the horizontal part of the unit vector from a point in the air to a point on the ground
+   * @param offset Horizontal offset from the point in the air to the point on the ground in meters (m)
+   * @param altitude Height of the point in the air in meters (m)
+   * @returns The horizontal part of the direction, a unit vector when the altitude is zero (dimensionless)
+   */
+  private getGroundDirection(offset: Vector2, altitude: number): Vector2 {
+    return altitude === 0 ? offset.normalized() : offset.timesScalar(1 / Math.hypot(offset.magnitude, altitude));
+  }
+
+  /**
+   * Determine whether a position lies in a direction that the wave travels: every direction for waves
+   * from a source, but only the arc sent back by the reflector for echoes
+   * @param wave The wave
+   * @param position Position in meters (m)
+   * @returns Whether the wavefront passes over the position as it expands
+   */
+  public isInWavePath(wave: Wave, position: Vector2): boolean {
+    if (wave.reflection === null) {
+      return true;
+    }
+
+    // Angle of the position measured counterclockwise from the start of the arc, between 0 and 2π (rad)
+    const { startAngle, endAngle } = wave.reflection;
+    const twoPi = 2 * Math.PI;
+    const angle = position.minus(wave.position).angle; // in radians (rad)
+    const fromStart = (((angle - startAngle) % twoPi) + twoPi) % twoPi; // in radians (rad)
+    const arcLength = (((endAngle - startAngle) % twoPi) + twoPi) % twoPi; // in radians (rad)
+
+    return fromStart <= arcLength;
+  }
+
+  /**
+   * Keep the Doppler denominator away from zero, where the formula diverges (v_s = v, the sonic boom)
+   * @param denominator The denominator v - v_s in meters per second (m/s)
+   * @param soundSpeed Current speed of sound in meters per second (m/s)
+   * @returns The denominator with a minimum magnitude, keeping its sign, in meters per second (m/s)
+   */
+  private limitDenominator(denominator: number, soundSpeed: number): number {
+    const minimumMagnitude = SUPERSONIC.MIN_DOPPLER_DENOMINATOR_FACTOR * soundSpeed; // in meters per second (m/s)
+    if (Math.abs(denominator) >= minimumMagnitude) {
+      return denominator;
+    }
+    return denominator < 0 ? -minimumMagnitude : minimumMagnitude;
+  }
+
   /**
    * Calculate observed frequency for a stationary observer using the Doppler formula
    * @param wave The wave reaching the observer
    * @param observerPosition Current observer position in meters (m)
    * @param soundSpeed Current speed of sound in meters per second (m/s)
+   * @param mediumVelocity Velocity of the medium (wind) in meters per second (m/s)
    * @returns The observed frequency in Hertz (Hz)
    */
-  public calculateStationaryFrequency(wave: Wave, observerPosition: Vector2, soundSpeed: number): number {
-    return this.calculateObservedFrequency(wave, observerPosition, new Vector2(0, 0), soundSpeed);
+  public calculateStationaryFrequency(
+    wave: Wave,
+    observerPosition: Vector2,
+    soundSpeed: number,
+    mediumVelocity: Vector2,
+  ): number {
+    return this.calculateObservedFrequency(wave, observerPosition, new Vector2(0, 0), soundSpeed, mediumVelocity);
   }
 
   /**
    * Find waves that have reached the observer and calculate arrival times
    * @param waves Array of all waves
    * @param observerPosition Current observer position in meters (m)
-   * @param soundSpeed Current speed of sound in meters per second (m/s)
+   * @param propagationHistory Distance travelled by the wavefronts over time, so that arrival times stay exact
+   *                           when the speed of sound changes while the waves are in flight
    * @returns Array of waves at observer with arrival times in seconds (s)
    */
   public findWavesAtObserver(
     waves: Wave[],
     observerPosition: Vector2,
-    soundSpeed: number,
-  ): Array<{ wave: Wave; arrivalTime: number }> {
-    const wavesAtObserver: Array<{ wave: Wave; arrivalTime: number }> = [];
+    propagationHistory: PropagationHistory,
+  ): WaveArrival[] {
+    const wavesAtObserver: WaveArrival[] = [];
 
     for (const wave of waves) {
       // Calculate distance from wave origin to observer
-      const distanceToObserver = wave.position.distance(observerPosition); // in meters (m)
+      const distanceToObserver = this.getSlantDistance(wave, observerPosition); // in meters (m)
 
       // Check if wave has reached observer
-      if (wave.radius >= distanceToObserver) {
+      if (wave.radius >= distanceToObserver && this.isInWavePath(wave, observerPosition)) {
         // both in meters (m)
 
-        //TODO: this will not be correct if the sound speed is changed by the user,
-        // this only works for constant sound speed (over the course of the waves), not variable sound speed
-        // Calculate arrival time
-        const travelTime = distanceToObserver / soundSpeed; // in seconds (s)
-        const arrivalTime = wave.birthTime + travelTime; // in seconds (s)
+        // Calculate arrival time, when the wavefront had travelled the distance to the observer
+        const arrivalTime = propagationHistory.getArrivalTime(wave.birthTime, distanceToObserver); // in seconds (s)
 
         wavesAtObserver.push({ wave, arrivalTime }); // arrivalTime in seconds (s)
       }
@@ -86,4 +286,214 @@ export class DopplerCalculator {
 
     return wavesAtObserver; // arrivalTime in seconds (s)
   }
+
+  /**
+   * Find the wavefronts that are currently sweeping past the observer, one per branch.
+   *
+   * Walking the waves in emission order, every change between "has reached the observer" and
+   * "has not reached the observer yet" marks a wavefront passing over the observer. A subsonic source
+   * produces a single branch. Inside the Mach cone of a supersonic source there are two: the approach
+   * branch, whose waves arrive in reverse order, and the receding branch.
+   * @param waves Array of all waves
+   * @param observerPosition Current observer position in meters (m)
+   * @param propagationHistory Distance travelled by the wavefronts over time
+   * @returns The wave at each branch boundary with its arrival time, most recently emitted first
+   */
+  public findWaveBranchesAtObserver(
+    waves: Wave[],
+    observerPosition: Vector2,
+    propagationHistory: PropagationHistory,
+  ): WaveArrival[] {
+    const sortedWaves = [...waves].sort((a, b) => a.birthTime - b.birthTime);
+    const hasReached = (wave: Wave | undefined, fallback: boolean): boolean =>
+      wave === undefined
+        ? fallback
+        : wave.radius >= this.getSlantDistance(wave, observerPosition) && this.isInWavePath(wave, observerPosition);
+
+    const branches: WaveArrival[] = [];
+    for (let i = 0; i < sortedWaves.length; i++) {
+      const wave = sortedWaves[i];
+      if (wave === undefined || !hasReached(wave, false)) {
+        continue;
+      }
+
+      // Waves older than the oldest one kept have long since passed, and waves not yet emitted cannot have arrived
+      const olderReached = hasReached(sortedWaves[i - 1], true);
+      const newerReached = hasReached(sortedWaves[i + 1], false);
+
+      if (!(olderReached && newerReached)) {
+        const distanceToObserver = this.getSlantDistance(wave, observerPosition); // in meters (m)
+        const arrivalTime = propagationHistory.getArrivalTime(wave.birthTime, distanceToObserver); // in seconds (s)
+        branches.push({ wave, arrivalTime });
+      }
+    }
+
+    // Most recently emitted branch first
+    branches.reverse();
+
+    return branches;
+  }
+
+  /**
+   * Find the retarded times at which the signal heard by the observer now was emitted.
+   *
+   * A signal emitted at time t_e has travelled L(t) - L(t_e) through the medium, where L is the distance
+   * accumulated by the propagation history, from the emission position carried along by the medium since then.
+   * It is heard now when that distance equals the slant distance from its drifted center to the observer.
+   * Walking the recorded steps back in time, every change between "has reached the observer" and
+   * "has not reached the observer yet" brackets a retarded time, which is then found by bisection.
+   * A subsonic source gives a single retarded time, inside the Mach cone of a supersonic source there are two.
+   * Signals older than the maximum age of a wave are no longer heard.
+   * @param emissionHistory Recorded trajectory and signal of the source
+   * @param observerPosition Current observer position in meters (m)
+   * @param time Current simulation time in seconds (s)
+   * @param propagationHistory Distance travelled by the wavefronts over time
+   * @returns The emissions heard now, most recently emitted first
+   */
+  public findRetardedEmissions(
+    emissionHistory: EmissionHistory,
+    observerPosition: Vector2,
+    time: number,
+    propagationHistory: PropagationHistory,
+  ): RetardedEmission[] {
+    const distanceNow = propagationHistory.getDistance(time); // in meters (m)
+    const driftNow = propagationHistory.getDrift(time); // in meters (m)
+
+    // Where the signal emitted at a past moment is now, and how far past the observer it has travelled
+    const toRetardedEmission = (emission: EmissionSample): RetardedEmission => ({
+      emission: emission,
+      center: emission.position.plus(driftNow.minus(propagationHistory.getDrift(emission.time))),
+      distance: distanceNow - propagationHistory.getDistance(emission.time),
+    });
+    const getOvershoot = (retardedEmission: RetardedEmission): number =>
+      retardedEmission.distance -
+      Math.hypot(retardedEmission.center.distance(observerPosition), retardedEmission.emission.altitude); // in meters (m)
+
+    // The scan only needs the overshoot of each sample. The propagation samples are walked back along with the
+    // emission samples rather than searched for, and nothing is allocated until a retarded time is bracketed.
+    let propagationIndex = propagationHistory.findIndexBefore(time);
+    const getSampleOvershoot = (emission: EmissionSample): number => {
+      while (propagationIndex > 0 && (propagationHistory.get(propagationIndex)?.time ?? 0) > emission.time) {
+        propagationIndex--;
+      }
+      const before = propagationHistory.get(propagationIndex);
+      const after = propagationHistory.get(propagationIndex + 1) ?? before;
+      if (before === undefined || after === undefined) {
+        return getOvershoot(toRetardedEmission(emission));
+      }
+
+      const span = after.time - before.time; // in seconds (s)
+      const fraction = span === 0 ? 0 : (emission.time - before.time) / span; // dimensionless
+      const distance = before.distance + (after.distance - before.distance) * fraction; // in meters (m)
+      const driftX = before.drift.x + (after.drift.x - before.drift.x) * fraction; // in meters (m)
+      const driftY = before.drift.y + (after.drift.y - before.drift.y) * fraction; // in meters (m)
+      return (
+        distanceNow -
+        distance -
+        Math.hypot(
+          emission.position.x + driftNow.x - driftX - observerPosition.x,
+          emission.position.y + driftNow.y - driftY - observerPosition.y,
+          emission.altitude,
+        )
+      ); // in meters (m)
+    };
+
+    const retardedEmissions: RetardedEmission[] = [];
+    let newer: EmissionSample | null = null;
+    let newerReached = false;
+    for (let i = emissionHistory.length - 1; i >= 0; i--) {
+      const sample = emissionHistory.get(i);
+      if (sample === undefined || sample.time > time) {
+        continue;
+      }
+      if (time - sample.time > WAVE.MAX_AGE) {
+        // Samples are in order of time, so all the earlier ones are older still
+        break;
+      }
+
+      const olderReached = getSampleOvershoot(sample) >= 0;
+      if (newer !== null && olderReached !== newerReached) {
+        retardedEmissions.push(
+          this.bisectRetardedTime(
+            emissionHistory,
+            toRetardedEmission(sample),
+            toRetardedEmission(newer),
+            toRetardedEmission,
+            getOvershoot,
+          ),
+        );
+      }
+      newer = sample;
+      newerReached = olderReached;
+    }
+
+    return retardedEmissions;
+  }
+
+  /**
+   * Narrow down a retarded time between two emissions on either side of it
+   * @param emissionHistory Recorded trajectory and signal of the source
+   * @param older Emission before the retarded time
+   * @param newer Emission after the retarded time
+   * @param toRetardedEmission Finds where the signal of an emission is now
+   * @param getOvershoot How far the signal of an emission has travelled past the observer in meters (m)
+   * @returns The emission at the retarded time
+   */
+  private bisectRetardedTime(
+    emissionHistory: EmissionHistory,
+    older: RetardedEmission,
+    newer: RetardedEmission,
+    toRetardedEmission: (emission: EmissionSample) => RetardedEmission,
+    getOvershoot: (retardedEmission: RetardedEmission) => number,
+  ): RetardedEmission {
+    const olderReached = getOvershoot(older) >= 0;
+    let low = older;
+    let high = newer;
+    for (let i = 0; i < RETARDED_TIME_ITERATIONS; i++) {
+      const emission = emissionHistory.getSample((low.emission.time + high.emission.time) / 2);
+      if (emission === null) {
+        break;
+      }
+
+      const middle = toRetardedEmission(emission);
+      if (getOvershoot(middle) >= 0 === olderReached) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    return Math.abs(getOvershoot(low)) <= Math.abs(getOvershoot(high)) ? low : high;
+  }
+
+  /**
+   * Calculate the frequency heard from an emission at the retarded time using the Doppler formula
+   * @param retardedEmission What the source emitted at the retarded time
+   * @param observerPosition Current observer position in meters (m)
+   * @param observerVelocity Current observer velocity in meters per second (m/s)
+   * @param soundSpeed Current speed of sound in meters per second (m/s)
+   * @param mediumVelocity Velocity of the medium (wind) in meters per second (m/s)
+   * @returns The observed frequency in Hertz (Hz), negative when the signal arrives in reverse order
+   */
+  public calculateRetardedFrequency(
+    retardedEmission: RetardedEmission,
+    observerPosition: Vector2,
+    observerVelocity: Vector2,
+    soundSpeed: number,
+    mediumVelocity: Vector2,
+  ): number {
+    const direction = this.getGroundDirection(
+      observerPosition.minus(retardedEmission.center),
+      retardedEmission.emission.altitude,
+    ); // dimensionless
+
+    return this.shiftFrequency(
+      retardedEmission.emission.frequency,
+      retardedEmission.emission.velocity,
+      observerVelocity,
+      direction,
+      soundSpeed,
+      mediumVelocity,
+    ); // in Hertz (Hz)
+  }
 }
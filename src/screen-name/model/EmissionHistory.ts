@@ -0,0 +1,148 @@
+import type { Vector2 } from "scenerystack";
+import { KeyframeHistory } from "./KeyframeHistory";
+import { TIMESTEP } from "./SimConstants";
+
+// State of a source at a moment, recorded at every step
+export type EmissionSample = {
+  time: number; // in seconds (s)
+  position: Vector2; // in meters (m)
+  altitude: number; // height above the ground in meters (m)
+  velocity: Vector2; // in meters per second (m/s)
+  frequency: number; // emitted frequency in Hertz (Hz)
+  phase: number; // phase of the emitted signal in radians (rad)
+};
+
+/**
+ * EmissionHistory records the trajectory and the emitted signal of a source, so that the signal
+ * emitted at any past moment can be looked up. Between two steps the source is taken to move
+ * in a straight line and its phase to advance linearly, the steps being short compared to any
+ * change of the frequency.
+ *
+ * The samples are kept in a ring buffer holding one per step over a given duration, so that memory
+ * stays bounded however long the simulation runs.
+ */
+export class EmissionHistory {
+  // Samples in order of increasing time
+  private readonly samples: KeyframeHistory<EmissionSample>;
+
+  /**
+   * Create an empty history
+   * @param duration Span of time that the samples cover in seconds (s), until they are pruned
+   */
+  constructor(duration: number) {
+    // One sample per step, and those of the steps taken between prunings
+    this.samples = new KeyframeHistory(Math.ceil(duration / TIMESTEP.DT) + TIMESTEP.STEPS_PER_SAMPLE);
+  }
+
+  /**
+   * Record the state of the source at the end of a step
+   * @param time Simulation time in seconds (s)
+   * @param position Position of the source in meters (m)
+   * @param altitude Height of the source above the ground in meters (m)
+   * @param velocity Velocity of the source in meters per second (m/s)
+   * @param frequency Instantaneous emitted frequency in Hertz (Hz)
+   * @param phase Phase of the emitted signal in radians (rad)
+   */
+  public record(
+    time: number,
+    position: Vector2,
+    altitude: number,
+    velocity: Vector2,
+    frequency: number,
+    phase: number,
+  ): void {
+    const last = this.samples.getNewest();
+    if (last !== undefined && time <= last.time) {
+      return;
+    }
+
+    this.samples.push({
+      time: time,
+      position: position.copy(),
+      altitude: altitude,
+      velocity: velocity.copy(),
+      frequency: frequency,
+      phase: phase,
+    });
+  }
+
+  /**
+   * Get the number of recorded samples
+   */
+  public get length(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * Get a recorded sample by its position in time
+   * @param index Position of the sample, 0 for the oldest
+   * @returns The sample, or undefined outside the history
+   */
+  public get(index: number): EmissionSample | undefined {
+    return this.samples.get(index);
+  }
+
+  /**
+   * Get the state of the source at a time between two samples
+   * @param time Simulation time in seconds (s)
+   * @returns The interpolated state, or null outside the recorded times
+   */
+  public getSample(time: number): EmissionSample | null {
+    const first = this.samples.getOldest();
+    const last = this.samples.getNewest();
+    if (first === undefined || last === undefined || time < first.time || time > last.time) {
+      return null;
+    }
+
+    const low = this.samples.findIndexBefore(time);
+    const before = this.samples.get(low) ?? first;
+    const after = this.samples.get(low + 1) ?? last;
+    const span = after.time - before.time; // in seconds (s)
+    const fraction = span === 0 ? 0 : (time - before.time) / span; // dimensionless
+
+    return {
+      time: time,
+      position: before.position.blend(after.position, fraction),
+      altitude: before.altitude + (after.altitude - before.altitude) * fraction,
+      velocity: before.velocity.blend(after.velocity, fraction),
+      frequency: after.frequency,
+      phase: before.phase + (after.phase - before.phase) * fraction,
+    };
+  }
+
+  /**
+   * Find the sample that starts the step containing a time
+   * @param time Simulation time in seconds (s)
+   * @returns Position of the last sample at or before the time, short of the last sample, 0 for the oldest
+   */
+  public findIndexBefore(time: number): number {
+    return this.samples.findIndexBefore(time);
+  }
+
+  /**
+   * Forget the samples after a time, for when time runs backward
+   * @param time Simulation time in seconds (s)
+   */
+  public truncate(time: number): void {
+    const sampleAtTime = this.getSample(time);
+    this.samples.truncate(time);
+    if (sampleAtTime !== null && this.samples.getNewest()?.time !== time) {
+      this.samples.push(sampleAtTime);
+    }
+  }
+
+  /**
+   * Forget the samples before a time, keeping one sample at or before it
+   * @param time Simulation time in seconds (s)
+   */
+  public prune(time: number): void {
+    this.samples.prune(time);
+  }
+
+  /**
+   * Forget all samples
+   */
+  public reset(): void {
+    this.samples.clear();
+  }
+}
@@ -0,0 +1,50 @@
+import { TIMESTEP } from "./SimConstants";
+
+/**
+ * FixedTimestep turns the elapsed time of each frame into fixed steps of TIMESTEP.DT, so that two runs with
+ * the same inputs give identical results whatever the frame rate. Time that does not make up a whole step is
+ * carried over to the next frame, and a frame too long to catch up on slows the simulation down rather than
+ * taking ever more steps.
+ */
+export class FixedTimestep {
+  // Advances the simulation by one step of TIMESTEP.DT
+  private readonly fixedStep: () => void;
+
+  // Model time not stepped yet, carried over to the next frame in seconds (s)
+  private timeAccumulator: number = 0;
+
+  /**
+   * Create a stepper with no time carried over
+   * @param fixedStep Advances the simulation by one step of TIMESTEP.DT
+   */
+  constructor(fixedStep: () => void) {
+    this.fixedStep = fixedStep;
+  }
+
+  /**
+   * Take as many fixed steps as fit in the elapsed time, allowing for rounding in the accumulated time
+   * @param dt Elapsed model time in seconds (s)
+   */
+  public advance(dt: number): void {
+    this.timeAccumulator += dt;
+    let stepsTaken = 0;
+    while (this.timeAccumulator >= TIMESTEP.DT * (1 - 1e-6) && stepsTaken < TIMESTEP.MAX_STEPS_PER_FRAME) {
+      this.fixedStep();
+      this.timeAccumulator -= TIMESTEP.DT;
+      stepsTaken++;
+    }
+
+    // A frame too long to catch up on slows the simulation down rather than taking ever more steps
+    if (stepsTaken === TIMESTEP.MAX_STEPS_PER_FRAME) {
+      this.timeAccumulator = 0;
+    }
+    this.timeAccumulator = Math.max(0, this.timeAccumulator);
+  }
+
+  /**
+   * Drop the time carried over
+   */
+  public reset(): void {
+    this.timeAccumulator = 0;
+  }
+}
@@ -0,0 +1,127 @@
+import { Enumeration, EnumerationValue, type TReadOnlyProperty } from "scenerystack";
+import { StringManager } from "../../i18n/StringManager";
+import { MODULATION } from "./SimConstants";
+
+// Instantaneous frequency as a multiple of the frequency set on the source, at a time in seconds (s)
+type FactorFunction = (time: number) => number;
+
+// Integral of the factor since time zero, in seconds (s), from which the phase is found exactly
+type IntegralFunction = (time: number) => number;
+
+/**
+ * How the frequency emitted by a source changes over time on its own, before any Doppler shift.
+ * Each modulation scales the frequency set on the source by a factor that depends on the simulation
+ * time, and also gives the integral of that factor so that the phase advanced during a step is exact
+ * even when the frequency changes within the step.
+ */
+export class FrequencyModulation extends EnumerationValue {
+  // String property for display name
+  public readonly displayNameProperty: TReadOnlyProperty<string>;
+
+  // Frequency factor and its integral as functions of time
+  private readonly factorFunction: FactorFunction;
+  private readonly integralFunction: IntegralFunction;
+
+  public constructor(
+    displayNameProperty: TReadOnlyProperty<string>,
+    factorFunction: FactorFunction,
+    integralFunction: IntegralFunction,
+  ) {
+    super();
+
+    this.displayNameProperty = displayNameProperty;
+    this.factorFunction = factorFunction;
+    this.integralFunction = integralFunction;
+  }
+
+  /**
+   * Get the instantaneous emitted frequency
+   * @param baseFrequency Frequency set on the source in Hertz (Hz)
+   * @param time Simulation time in seconds (s)
+   * @returns Emitted frequency in Hertz (Hz)
+   */
+  public getFrequency(baseFrequency: number, time: number): number {
+    return baseFrequency * this.factorFunction(time);
+  }
+
+  /**
+   * Get the change of the emitted phase between two times
+   * @param baseFrequency Frequency set on the source during the interval in Hertz (Hz)
+   * @param startTime Simulation time at the start of the interval in seconds (s)
+   * @param endTime Simulation time at the end of the interval in seconds (s), earlier when time runs backward
+   * @returns Phase change in radians (rad)
+   */
+  public getPhaseChange(baseFrequency: number, startTime: number, endTime: number): number {
+    return baseFrequency * (this.integralFunction(endTime) - this.integralFunction(startTime)) * Math.PI * 2;
+  }
+
+  // None: a steady frequency
+  public static readonly NONE = new FrequencyModulation(
+    StringManager.getInstance().getModulationStrings().noneStringProperty,
+    () => 1,
+    (time) => time,
+  );
+
+  // Chirp: the frequency rises linearly over each sweep, then drops back and sweeps again
+  public static readonly CHIRP = new FrequencyModulation(
+    StringManager.getInstance().getModulationStrings().chirpStringProperty,
+    (time) => {
+      const sweeps = time / MODULATION.CHIRP_PERIOD; // dimensionless
+      return 1 + MODULATION.CHIRP_SPAN * (sweeps - Math.floor(sweeps));
+    },
+    (time) => {
+      const sweeps = time / MODULATION.CHIRP_PERIOD; // dimensionless
+      const completeSweeps = Math.floor(sweeps); // dimensionless
+      const fraction = sweeps - completeSweeps; // dimensionless
+      return time + MODULATION.CHIRP_SPAN * MODULATION.CHIRP_PERIOD * (completeSweeps / 2 + (fraction * fraction) / 2);
+    },
+  );
+
+  // Siren wail: the frequency rises and falls sinusoidally around the frequency set on the source
+  public static readonly SIREN = new FrequencyModulation(
+    StringManager.getInstance().getModulationStrings().sirenStringProperty,
+    (time) => 1 + MODULATION.SIREN_DEPTH * Math.sin((time / MODULATION.SIREN_PERIOD) * Math.PI * 2),
+    (time) =>
+      time +
+      ((MODULATION.SIREN_DEPTH * MODULATION.SIREN_PERIOD) / (Math.PI * 2)) *
+        (1 - Math.cos((time / MODULATION.SIREN_PERIOD) * Math.PI * 2)),
+  );
+
+  // Two-tone: the frequency alternates between the frequency set on the source and a higher tone
+  public static readonly TWO_TONE = new FrequencyModulation(
+    StringManager.getInstance().getModulationStrings().twoToneStringProperty,
+    (time) => {
+      const cycles = time / MODULATION.TWO_TONE_PERIOD; // dimensionless
+      return cycles - Math.floor(cycles) < 0.5 ? 1 : MODULATION.TWO_TONE_RATIO;
+    },
+    (time) => {
+      const cycles = time / MODULATION.TWO_TONE_PERIOD; // dimensionless
+      const completeCycles = Math.floor(cycles); // dimensionless
+      const fraction = cycles - completeCycles; // dimensionless
+      const partialCycle = fraction < 0.5 ? fraction : 0.5 + (fraction - 0.5) * MODULATION.TWO_TONE_RATIO;
+      return MODULATION.TWO_TONE_PERIOD * (completeCycles * (1 + MODULATION.TWO_TONE_RATIO) * 0.5 + partialCycle);
+    },
+  );
+
+  // Bat call: short calls sweeping down to the frequency set on the source, with silence between them.
+  // Nothing is emitted while the frequency is zero, so the echo of each call can be told apart.
+  public static readonly BAT_CALL = new FrequencyModulation(
+    StringManager.getInstance().getModulationStrings().batCallStringProperty,
+    (time) => {
+      const callTime = time - Math.floor(time / MODULATION.BAT_CALL_PERIOD) * MODULATION.BAT_CALL_PERIOD; // in s
+      return callTime < MODULATION.BAT_CALL_DURATION
+        ? 1 + MODULATION.BAT_CALL_SPAN * (1 - callTime / MODULATION.BAT_CALL_DURATION)
+        : 0;
+    },
+    (time) => {
+      const completeCalls = Math.floor(time / MODULATION.BAT_CALL_PERIOD); // dimensionless
+      const callTime = Math.min(time - completeCalls * MODULATION.BAT_CALL_PERIOD, MODULATION.BAT_CALL_DURATION); // in seconds (s)
+      const callIntegral = (duration: number): number =>
+        duration + MODULATION.BAT_CALL_SPAN * (duration - (duration * duration) / (2 * MODULATION.BAT_CALL_DURATION));
+      return completeCalls * callIntegral(MODULATION.BAT_CALL_DURATION) + callIntegral(callTime);
+    },
+  );
+
+  // Gets a list of keys, values and mapping between them. For use in EnumerationProperty
+  public static readonly enumeration = new Enumeration(FrequencyModulation);
+}
@@ -0,0 +1,140 @@
+import { Vector2 } from "scenerystack";
+import type { Trajectory } from "./Trajectory";
+
+// Newton steps when solving Kepler's equation, enough for eccentricities up to 0.99 (dimensionless)
+const KEPLER_ITERATIONS = 12;
+
+/**
+ * KeplerianTrajectory goes around an ellipse with a focus at the barycenter, sweeping out equal areas
+ * in equal times, like a star or planet on its orbit. The orbit starts at periapsis.
+ *
+ * The screen is taken as the plane that holds the line of sight, with the observer far away along it.
+ * An orbit seen edge-on (inclination 90°) lies in the screen. At a lower inclination the orbit is tilted
+ * out of the screen about the line of nodes, across the line of sight, and the trajectory is its projection
+ * onto the screen: only the part of the motion along the line of sight is scaled by sin(i), so the component
+ * of the velocity along the line of sight is the true radial velocity.
+ */
+export class KeplerianTrajectory implements Trajectory {
+  public readonly center: Vector2; // barycenter, in meters (m)
+  public readonly semiMajorAxis: number; // in meters (m)
+  public readonly eccentricity: number; // dimensionless, from 0 for a circle up to but not including 1
+  public readonly period: number; // in seconds (s)
+  public readonly periapsisAngle: number; // direction of periapsis in the orbit seen edge-on, in radians (rad)
+  public readonly inclination: number; // angle between the orbit and the plane of the sky, in radians (rad)
+  public readonly lineOfSight: Vector2; // unit vector from the barycenter toward the observer (dimensionless)
+
+  /**
+   * Create a new Keplerian trajectory
+   * @param center Barycenter, at a focus of the ellipse, in meters (m)
+   * @param semiMajorAxis Semi-major axis of the ellipse in meters (m)
+   * @param eccentricity Eccentricity of the ellipse (dimensionless)
+   * @param period Orbital period in seconds (s)
+   * @param periapsisAngle Direction of periapsis in the orbit seen edge-on, measured from the x axis, in radians (rad)
+   * @param inclination Angle between the orbit and the plane of the sky, 90° edge-on, in radians (rad)
+   * @param lineOfSight Unit vector from the barycenter toward the observer (dimensionless)
+   */
+  constructor(
+    center: Vector2,
+    semiMajorAxis: number,
+    eccentricity: number,
+    period: number,
+    periapsisAngle: number,
+    inclination: number,
+    lineOfSight: Vector2,
+  ) {
+    this.center = center;
+    this.semiMajorAxis = semiMajorAxis;
+    this.eccentricity = eccentricity;
+    this.period = period;
+    this.periapsisAngle = periapsisAngle;
+    this.inclination = inclination;
+    this.lineOfSight = lineOfSight;
+  }
+
+  /**
+   * Get the position along the trajectory
+   * @param time Time since the start of the trajectory in seconds (s)
+   * @returns Position in meters (m)
+   */
+  public getPosition(time: number): Vector2 {
+    const eccentricAnomaly = this.getEccentricAnomaly(time); // in radians (rad)
+
+    // Position relative to the focus, with periapsis along +x (m)
+    const orbitalPosition = new Vector2(
+      this.semiMajorAxis * (Math.cos(eccentricAnomaly) - this.eccentricity),
+      this.getSemiMinorAxis() * Math.sin(eccentricAnomaly),
+    );
+    return this.center.plus(this.project(orbitalPosition.rotated(this.periapsisAngle)));
+  }
+
+  /**
+   * Get the velocity along the trajectory, tangent to the ellipse
+   * @param time Time since the start of the trajectory in seconds (s)
+   * @returns Velocity in meters per second (m/s)
+   */
+  public getVelocity(time: number): Vector2 {
+    const eccentricAnomaly = this.getEccentricAnomaly(time); // in radians (rad)
+
+    // Rate of change of the eccentric anomaly, from Kepler's equation (rad/s)
+    const meanMotion = (2 * Math.PI) / this.period; // in radians per second (rad/s)
+    const eccentricAnomalyRate = meanMotion / (1 - this.eccentricity * Math.cos(eccentricAnomaly));
+
+    // Velocity with periapsis along +x (m/s)
+    const orbitalVelocity = new Vector2(
+      -this.semiMajorAxis * Math.sin(eccentricAnomaly) * eccentricAnomalyRate,
+      this.getSemiMinorAxis() * Math.cos(eccentricAnomaly) * eccentricAnomalyRate,
+    );
+    return this.project(orbitalVelocity.rotated(this.periapsisAngle));
+  }
+
+  /**
+   * Get the largest speed along the line of sight, the semi-amplitude K of the radial-velocity curve
+   * @returns Semi-amplitude in meters per second (m/s)
+   */
+  public getRadialVelocityAmplitude(): number {
+    return (
+      (2 * Math.PI * this.semiMajorAxis * Math.sin(this.inclination)) /
+      (this.period * Math.sqrt(1 - this.eccentricity * this.eccentricity))
+    ); // in m/s
+  }
+
+  /**
+   * Project a vector in the orbit seen edge-on onto the screen, scaling its part along the line of sight
+   * @param vector Vector in the orbit seen edge-on
+   * @returns Vector in the screen
+   */
+  private project(vector: Vector2): Vector2 {
+    const lineOfNodes = this.lineOfSight.perpendicular; // dimensionless
+    return lineOfNodes
+      .timesScalar(vector.dot(lineOfNodes))
+      .plus(this.lineOfSight.timesScalar(vector.dot(this.lineOfSight) * Math.sin(this.inclination)));
+  }
+
+  /**
+   * Get the semi-minor axis of the ellipse
+   * @returns Semi-minor axis in meters (m)
+   */
+  private getSemiMinorAxis(): number {
+    return this.semiMajorAxis * Math.sqrt(1 - this.eccentricity * this.eccentricity);
+  }
+
+  /**
+   * Solve Kepler's equation, M = E - e sin(E), for the eccentric anomaly E with Newton's method
+   * @param time Time since the start of the trajectory in seconds (s)
+   * @returns Eccentric anomaly in radians (rad)
+   */
+  private getEccentricAnomaly(time: number): number {
+    // Mean anomaly within the current orbit, from 0 to 2π (rad)
+    const fullTurn = 2 * Math.PI; // in radians (rad)
+    const meanAnomaly = ((((fullTurn * time) / this.period) % fullTurn) + fullTurn) % fullTurn;
+
+    // Starting from π converges for any eccentricity, starting from M is faster for nearly circular orbits
+    let eccentricAnomaly = this.eccentricity > 0.8 ? Math.PI : meanAnomaly; // in radians (rad)
+    for (let i = 0; i < KEPLER_ITERATIONS; i++) {
+      eccentricAnomaly -=
+        (eccentricAnomaly - this.eccentricity * Math.sin(eccentricAnomaly) - meanAnomaly) /
+        (1 - this.eccentricity * Math.cos(eccentricAnomaly));
+    }
+    return eccentricAnomaly;
+  }
+}
@@ -0,0 +1,147 @@
+// A state of the simulation at a moment, kept for time reversal
+export type Keyframe = {
+  time: number; // in seconds (s)
+};
+
+/**
+ * KeyframeHistory keeps the most recent keyframes in a ring buffer of fixed capacity, so that a long run
+ * takes no more memory than a short one: once the buffer is full, each new keyframe overwrites the oldest.
+ * Keyframes are added in order of increasing time, and the one closest to a time is found by binary search.
+ */
+export class KeyframeHistory<T extends Keyframe> {
+  // Storage, used as a circle starting at the oldest keyframe
+  private readonly buffer: (T | undefined)[];
+
+  // Index of the oldest keyframe in the buffer, and number of keyframes kept
+  private start: number = 0;
+  private count: number = 0;
+
+  /**
+   * Create an empty history
+   * @param capacity Largest number of keyframes kept
+   */
+  constructor(capacity: number) {
+    this.buffer = new Array<T | undefined>(Math.max(1, Math.floor(capacity))).fill(undefined);
+  }
+
+  /**
+   * Get the number of keyframes kept
+   */
+  public get length(): number {
+    return this.count;
+  }
+
+  /**
+   * Add a keyframe after the others, overwriting the oldest one when the history is full
+   * @param keyframe Keyframe later than all the others
+   */
+  public push(keyframe: T): void {
+    if (this.count === this.buffer.length) {
+      this.buffer[this.start] = keyframe;
+      this.start = (this.start + 1) % this.buffer.length;
+    } else {
+      this.buffer[(this.start + this.count) % this.buffer.length] = keyframe;
+      this.count++;
+    }
+  }
+
+  /**
+   * Get a keyframe by its position in time
+   * @param index Position of the keyframe, 0 for the oldest
+   * @returns The keyframe, or undefined outside the history
+   */
+  public get(index: number): T | undefined {
+    return index >= 0 && index < this.count ? this.buffer[(this.start + index) % this.buffer.length] : undefined;
+  }
+
+  /**
+   * Get the oldest keyframe kept
+   */
+  public getOldest(): T | undefined {
+    return this.get(0);
+  }
+
+  /**
+   * Get the most recent keyframe
+   */
+  public getNewest(): T | undefined {
+    return this.get(this.count - 1);
+  }
+
+  /**
+   * Find the keyframe closest to a time
+   * @param time Simulation time in seconds (s)
+   * @returns The closest keyframe, or undefined when the history is empty
+   */
+  public findClosest(time: number): T | undefined {
+    return this.get(this.findClosestIndex(time));
+  }
+
+  /**
+   * Find the position of the keyframe closest to a time
+   * @param time Simulation time in seconds (s)
+   * @returns Position of the closest keyframe, 0 for the oldest, or -1 when the history is empty
+   */
+  public findClosestIndex(time: number): number {
+    const low = this.findIndexBefore(time);
+    const high = Math.min(low + 1, this.count - 1);
+    const before = this.get(low);
+    const after = this.get(high);
+    if (before === undefined || after === undefined) {
+      return before === undefined ? high : low;
+    }
+    return Math.abs(before.time - time) <= Math.abs(after.time - time) ? low : high;
+  }
+
+  /**
+   * Binary search for the keyframe that starts the span containing a time
+   * @param time Simulation time in seconds (s)
+   * @returns Position of the last keyframe at or before the time, short of the newest, 0 for the oldest
+   */
+  public findIndexBefore(time: number): number {
+    let low = 0;
+    let high = this.count - 1;
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      if ((this.get(middle)?.time ?? time) <= time) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Forget the keyframes before a time, keeping one at or before it. Only the start of the circle moves,
+   * so each forgotten keyframe takes constant time.
+   * @param time Simulation time in seconds (s)
+   */
+  public prune(time: number): void {
+    while (this.count > 1 && (this.get(1)?.time ?? time) <= time) {
+      this.buffer[this.start] = undefined;
+      this.start = (this.start + 1) % this.buffer.length;
+      this.count--;
+    }
+  }
+
+  /**
+   * Forget the keyframes after a time, for when time runs backward and the history is written again
+   * @param time Simulation time in seconds (s)
+   */
+  public truncate(time: number): void {
+    while (this.count > 0 && (this.getNewest()?.time ?? time) > time) {
+      this.buffer[(this.start + this.count - 1) % this.buffer.length] = undefined;
+      this.count--;
+    }
+  }
+
+  /**
+   * Forget all keyframes
+   */
+  public clear(): void {
+    this.buffer.fill(undefined);
+    this.start = 0;
+    this.count = 0;
+  }
+}
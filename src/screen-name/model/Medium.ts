@@ -0,0 +1,65 @@
+import { Enumeration, EnumerationValue, type TReadOnlyProperty } from "scenerystack";
+import { StringManager } from "../../i18n/StringManager";
+import { MEDIUM } from "./SimConstants";
+
+// Speed of sound in a medium at a temperature in degrees Celsius (°C) and a relative humidity in percent (%)
+type SoundSpeedFunction = (temperature: number, humidity: number) => number;
+
+/**
+ * Medium through which the sound waves travel, each with its own speed of sound.
+ * The speeds are empirical formulas valid around everyday temperatures.
+ */
+export class Medium extends EnumerationValue {
+  // String property for display name
+  public readonly displayNameProperty: TReadOnlyProperty<string>;
+
+  // Speed of sound as a function of temperature and humidity
+  private readonly soundSpeedFunction: SoundSpeedFunction;
+
+  public constructor(displayNameProperty: TReadOnlyProperty<string>, soundSpeedFunction: SoundSpeedFunction) {
+    super();
+
+    this.displayNameProperty = displayNameProperty;
+    this.soundSpeedFunction = soundSpeedFunction;
+  }
+
+  /**
+   * Get the speed of sound in this medium
+   * @param temperature Temperature in degrees Celsius (°C)
+   * @param humidity Relative humidity in percent (%), only affects air
+   * @returns Speed of sound in meters per second (m/s)
+   */
+  public getSoundSpeed(temperature: number, humidity: number): number {
+    return this.soundSpeedFunction(temperature, humidity);
+  }
+
+  // Air: ideal gas dependence on absolute temperature, with moist air slightly faster than dry air
+  public static readonly AIR = new Medium(
+    StringManager.getInstance().getMediumStrings().airStringProperty,
+    (temperature, humidity) => 331.3 * Math.sqrt(1 + temperature / MEDIUM.ZERO_CELSIUS) + 0.0124 * humidity,
+  );
+
+  // Helium: ideal gas with a light molecule, about three times faster than air
+  public static readonly HELIUM = new Medium(
+    StringManager.getInstance().getMediumStrings().heliumStringProperty,
+    (temperature) => 972 * Math.sqrt(1 + temperature / MEDIUM.ZERO_CELSIUS),
+  );
+
+  // Water: polynomial fit for fresh water, which freezes below 0 °C
+  public static readonly WATER = new Medium(
+    StringManager.getInstance().getMediumStrings().waterStringProperty,
+    (temperature) => {
+      const t = Math.max(temperature, 0) / 100; // in hundreds of degrees Celsius
+      return 1402.7 + 488 * t - 482 * t * t + 135 * t * t * t;
+    },
+  );
+
+  // Steel: longitudinal waves in a solid barely depend on temperature
+  public static readonly STEEL = new Medium(
+    StringManager.getInstance().getMediumStrings().steelStringProperty,
+    () => 5960,
+  );
+
+  // Gets a list of keys, values and mapping between them. For use in EnumerationProperty
+  public static readonly enumeration = new Enumeration(Medium);
+}
@@ -1,5 +1,6 @@
 import { BooleanProperty, Property, Vector2 } from "scenerystack";
 import { PHYSICS, TRAIL } from "./SimConstants";
+import type { Trajectory } from "./Trajectory";
 
 /**
  * Position history point interface
@@ -12,13 +13,21 @@ export interface PositionHistoryPoint {
 /**
  * MovableObject represents an object that can move in the simulation,
  * such as the sound source or the observer.
+ *
+ * An object either moves freely, with a constant velocity or a constant acceleration,
+ * or follows a scripted trajectory exactly.
  */
 export class MovableObject {
   // Position and movement properties
   public readonly positionProperty: Property<Vector2>; // in meters (m)
   public readonly velocityProperty: Property<Vector2>; // in meters per second (m/s)
+  public readonly accelerationProperty: Property<Vector2>; // in meters per second squared (m/s²)
   public readonly movingProperty: BooleanProperty;
 
+  // Scripted trajectory being followed, and the simulation time it started at in seconds (s)
+  private trajectory: Trajectory | null = null;
+  private trajectoryStartTime: number = 0;
+
   // Position history for trail
   private positionHistory: PositionHistoryPoint[] = [];
   private lastTrailSampleTime: number = 0;
@@ -30,15 +39,24 @@ export class MovableObject {
   constructor(initialPosition: Vector2) {
     this.positionProperty = new Property<Vector2>(initialPosition); // in meters (m)
     this.velocityProperty = new Property<Vector2>(new Vector2(0, 0)); // in meters per second (m/s)
+    this.accelerationProperty = new Property<Vector2>(new Vector2(0, 0)); // in meters per second squared (m/s²)
     this.movingProperty = new BooleanProperty(false);
   }
 
   /**
-   * Update position based on velocity and elapsed time
+   * Update position based on velocity, acceleration or trajectory and elapsed time
    * @param dt Elapsed time in seconds (s)
+   * @param time Simulation time at the end of the step in seconds (s)
    */
-  public updatePosition(dt: number): void {
-    if (this.movingProperty.value) {
+  public updatePosition(dt: number, time: number): void {
+    if (this.trajectory !== null) {
+      // Follow the trajectory exactly, whatever the size of the step
+      const trajectoryTime = time - this.trajectoryStartTime; // in seconds (s)
+      this.positionProperty.value = this.trajectory.getPosition(trajectoryTime); // in meters (m)
+      this.velocityProperty.value = this.trajectory.getVelocity(trajectoryTime); // in meters per second (m/s)
+    } else if (this.accelerationProperty.value.magnitude > 0) {
+      this.accelerate(dt);
+    } else if (this.movingProperty.value) {
       const position = this.positionProperty.value; // in meters (m)
       const velocity = this.velocityProperty.value; // in meters per second (m/s)
 
@@ -57,6 +75,85 @@ export class MovableObject {
     this.updatePositionHistory(dt);
   }
 
+  /**
+   * Move with a constant acceleration, using the exact kinematic equations for the step.
+   * An acceleration against the motion acts like brakes: the object comes to rest instead of reversing.
+   * @param dt Elapsed time in seconds (s)
+   */
+  private accelerate(dt: number): void {
+    const position = this.positionProperty.value; // in meters (m)
+    const velocity = this.velocityProperty.value; // in meters per second (m/s)
+    const acceleration = this.accelerationProperty.value; // in meters per second squared (m/s²)
+
+    // Time at which braking brings the velocity along the motion to zero, infinite when not braking (s)
+    const braking = velocity.dot(acceleration) < 0;
+    const stopTime = braking ? -velocity.magnitudeSquared / velocity.dot(acceleration) : Number.POSITIVE_INFINITY;
+    const moveTime = Math.min(dt, stopTime); // in seconds (s)
+
+    // x = x0 + v0 t + a t² / 2 and v = v0 + a t
+    this.positionProperty.value = position
+      .plus(velocity.timesScalar(moveTime))
+      .plus(acceleration.timesScalar((moveTime * moveTime) / 2)); // in meters (m)
+    this.movingProperty.value = true;
+
+    if (stopTime <= dt) {
+      this.velocityProperty.value = new Vector2(0, 0);
+      this.accelerationProperty.value = new Vector2(0, 0);
+      this.movingProperty.value = false;
+    } else {
+      this.velocityProperty.value = velocity.plus(acceleration.timesScalar(dt)); // in meters per second (m/s)
+    }
+  }
+
+  /**
+   * Start following a trajectory, replacing any free motion
+   * @param trajectory The trajectory to follow
+   * @param startTime Simulation time at which the trajectory starts in seconds (s)
+   */
+  public followTrajectory(trajectory: Trajectory, startTime: number): void {
+    this.trajectory = trajectory;
+    this.trajectoryStartTime = startTime;
+    this.accelerationProperty.value = new Vector2(0, 0);
+    this.positionProperty.value = trajectory.getPosition(0); // in meters (m)
+    this.velocityProperty.value = trajectory.getVelocity(0); // in meters per second (m/s)
+    this.movingProperty.value = true;
+  }
+
+  /**
+   * Stop following the trajectory and accelerating, keeping the current velocity,
+   * for when the user takes over the motion
+   */
+  public stopScriptedMotion(): void {
+    this.trajectory = null;
+    this.accelerationProperty.value = new Vector2(0, 0);
+  }
+
+  /**
+   * Get the trajectory being followed
+   * @returns The trajectory, or null when moving freely
+   */
+  public getTrajectory(): Trajectory | null {
+    return this.trajectory;
+  }
+
+  /**
+   * Get the simulation time at which the trajectory started
+   * @returns Start time in seconds (s)
+   */
+  public getTrajectoryStartTime(): number {
+    return this.trajectoryStartTime;
+  }
+
+  /**
+   * Restore the trajectory that was being followed at an earlier time, without moving the object
+   * @param trajectory The trajectory, or null when the object was moving freely
+   * @param startTime Simulation time at which the trajectory started in seconds (s)
+   */
+  public restoreTrajectory(trajectory: Trajectory | null, startTime: number): void {
+    this.trajectory = trajectory;
+    this.trajectoryStartTime = startTime;
+  }
+
   /**
    * Update position history for trail
    * @param dt Elapsed time in seconds (s)
@@ -112,6 +209,7 @@ export class MovableObject {
     this.positionProperty.value = initialPosition.copy(); // in meters (m)
     this.velocityProperty.value = new Vector2(0, 0); // in meters per second (m/s)
     this.movingProperty.value = false;
+    this.stopScriptedMotion();
 
     // Clear position history
     this.positionHistory = [];
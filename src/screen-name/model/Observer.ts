@@ -0,0 +1,57 @@
+import { NumberProperty, Property, type Vector2 } from "scenerystack";
+import { MovableObject } from "./MovableObject";
+import { PHYSICS, SOUND_DATA } from "./SimConstants";
+import { WaveformManager } from "./WaveformManager";
+
+/**
+ * Observer is a movable object that listens to the waves. Each observer hears
+ * its own frequency and keeps its own record of the observed waveform, so that
+ * several listeners can be compared at the same moment.
+ */
+export class Observer extends MovableObject {
+  // Frequency heard from the active source in Hertz (Hz)
+  public readonly observedFrequencyProperty: NumberProperty;
+
+  // Frequency the active source emitted when it sent the signal being heard, in Hertz (Hz).
+  // Comparing it with the observed frequency separates the Doppler shift from changes of pitch at the source.
+  public readonly sourceFrequencyProperty: NumberProperty;
+
+  // Intensity level of everything heard in decibels (dB), null before any wave arrives
+  public readonly intensityLevelProperty: Property<number | null>;
+
+  // Observed waveform of this observer (the emitted waveform is kept by the model)
+  public readonly waveformManager: WaveformManager;
+
+  // Position the observer starts from and returns to on reset, in meters (m)
+  public readonly initialPosition: Vector2;
+
+  // Index of the observer in the order observers were added, used to pick its color (dimensionless)
+  public readonly colorIndex: number;
+
+  /**
+   * Create a new observer
+   * @param initialPosition Initial position vector in meters (m)
+   * @param colorIndex Index used to pick the color of the observer and its waveform
+   */
+  constructor(initialPosition: Vector2, colorIndex: number) {
+    super(initialPosition);
+
+    this.observedFrequencyProperty = new NumberProperty(PHYSICS.EMITTED_FREQ);
+    this.sourceFrequencyProperty = new NumberProperty(PHYSICS.EMITTED_FREQ);
+    this.intensityLevelProperty = new Property<number | null>(null);
+    this.waveformManager = new WaveformManager(SOUND_DATA.ARRAY_SIZE);
+    this.initialPosition = initialPosition;
+    this.colorIndex = colorIndex;
+  }
+
+  /**
+   * Reset the observer to its initial position, with nothing heard yet
+   */
+  public override reset(): void {
+    super.reset(this.initialPosition);
+    this.observedFrequencyProperty.value = PHYSICS.EMITTED_FREQ;
+    this.sourceFrequencyProperty.value = PHYSICS.EMITTED_FREQ;
+    this.intensityLevelProperty.reset();
+    this.waveformManager.reset(SOUND_DATA.ARRAY_SIZE);
+  }
+}
@@ -0,0 +1,182 @@
+import { Vector2 } from "scenerystack";
+import { KeyframeHistory } from "./KeyframeHistory";
+import { TIMESTEP } from "./SimConstants";
+
+// How far a wavefront has travelled through the medium, and how far the medium has carried it, since time zero
+export type PropagationSample = {
+  time: number; // in seconds (s)
+  distance: number; // distance travelled through the medium in meters (m)
+  drift: Vector2; // displacement of the medium in meters (m)
+};
+
+/**
+ * PropagationHistory accumulates the distance travelled by wavefronts and the drift of the medium
+ * as the simulation runs. Since the wave speed and the wind can change at any time, the radius of a
+ * wave is the distance accumulated since its birth rather than its age times the current speed,
+ * and the time at which a wave reaches a given distance is found by inverting the accumulated distance.
+ * The samples are kept in a ring buffer holding one per step over a given duration.
+ */
+export class PropagationHistory {
+  // Samples in order of increasing time, the accumulated distance increases with them
+  private readonly samples: KeyframeHistory<PropagationSample>;
+
+  /**
+   * Create a new propagation history, starting at time zero
+   * @param duration Span of time that the samples cover in seconds (s), until they are pruned
+   */
+  constructor(duration: number) {
+    // One sample per step, and those of the steps taken between prunings
+    this.samples = new KeyframeHistory(Math.ceil(duration / TIMESTEP.DT) + TIMESTEP.STEPS_PER_SAMPLE);
+    this.reset();
+  }
+
+  /**
+   * Record the propagation during a step
+   * @param time Simulation time at the end of the step in seconds (s)
+   * @param dt Elapsed time in seconds (s)
+   * @param waveSpeed Speed of the waves through the medium during the step in meters per second (m/s)
+   * @param mediumVelocity Velocity of the medium during the step in meters per second (m/s)
+   */
+  public advance(time: number, dt: number, waveSpeed: number, mediumVelocity: Vector2): void {
+    const last = this.getLastSample();
+    this.samples.push({
+      time: time,
+      distance: last.distance + waveSpeed * dt, // in meters (m)
+      drift: last.drift.plus(mediumVelocity.timesScalar(dt)), // in meters (m)
+    });
+  }
+
+  /**
+   * Get the distance that wavefronts have travelled through the medium since time zero
+   * @param time Simulation time in seconds (s)
+   * @returns Accumulated distance in meters (m)
+   */
+  public getDistance(time: number): number {
+    const [before, after, fraction] = this.findSamples((sample) => sample.time, time);
+    return before.distance + (after.distance - before.distance) * fraction;
+  }
+
+  /**
+   * Get the displacement of the medium since time zero
+   * @param time Simulation time in seconds (s)
+   * @returns Accumulated drift in meters (m)
+   */
+  public getDrift(time: number): Vector2 {
+    const [before, after, fraction] = this.findSamples((sample) => sample.time, time);
+    return before.drift.blend(after.drift, fraction);
+  }
+
+  /**
+   * Get the time at which the accumulated distance reached a value
+   * @param distance Accumulated distance in meters (m)
+   * @returns Simulation time in seconds (s)
+   */
+  public getTimeAtDistance(distance: number): number {
+    const [before, after, fraction] = this.findSamples((sample) => sample.distance, distance);
+    return before.time + (after.time - before.time) * fraction;
+  }
+
+  /**
+   * Get the time at which a wave born at a given time reached a distance from its center
+   * @param birthTime Time the wave was emitted in seconds (s)
+   * @param distance Distance from the center of the wave in meters (m)
+   * @returns Simulation time in seconds (s)
+   */
+  public getArrivalTime(birthTime: number, distance: number): number {
+    return this.getTimeAtDistance(this.getDistance(birthTime) + distance);
+  }
+
+  /**
+   * Get the number of recorded samples
+   */
+  public get length(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * Get a recorded sample by its position in time
+   * @param index Position of the sample, 0 for the oldest
+   * @returns The sample, or undefined outside the history
+   */
+  public get(index: number): PropagationSample | undefined {
+    return this.samples.get(index);
+  }
+
+  /**
+   * Find the sample that starts the step containing a time
+   * @param time Simulation time in seconds (s)
+   * @returns Position of the last sample at or before the time, short of the last sample, 0 for the oldest
+   */
+  public findIndexBefore(time: number): number {
+    return this.samples.findIndexBefore(time);
+  }
+
+  /**
+   * Forget the propagation after a time, for when time runs backward
+   * @param time Simulation time in seconds (s)
+   */
+  public truncate(time: number): void {
+    const sampleAtTime: PropagationSample = {
+      time: time,
+      distance: this.getDistance(time),
+      drift: this.getDrift(time),
+    };
+    this.samples.truncate(time);
+    if (this.samples.getNewest()?.time !== time) {
+      this.samples.push(sampleAtTime);
+    }
+  }
+
+  /**
+   * Forget the propagation before a time, keeping one sample at or before it
+   * @param time Simulation time in seconds (s)
+   */
+  public prune(time: number): void {
+    this.samples.prune(time);
+  }
+
+  /**
+   * Reset the history to time zero
+   */
+  public reset(): void {
+    this.samples.clear();
+    this.samples.push({ time: 0, distance: 0, drift: new Vector2(0, 0) });
+  }
+
+  /**
+   * Get the most recent sample
+   */
+  private getLastSample(): PropagationSample {
+    return this.samples.getNewest() ?? { time: 0, distance: 0, drift: new Vector2(0, 0) };
+  }
+
+  /**
+   * Find the samples on either side of a value, using binary search since both time and distance increase
+   * @param getKey Returns the time or the distance of a sample
+   * @param value The time or distance to look up
+   * @returns The samples before and after the value, and how far the value is between them (dimensionless).
+   *          Values outside the history extend the first or last segment.
+   */
+  private findSamples(
+    getKey: (sample: PropagationSample) => number,
+    value: number,
+  ): [PropagationSample, PropagationSample, number] {
+    const last = this.getLastSample();
+    let low = 0;
+    let high = this.samples.length - 1;
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      const middleSample = this.samples.get(middle);
+      if (middleSample !== undefined && getKey(middleSample) <= value) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    const before = this.samples.get(low) ?? last;
+    const after = this.samples.get(high) ?? last;
+    const span = getKey(after) - getKey(before);
+    return [before, after, span === 0 ? 0 : (value - getKey(before)) / span];
+  }
+}
@@ -0,0 +1,86 @@
+import { BooleanProperty, type Vector2 } from "scenerystack";
+import { MovableObject } from "./MovableObject";
+
+/**
+ * Reflector is a flat surface that sends back echoes of the waves hitting it,
+ * either a fixed wall or a plate that can be moved around.
+ *
+ * The surface is a segment centered on the position of the object. A moving reflector
+ * shifts the frequency twice: once as an observer of the incoming waves and once
+ * as the source of the echo.
+ */
+export class Reflector extends MovableObject {
+  // Whether the reflector is present in the play area
+  public readonly enabledProperty: BooleanProperty;
+
+  // Position the reflector starts from and returns to on reset, in meters (m)
+  public readonly initialPosition: Vector2;
+
+  // Unit vector along the surface (dimensionless)
+  public readonly direction: Vector2;
+
+  // Length of the surface in meters (m)
+  public readonly length: number;
+
+  // Whether the reflector can be dragged, walls stay where they are
+  public readonly movable: boolean;
+
+  /**
+   * Create a new reflector
+   * @param initialPosition Initial position of the center of the surface in meters (m)
+   * @param direction Unit vector along the surface (dimensionless)
+   * @param length Length of the surface in meters (m)
+   * @param movable Whether the reflector can be dragged
+   */
+  constructor(initialPosition: Vector2, direction: Vector2, length: number, movable: boolean) {
+    super(initialPosition);
+
+    this.enabledProperty = new BooleanProperty(false);
+    this.initialPosition = initialPosition;
+    this.direction = direction.normalized();
+    this.length = length;
+    this.movable = movable;
+  }
+
+  /**
+   * Get the two ends of the surface
+   * @returns The ends of the surface in meters (m)
+   */
+  public getEndpoints(): [Vector2, Vector2] {
+    const halfLength = this.direction.timesScalar(this.length / 2); // in meters (m)
+    const center = this.positionProperty.value;
+    return [center.minus(halfLength), center.plus(halfLength)];
+  }
+
+  /**
+   * Find the point of the surface that is closest to a position
+   * @param position Position in meters (m)
+   * @returns The closest point of the surface in meters (m)
+   */
+  public getClosestPoint(position: Vector2): Vector2 {
+    const center = this.positionProperty.value;
+    const alongSurface = position.minus(center).dot(this.direction); // in meters (m)
+    const clamped = Math.max(-this.length / 2, Math.min(this.length / 2, alongSurface)); // in meters (m)
+    return center.plus(this.direction.timesScalar(clamped));
+  }
+
+  /**
+   * Mirror a position across the line of the surface
+   * @param position Position in meters (m)
+   * @returns The mirror image of the position in meters (m)
+   */
+  public mirror(position: Vector2): Vector2 {
+    const center = this.positionProperty.value;
+    const offset = position.minus(center); // in meters (m)
+    const alongSurface = this.direction.timesScalar(offset.dot(this.direction)); // in meters (m)
+    return center.plus(alongSurface.timesScalar(2).minus(offset));
+  }
+
+  /**
+   * Reset the reflector to its initial position and take it out of the play area
+   */
+  public override reset(): void {
+    super.reset(this.initialPosition);
+    this.enabledProperty.reset();
+  }
+}
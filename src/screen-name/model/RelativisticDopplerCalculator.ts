@@ -0,0 +1,55 @@
+import type { Vector2 } from "scenerystack";
+import { DopplerCalculator } from "./DopplerCalculator";
+
+/**
+ * RelativisticDopplerCalculator handles the Doppler effect for light waves.
+ *
+ * Light needs no medium, so only the velocities of the source and observer matter, and time dilation
+ * of the moving clocks adds the transverse Doppler effect: a source moving across the line of sight
+ * is still redshifted, where the classical formula predicts no shift at all.
+ */
+export class RelativisticDopplerCalculator extends DopplerCalculator {
+  /**
+   * Shift a frequency from a moving emitter to a moving receiver using the relativistic Doppler formula
+   * @param frequency Frequency sent by the emitter in Hertz (Hz)
+   * @param emitterVelocity Velocity of the emitter in meters per second (m/s)
+   * @param receiverVelocity Velocity of the receiver in meters per second (m/s)
+   * @param direction Unit vector along which the light travels from the emitter to the receiver, or its horizontal
+   *                  part when the emitter is in the air (dimensionless)
+   * @param lightSpeed Speed of light in meters per second (m/s)
+   * @param _mediumVelocity Ignored, light does not travel through a medium
+   * @returns The frequency seen by the receiver in Hertz (Hz)
+   */
+  protected override shiftFrequency(
+    frequency: number,
+    emitterVelocity: Vector2,
+    receiverVelocity: Vector2,
+    direction: Vector2,
+    lightSpeed: number,
+    _mediumVelocity: Vector2,
+  ): number {
+    // Velocities as fractions of the speed of light (dimensionless)
+    const sourceBeta = emitterVelocity.timesScalar(1 / lightSpeed);
+    const observerBeta = receiverVelocity.timesScalar(1 / lightSpeed);
+
+    // Calculate observed frequency using the relativistic Doppler formula:
+    // f' = f * γ_o (1 - β_o·n) / (γ_s (1 - β_s·n))
+    // where n is the direction of propagation, β = v / c and γ = 1 / sqrt(1 - β²)
+    const observedFrequency =
+      (frequency * // in Hertz (Hz)
+        this.lorentzFactor(observerBeta.magnitude) *
+        (1 - observerBeta.dot(direction))) /
+      (this.lorentzFactor(sourceBeta.magnitude) * (1 - sourceBeta.dot(direction)));
+
+    return observedFrequency; // in Hertz (Hz)
+  }
+
+  /**
+   * Calculate the Lorentz factor γ = 1 / sqrt(1 - β²)
+   * @param beta Speed as a fraction of the speed of light (dimensionless)
+   * @returns The Lorentz factor (dimensionless)
+   */
+  private lorentzFactor(beta: number): number {
+    return 1 / Math.sqrt(1 - beta * beta);
+  }
+}
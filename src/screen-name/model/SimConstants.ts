@@ -19,16 +19,113 @@ export type WaveformPoint = {
 
 // Physical constants in SI units
 export const PHYSICS = {
-  SOUND_SPEED: 343.0, // Speed of sound in air (m/s) at room temperature
   EMITTED_FREQ: 4, // Base frequency of emitted sound (Hz)
   MIN_VELOCITY_MAG: 0.1, // Minimum velocity magnitude (m/s)
   POSITION_TO_VELOCITY_FACTOR: 0.1, // Factor to convert position difference to velocity (1/time)
   MAX_SPEED_FACTOR: 0.9, // Factor to limit maximum speed relative to sound speed
 } as const;
 
+// Medium the sound travels through
+export const MEDIUM = {
+  INITIAL_TEMPERATURE: 20, // Room temperature (°C)
+  MIN_TEMPERATURE: -20, // Coldest temperature (°C)
+  MAX_TEMPERATURE: 40, // Warmest temperature (°C)
+  INITIAL_HUMIDITY: 50, // Relative humidity of air (%)
+  ZERO_CELSIUS: 273.15, // Temperature of 0 °C in Kelvin (K)
+} as const;
+
+// Loudness of the waves away from the source
+export const AMPLITUDE = {
+  REFERENCE_DISTANCE: 500, // Distance within which the amplitude is full, beyond it falls off as 1/r (m)
+  REFERENCE_LEVEL: 80, // Intensity level at the reference distance (dB)
+  ABSORPTION_COEFFICIENT: 0.00025, // Amplitude absorption at the reference frequency (1/m)
+  ABSORPTION_REFERENCE_FREQUENCY: 4, // Frequency of the absorption coefficient, absorption grows as f² (Hz)
+} as const;
+
+// Multiple sound sources
+export const SOURCES = {
+  MAX_COUNT: 4, // Largest number of sources that can be placed
+  SPACING: 800, // Vertical distance between the starting positions of added sources (m)
+  FREQUENCY_OFFSET: 0.5, // Frequency difference between each added source and the previous one (Hz)
+} as const;
+
+// Changes of the emitted frequency over time, as multiples of the frequency set on the source
+export const MODULATION = {
+  CHIRP_SPAN: 1, // Rise of the frequency over one sweep of a chirp, which then restarts (dimensionless)
+  CHIRP_PERIOD: 4, // Duration of one sweep of a chirp (s)
+  SIREN_DEPTH: 0.25, // Largest relative deviation of the frequency of a wailing siren (dimensionless)
+  SIREN_PERIOD: 2, // Duration of one rise and fall of a wailing siren (s)
+  TWO_TONE_RATIO: 1.25, // Ratio of the high tone to the low tone of a two-tone siren, a major third (dimensionless)
+  TWO_TONE_PERIOD: 2, // Duration of one low tone followed by one high tone (s)
+  BAT_CALL_SPAN: 1, // Fall of the frequency over one call of a bat, from twice the set frequency (dimensionless)
+  BAT_CALL_DURATION: 1, // Duration of one call of a bat, silent until the next call (s)
+  BAT_CALL_PERIOD: 4, // Time between the starts of two calls of a bat (s)
+} as const;
+
+// Multiple observers
+export const OBSERVERS = {
+  MAX_COUNT: 4, // Largest number of observers that can be placed
+} as const;
+
+// Reflectors (a fixed wall and a movable plate) that send back echoes
+export const REFLECTORS = {
+  WALL_POSITION: new Vector2(4000, 0), // Center of the wall, beyond the observer (m)
+  WALL_LENGTH: 5000, // Length of the wall (m)
+  PLATE_POSITION: new Vector2(2500, 1500), // Initial center of the movable plate (m)
+  PLATE_LENGTH: 800, // Length of the movable plate (m)
+} as const;
+
+// Rotating source scenario (a buzzer whirled on a string), circling around the initial source position
+export const ROTATION = {
+  INITIAL_RADIUS: 500, // Radius of the circle (m)
+  MIN_RADIUS: 100, // Smallest radius (m)
+  MAX_RADIUS: 1000, // Largest radius (m)
+  INITIAL_RATE: 0.2, // Angular speed, positive counterclockwise (rad/s)
+  MIN_RATE: 0.05, // Slowest angular speed (rad/s)
+  MAX_RATE: 0.5, // Fastest angular speed (rad/s)
+} as const;
+
+// Aircraft flyover scenario
+export const FLYOVER = {
+  INITIAL_ALTITUDE: 300, // Height of the source above the ground (m)
+  MAX_ALTITUDE: 1000, // Highest altitude (m)
+  SPEED: 150, // Speed of the aircraft along its level flight path (m/s)
+} as const;
+
+// Train braking scenario
+export const TRAIN = {
+  SPEED: 100, // Speed of the train when the scenario starts (m/s)
+  DECELERATION: 2, // Braking deceleration, bringing the train to rest 2500 m further on (m/s²)
+} as const;
+
+// Race car scenario, lapping a rectangular track through its corners
+export const RACE_TRACK = {
+  CORNERS: [new Vector2(-1000, -600), new Vector2(600, -600), new Vector2(600, 600), new Vector2(-1000, 600)], // (m)
+  SPEED: 120, // Speed of the car along the track (m/s)
+} as const;
+
+// Supersonic motion
+export const SUPERSONIC = {
+  MAX_SPEED_FACTOR: 2.5, // Factor to limit maximum speed relative to sound speed when supersonic motion is enabled
+  MIN_DOPPLER_DENOMINATOR_FACTOR: 0.01, // Smallest allowed |v - v_s| in the Doppler formula, relative to sound speed
+} as const;
+
+// Light waves, with the speed of light slowed down so that the wavefronts can be followed on screen
+export const LIGHT = {
+  SCALED_SPEED: 343, // stands in for the speed of light, in meters per second (m/s)
+} as const;
+
+// Wind (moving medium) properties
+export const WIND = {
+  MAX_SPEED: 100, // Maximum wind speed (m/s)
+  INITIAL_SPEED: 0, // Initial wind speed (m/s)
+  INITIAL_DIRECTION: 0, // Initial wind direction, measured counterclockwise from +x (rad)
+} as const;
+
 // Wave properties
 export const WAVE = {
   MAX_AGE: 10, // Maximum age of a wave in seconds (s)
+  MAX_ECHOES: 10000, // Most echoes kept for time reversal, the oldest are forgotten first
 } as const;
 
 // Initial positions (in meters)
@@ -46,8 +143,16 @@ export const SOUND_DATA = {
 export const TIME_SPEED = {
   SLOW: 0.25, // Slow simulation speed (dimensionless)
   NORMAL: 1.0, // Normal simulation speed (dimensionless)
+  FAST: 2.0, // Fast-forward simulation speed (dimensionless)
   REVERSE: -1.0, // Reverse simulation speed (dimensionless)
-  HISTORY_BUFFER_SIZE: 1000, // Number of simulation steps to store for time reversal
+  HISTORY_DURATION: 180, // Length of the history kept for time reversal in seconds (s)
+} as const;
+
+// Fixed timestep, so that runs with the same inputs give the same results whatever the frame rate
+export const TIMESTEP = {
+  DT: 1 / 240, // Model time advanced by each step (s)
+  STEPS_PER_SAMPLE: 4, // Steps between samples of the waveforms and of the states kept for time reversal
+  MAX_STEPS_PER_FRAME: 40, // Most steps taken for one frame, a slower frame drops the time it cannot catch up on
 } as const;
 
 // Scale factors for converting between model and view coordinates
@@ -64,7 +169,7 @@ export const SCALE = {
 } as const;
 
 export const WAVEFORM = {
-  HISTORY_BUFFER_SIZE: 1000, // Number of points in waveform history buffer (dimensionless)
+  PULSE_DUTY_CYCLE: 0.1, // Fraction of each period during which a pulse train is on (dimensionless)
 } as const;
 
 /**
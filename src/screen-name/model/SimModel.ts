@@ -2,32 +2,86 @@ import {
   BooleanProperty,
   createObservableArray,
   DerivedProperty,
+  DynamicProperty,
+  Emitter,
   Enumeration,
   EnumerationProperty,
   EnumerationValue,
+  Multilink,
   NumberProperty,
   type ObservableArray,
   Property,
+  Range,
   RangeWithValue,
   TimeSpeed,
   type TReadOnlyProperty,
   Vector2,
 } from "scenerystack";
 import { StringManager } from "../../i18n/StringManager";
-import { DopplerCalculator } from "./DopplerCalculator";
-import { MovableObject } from "./MovableObject";
-import { INITIAL_POSITIONS, PHYSICS, SCALE, SOUND_DATA, TIME_SPEED, TRAIL, type WaveformPoint } from "./SimConstants";
+import { AmplitudeCalculator } from "./AmplitudeCalculator";
+import { CircularTrajectory } from "./CircularTrajectory";
+import { DopplerCalculator, type RetardedEmission } from "./DopplerCalculator";
+import { FixedTimestep } from "./FixedTimestep";
+import type { FrequencyModulation } from "./FrequencyModulation";
+import { KeyframeHistory } from "./KeyframeHistory";
+import { Medium } from "./Medium";
+import type { MovableObject } from "./MovableObject";
+import { Observer } from "./Observer";
+import { PropagationHistory } from "./PropagationHistory";
+import { Reflector } from "./Reflector";
+import { RelativisticDopplerCalculator } from "./RelativisticDopplerCalculator";
+import {
+  FLYOVER,
+  INITIAL_POSITIONS,
+  LIGHT,
+  MEDIUM,
+  OBSERVERS,
+  PHYSICS,
+  RACE_TRACK,
+  REFLECTORS,
+  ROTATION,
+  SCALE,
+  SOUND_DATA,
+  SOURCES,
+  SUPERSONIC,
+  TIME_SPEED,
+  TIMESTEP,
+  TRAIL,
+  TRAIN,
+  WAVE,
+  type WaveformPoint,
+  WIND,
+} from "./SimConstants";
+import { SoundSource } from "./SoundSource";
+import type { Trajectory } from "./Trajectory";
+import type { ObservedContribution } from "./WaveformManager";
 import { WaveformManager } from "./WaveformManager";
 import { WaveGenerator } from "./WaveGenerator";
+import { WaveShape } from "./WaveShape";
+import { WaypointTrajectory } from "./WaypointTrajectory";
+
+// How an echo was sent back by a reflector
+export type WaveReflection = {
+  reflector: Reflector; // reflector that sent the echo back
+  time: number; // time the wavefront reached the reflector in seconds (s)
+  reflectorVelocity: Vector2; // reflector velocity at reflection in meters per second (m/s)
+  incidentDirection: Vector2; // unit vector from the source wave center to the reflector (dimensionless)
+  startAngle: number; // the echo covers the arc counterclockwise from startAngle to endAngle, in radians (rad)
+  endAngle: number; // in radians (rad)
+};
 
 // Export the Wave type
 export type Wave = {
-  position: Vector2;
+  source: SoundSource; // source that emitted the wave
+  position: Vector2; // current center, drifts with the medium
+  emissionPosition: Vector2; // source position at emission
+  emissionAltitude: number; // height of the center above the ground in meters (m)
   radius: number;
   birthTime: number;
   sourceVelocity: Vector2;
   sourceFrequency: number;
   phaseAtEmission: number;
+  reflection: WaveReflection | null; // null for waves coming straight from the source
 };
 
 // Wave detection type for microphone
@@ -42,14 +96,42 @@ export type PositionHistoryPoint = {
   timestamp: number;
 };
 
-// Simulation state history type for time reversal
+// Mach cone of a supersonic source, the envelope of its wavefronts
+export type MachCone = {
+  apex: Vector2; // source position in meters (m)
+  axis: Vector2; // unit vector pointing from the apex into the cone (dimensionless)
+  halfAngle: number; // in radians (rad)
+  length: number; // length of each edge, out to the oldest tangent wavefront, in meters (m)
+};
+
+// Motion of a moving object, saved for time reversal
+export type MotionState = {
+  position: Vector2;
+  velocity: Vector2;
+  acceleration: Vector2;
+  trajectory: Trajectory | null; // scripted trajectory being followed, null when moving freely
+  trajectoryStartTime: number; // in seconds (s)
+};
+
+// Keyframe of the simulation kept for time reversal. The waves are not kept: they are regenerated
+// from the emission history of each source.
 export type SimulationState = {
-  time: number;
-  sourcePosition: Vector2;
-  observerPosition: Vector2;
-  sourceVelocity: Vector2;
-  observerVelocity: Vector2;
-  waves: Wave[];
+  time: number; // in seconds (s)
+  sourceStates: MotionState[]; // one per source, in order
+  observerStates: MotionState[]; // one per observer, in order
+  reflectorStates: MotionState[]; // one per reflector, in order
+  emittedPhases: number[]; // phase of the signal of each source, in order, in radians (rad)
+  windVelocity: Vector2; // in meters per second (m/s)
+  emittedValue: number; // latest value on the emitted waveform graph (dimensionless)
+  observedValues: number[]; // latest value on the observed waveform graph of each observer, in order (dimensionless)
+};
+
+// Options for the SimModel, so that each screen can pick its own physics
+export type SimModelOptions = {
+  // Doppler formula used for sound waves, which travel through a medium
+  soundDopplerCalculator?: DopplerCalculator;
+  // Doppler formula used for light waves, which need no medium
+  lightDopplerCalculator?: DopplerCalculator;
 };
 
 export class Scenario extends EnumerationValue {
@@ -92,6 +174,20 @@ export class Scenario extends EnumerationValue {
     StringManager.getInstance().getScenarioStrings().perpendicularStringProperty,
   );
 
+  public static readonly ROTATING_SOURCE = new Scenario(
+    StringManager.getInstance().getScenarioStrings().rotatingSourceStringProperty,
+  );
+
+  public static readonly FLYOVER = new Scenario(StringManager.getInstance().getScenarioStrings().flyoverStringProperty);
+
+  public static readonly TRAIN_BRAKING = new Scenario(
+    StringManager.getInstance().getScenarioStrings().trainBrakingStringProperty,
+  );
+
+  public static readonly RACE_CAR = new Scenario(
+    StringManager.getInstance().getScenarioStrings().raceCarStringProperty,
+  );
+
   // Gets a list of keys, values and mapping between them. For use in EnumerationProperty
   public static readonly enumeration = new Enumeration(Scenario);
 }
@@ -104,13 +200,43 @@ export class Scenario extends EnumerationValue {
  */
 export class SimModel {
   // Properties for physics simulation
-  public readonly soundSpeedProperty: NumberProperty; // in meters per second (m/s)
-  public readonly emittedFrequencyProperty: NumberProperty; // in Hertz (Hz)
+  public readonly soundSpeedProperty: NumberProperty; // derived from the medium, in meters per second (m/s)
+  public readonly emittedFrequencyProperty: DynamicProperty<number, number, SoundSource>; // active source, in Hz
+  // How the frequency of the active source changes over time
+  public readonly modulationProperty: DynamicProperty<FrequencyModulation, FrequencyModulation, SoundSource>;
   public readonly scenarioProperty: EnumerationProperty<Scenario>;
   public readonly timeSpeedProperty: EnumerationProperty<TimeSpeed>; // dimensionless factor
-  public readonly soundSpeedRange: RangeWithValue; // in meters per second (m/s)
+  public readonly playBackwardProperty: BooleanProperty; // whether playing runs time backward
+  public readonly waveShapeProperty: EnumerationProperty<WaveShape>; // shape of the signal emitted by every source
   public readonly frequencyRange: RangeWithValue; // in Hertz (Hz)
 
+  // Medium properties, from which the speed of sound is derived
+  public readonly mediumProperty: EnumerationProperty<Medium>;
+  public readonly temperatureProperty: NumberProperty; // in degrees Celsius (°C)
+  public readonly humidityProperty: NumberProperty; // relative humidity of air in percent (%)
+  public readonly temperatureRange: RangeWithValue; // in degrees Celsius (°C)
+
+  // Wind (velocity of the medium) properties
+  public readonly windSpeedProperty: NumberProperty; // in meters per second (m/s)
+  public readonly windDirectionProperty: NumberProperty; // in radians (rad)
+  public readonly windVelocityProperty: TReadOnlyProperty<Vector2>; // in meters per second (m/s)
+  public readonly windSpeedRange: RangeWithValue; // in meters per second (m/s)
+  public readonly windDirectionRange: RangeWithValue; // in radians (rad)
+
+  // Rotating source scenario properties
+  public readonly rotationRadiusProperty: NumberProperty; // in meters (m)
+  public readonly rotationRateProperty: NumberProperty; // in radians per second (rad/s)
+  public readonly rotationRadiusRange: RangeWithValue; // in meters (m)
+  public readonly rotationRateRange: RangeWithValue; // in radians per second (rad/s)
+
+  // Flyover scenario properties
+  public readonly altitudeProperty: NumberProperty; // height of the flying source above the ground in meters (m)
+  public readonly altitudeRange: RangeWithValue; // in meters (m)
+
+  // Light mode properties
+  public readonly lightModeProperty: BooleanProperty; // Whether the waves are light waves rather than sound waves
+  public readonly mediumVelocityProperty: TReadOnlyProperty<Vector2>; // wind, or zero for light, in m/s
+
   // Microphone properties
   public readonly microphonePositionProperty: Property<Vector2>; // Vector2 position of microphone
   public readonly microphoneEnabledProperty: BooleanProperty; // Whether microphone is enabled
@@ -118,9 +244,39 @@ export class SimModel {
   private readonly waveDetectionCooldown: number = 0.01; // Cooldown between detections (s)
   public readonly waveDetectedProperty: BooleanProperty; // Emits when a wave is detected
 
+  // Supersonic motion properties
+  public readonly supersonicEnabledProperty: BooleanProperty; // Whether speeds above the speed of sound are allowed
+  public readonly machNumberProperty: TReadOnlyProperty<number>; // source speed relative to the medium (dimensionless)
+  public readonly sonicBoomEmitter: Emitter<[Vector2]>; // Emits the listener position (m) when a shock front passes
+  private readonly observersInsideMachCone: Set<Observer> = new Set();
+  private microphoneInsideMachCone: boolean = false;
+
+  // Amplitude properties
+  public readonly absorptionEnabledProperty: BooleanProperty; // Whether the medium absorbs the sound as it travels
+  public readonly intensityLevelProperty: DynamicProperty<number | null, number | null, Observer>; // active, in dB
+
   // Source and observer objects
-  private readonly source: MovableObject; // position in meters (m)
-  private readonly observer: MovableObject; // position in meters (m)
+  private readonly source: SoundSource; // the first source, which is always present
+  public readonly observer: Observer; // the first observer, which is always present
+
+  // Sound sources, beginning with the first source
+  public readonly sources: ObservableArray<SoundSource>;
+  public readonly sourceCountProperty: NumberProperty;
+  public readonly sourceCountRange: RangeWithValue;
+  public readonly activeSourceProperty: Property<SoundSource>; // Source that the controls and readouts apply to
+  public readonly activeSourcePositionProperty: TReadOnlyProperty<Vector2>; // in meters (m)
+
+  // Observers, beginning with the first observer
+  public readonly observers: ObservableArray<Observer>;
+  public readonly observerCountProperty: NumberProperty;
+  public readonly observerCountRange: RangeWithValue;
+  public readonly activeObserverProperty: Property<Observer>; // Observer that the line of sight and readouts apply to
+  public readonly activeObserverPositionProperty: TReadOnlyProperty<Vector2>; // in meters (m)
+
+  // Reflectors, a fixed wall and a plate that can be moved around
+  public readonly wall: Reflector;
+  public readonly plate: Reflector;
+  public readonly reflectors: Reflector[];
 
   // For convenience, expose properties directly
   public readonly sourcePositionProperty; // in meters (m)
@@ -133,34 +289,49 @@ export class SimModel {
   // Distance between source and observer
   public readonly sourceObserverDistanceProperty: TReadOnlyProperty<number>;
 
-  // Position history for trails
-  private sourcePositionHistory: PositionHistoryPoint[] = [];
-  private observerPositionHistory: PositionHistoryPoint[] = [];
+  // Position history for trails, for each source and observer
+  private readonly positionHistories: Map<MovableObject, PositionHistoryPoint[]> = new Map();
   private lastTrailSampleTime: number = 0;
 
   // Simulation state properties
   public readonly simulationTimeProperty: NumberProperty; // in seconds (s)
-  public readonly observedFrequencyProperty: NumberProperty; // in Hertz (Hz)
+  public readonly observedFrequencyProperty: DynamicProperty<number, number, Observer>; // active observer, in Hz
+  public readonly sourceFrequencyProperty: DynamicProperty<number, number, Observer>; // emitted when heard, in Hz
   public readonly playProperty: BooleanProperty;
 
-  // Time reversal properties
-  private simulationStateHistory: SimulationState[] = [];
+  // Span of the simulation time that can be gone back to, in seconds (s)
+  public readonly recordedTimeRangeProperty: Property<Range>;
+
+  // Keyframes for time reversal, one every TIMESTEP.STEPS_PER_SAMPLE steps over the last TIME_SPEED.HISTORY_DURATION
+  private readonly simulationStateHistory: KeyframeHistory<SimulationState> = new KeyframeHistory(
+    TIME_SPEED.HISTORY_DURATION / (TIMESTEP.DT * TIMESTEP.STEPS_PER_SAMPLE),
+  );
 
   // Wave collection
   public readonly waves: ObservableArray<Wave>; // radius in meters (m)
 
   // Specialized component classes
-  private readonly waveGenerator: WaveGenerator;
+  private readonly waveGenerators: Map<SoundSource, WaveGenerator> = new Map();
+  private readonly propagationHistory: PropagationHistory = new PropagationHistory(
+    TIME_SPEED.HISTORY_DURATION + WAVE.MAX_AGE,
+  );
   private readonly waveformManager: WaveformManager;
-  private readonly dopplerCalculator: DopplerCalculator;
+  private readonly soundDopplerCalculator: DopplerCalculator;
+  private readonly lightDopplerCalculator: DopplerCalculator;
+  private readonly amplitudeCalculator: AmplitudeCalculator = new AmplitudeCalculator();
+
+  // The Doppler formula for the current kind of wave
+  private get dopplerCalculator(): DopplerCalculator {
+    return this.lightModeProperty.value ? this.lightDopplerCalculator : this.soundDopplerCalculator;
+  }
 
-  // Expose waveform data for view access
+  // Expose waveform data for view access (each observer keeps its own observed waveform)
   public get emittedWaveformData(): WaveformPoint[] {
     return this.waveformManager.emittedWaveformData;
   }
 
   public get observedWaveformData(): WaveformPoint[] {
-    return this.waveformManager.observedWaveformData;
+    return this.activeObserverProperty.value.waveformManager.observedWaveformData;
   }
 
   // Expose sound data for backward compatibility
@@ -169,53 +340,154 @@ export class SimModel {
   }
 
   public get observedSoundData(): number[] {
-    return this.waveformManager.observedSoundData;
+    return this.activeObserverProperty.value.waveformManager.observedSoundData;
   }
 
   // Expose position history for view access
-  public get sourceTrail(): PositionHistoryPoint[] {
-    return this.sourcePositionHistory;
+  public getTrail(object: MovableObject): PositionHistoryPoint[] {
+    return this.positionHistories.get(object) ?? [];
   }
 
-  public get observerTrail(): PositionHistoryPoint[] {
-    return this.observerPositionHistory;
-  }
-
-  // Waveform update counter
-  private waveformUpdateCounter: number = 0;
+  // Fixed timestep bookkeeping
+  private stepCount: number = 0; // Number of fixed steps since time zero (dimensionless)
+  private readonly fixedTimestep: FixedTimestep = new FixedTimestep(() => this.fixedStep()); // Carries over partial steps
+  private reverseTimeAccumulator: number = 0; // Model time gone back short of a stored state, negative, in seconds (s)
 
   /**
    * Constructor for the Doppler Effect SimModel
+   *
+   * @param options - Doppler calculators to use in place of the classical and relativistic defaults
    */
-  public constructor() {
+  public constructor(options?: SimModelOptions) {
     // Initialize physics properties
-    this.soundSpeedProperty = new NumberProperty(PHYSICS.SOUND_SPEED);
-    this.emittedFrequencyProperty = new NumberProperty(PHYSICS.EMITTED_FREQ);
-    this.soundSpeedRange = new RangeWithValue(PHYSICS.SOUND_SPEED * 0.5, PHYSICS.SOUND_SPEED * 2, PHYSICS.SOUND_SPEED);
+    this.soundSpeedProperty = new NumberProperty(
+      Medium.AIR.getSoundSpeed(MEDIUM.INITIAL_TEMPERATURE, MEDIUM.INITIAL_HUMIDITY),
+    );
     this.frequencyRange = new RangeWithValue(
       PHYSICS.EMITTED_FREQ * 0.2,
       PHYSICS.EMITTED_FREQ * 2,
       PHYSICS.EMITTED_FREQ,
     );
     this.scenarioProperty = new EnumerationProperty(Scenario.FREE_PLAY);
+
+    // Initialize medium properties
+    this.mediumProperty = new EnumerationProperty(Medium.AIR);
+    this.temperatureRange = new RangeWithValue(
+      MEDIUM.MIN_TEMPERATURE,
+      MEDIUM.MAX_TEMPERATURE,
+      MEDIUM.INITIAL_TEMPERATURE,
+    );
+    this.temperatureProperty = new NumberProperty(MEDIUM.INITIAL_TEMPERATURE, { range: this.temperatureRange });
+    this.humidityProperty = new NumberProperty(MEDIUM.INITIAL_HUMIDITY, {
+      range: new RangeWithValue(0, 100, MEDIUM.INITIAL_HUMIDITY),
+    });
+
+    // Initialize wind properties
+    this.windSpeedRange = new RangeWithValue(0, WIND.MAX_SPEED, WIND.INITIAL_SPEED);
+    this.windDirectionRange = new RangeWithValue(-Math.PI, Math.PI, WIND.INITIAL_DIRECTION);
+    this.windSpeedProperty = new NumberProperty(WIND.INITIAL_SPEED, { range: this.windSpeedRange });
+    this.windDirectionProperty = new NumberProperty(WIND.INITIAL_DIRECTION, { range: this.windDirectionRange });
+    this.windVelocityProperty = new DerivedProperty(
+      [this.windSpeedProperty, this.windDirectionProperty],
+      (windSpeed: number, windDirection: number) => Vector2.createPolar(windSpeed, windDirection),
+    );
+
+    // Initialize rotating source properties
+    this.rotationRadiusRange = new RangeWithValue(ROTATION.MIN_RADIUS, ROTATION.MAX_RADIUS, ROTATION.INITIAL_RADIUS);
+    this.rotationRateRange = new RangeWithValue(ROTATION.MIN_RATE, ROTATION.MAX_RATE, ROTATION.INITIAL_RATE);
+    this.rotationRadiusProperty = new NumberProperty(ROTATION.INITIAL_RADIUS, { range: this.rotationRadiusRange });
+    this.rotationRateProperty = new NumberProperty(ROTATION.INITIAL_RATE, { range: this.rotationRateRange });
+
+    // Initialize flyover properties
+    this.altitudeRange = new RangeWithValue(0, FLYOVER.MAX_ALTITUDE, FLYOVER.INITIAL_ALTITUDE);
+    this.altitudeProperty = new NumberProperty(FLYOVER.INITIAL_ALTITUDE, { range: this.altitudeRange });
+
+    // Initialize light mode properties, light waves are not carried by the wind
+    this.lightModeProperty = new BooleanProperty(false);
+    this.mediumVelocityProperty = new DerivedProperty(
+      [this.windVelocityProperty, this.lightModeProperty],
+      (windVelocity: Vector2, lightMode: boolean) => (lightMode ? Vector2.ZERO : windVelocity),
+    );
+
     this.timeSpeedProperty = new EnumerationProperty(TimeSpeed.NORMAL);
+    this.playBackwardProperty = new BooleanProperty(false);
+    this.waveShapeProperty = new EnumerationProperty(WaveShape.SINE);
 
     // Initialize microphone properties
     this.microphonePositionProperty = new Property<Vector2>(new Vector2(0, 20));
     this.microphoneEnabledProperty = new BooleanProperty(false);
     this.waveDetectedProperty = new BooleanProperty(false);
 
+    // Initialize supersonic motion properties
+    this.supersonicEnabledProperty = new BooleanProperty(false);
+    this.sonicBoomEmitter = new Emitter<[Vector2]>({ parameters: [{ valueType: Vector2 }] });
+
+    // Initialize amplitude properties
+    this.absorptionEnabledProperty = new BooleanProperty(false);
+
     // Initialize simulation state
     this.simulationTimeProperty = new NumberProperty(0);
-    this.observedFrequencyProperty = new NumberProperty(PHYSICS.EMITTED_FREQ);
     this.playProperty = new BooleanProperty(true);
+    this.recordedTimeRangeProperty = new Property(this.getRecordedTimeRange(), {
+      valueComparisonStrategy: "equalsFunction",
+    });
 
     // Create the wave array
     this.waves = createObservableArray<Wave>([]);
 
     // Initialize source and observer
-    this.source = new MovableObject(INITIAL_POSITIONS.SOURCE);
-    this.observer = new MovableObject(INITIAL_POSITIONS.OBSERVER);
+    this.source = new SoundSource(INITIAL_POSITIONS.SOURCE, PHYSICS.EMITTED_FREQ, 0, 0);
+    this.observer = new Observer(INITIAL_POSITIONS.OBSERVER, 0);
+    this.positionHistories.set(this.source, []);
+    this.positionHistories.set(this.observer, []);
+
+    // Initialize the list of sources, starting with a single one
+    this.sources = createObservableArray<SoundSource>({ elements: [this.source] });
+    this.sourceCountRange = new RangeWithValue(1, SOURCES.MAX_COUNT, 1);
+    this.sourceCountProperty = new NumberProperty(1, { range: this.sourceCountRange, numberType: "Integer" });
+    this.activeSourceProperty = new Property<SoundSource>(this.source);
+
+    // The frequency control and readouts follow the active source
+    this.emittedFrequencyProperty = new DynamicProperty<number, number, SoundSource>(this.activeSourceProperty, {
+      derive: "emittedFrequencyProperty",
+      bidirectional: true,
+    });
+    this.modulationProperty = new DynamicProperty<FrequencyModulation, FrequencyModulation, SoundSource>(
+      this.activeSourceProperty,
+      { derive: "modulationProperty", bidirectional: true },
+    );
+    this.activeSourcePositionProperty = new DynamicProperty<Vector2, Vector2, SoundSource>(this.activeSourceProperty, {
+      derive: "positionProperty",
+    });
+    const activeSourceVelocityProperty = new DynamicProperty<Vector2, Vector2, SoundSource>(this.activeSourceProperty, {
+      derive: "velocityProperty",
+    });
+
+    // Initialize the list of observers, starting with a single one
+    this.observers = createObservableArray<Observer>({ elements: [this.observer] });
+    this.observerCountRange = new RangeWithValue(1, OBSERVERS.MAX_COUNT, 1);
+    this.observerCountProperty = new NumberProperty(1, { range: this.observerCountRange, numberType: "Integer" });
+    this.activeObserverProperty = new Property<Observer>(this.observer);
+
+    // The frequency readout and line of sight follow the active observer
+    this.observedFrequencyProperty = new DynamicProperty<number, number, Observer>(this.activeObserverProperty, {
+      derive: "observedFrequencyProperty",
+    });
+    this.sourceFrequencyProperty = new DynamicProperty<number, number, Observer>(this.activeObserverProperty, {
+      derive: "sourceFrequencyProperty",
+    });
+    this.intensityLevelProperty = new DynamicProperty<number | null, number | null, Observer>(
+      this.activeObserverProperty,
+      { derive: "intensityLevelProperty" },
+    );
+    this.activeObserverPositionProperty = new DynamicProperty<Vector2, Vector2, Observer>(this.activeObserverProperty, {
+      derive: "positionProperty",
+    });
+
+    // Initialize the reflectors, which are taken out of the play area until enabled
+    this.wall = new Reflector(REFLECTORS.WALL_POSITION, new Vector2(0, 1), REFLECTORS.WALL_LENGTH, false);
+    this.plate = new Reflector(REFLECTORS.PLATE_POSITION, new Vector2(0, 1), REFLECTORS.PLATE_LENGTH, true);
+    this.reflectors = [this.wall, this.plate];
 
     // Link properties for direct access
     this.sourcePositionProperty = this.source.positionProperty;
@@ -225,33 +497,84 @@ export class SimModel {
     this.observerVelocityProperty = this.observer.velocityProperty;
     this.observerMovingProperty = this.observer.movingProperty;
 
-    // Create the source-observer distance property
+    // Mach number uses the active source's speed relative to the medium
+    this.machNumberProperty = new DerivedProperty(
+      [activeSourceVelocityProperty, this.mediumVelocityProperty, this.soundSpeedProperty],
+      (sourceVelocity: Vector2, mediumVelocity: Vector2, soundSpeed: number) =>
+        sourceVelocity.minus(mediumVelocity).magnitude / soundSpeed,
+    );
+
+    // Create the source-observer distance property, through the air when the source is flying
+    const activeSourceAltitudeProperty = new DynamicProperty<number, number, SoundSource>(this.activeSourceProperty, {
+      derive: "altitudeProperty",
+    });
     this.sourceObserverDistanceProperty = new DerivedProperty(
-      [this.sourcePositionProperty, this.observerPositionProperty],
-      (sourcePosition: Vector2, observerPosition: Vector2) => {
-        return sourcePosition.distance(observerPosition);
+      [this.activeSourcePositionProperty, this.activeObserverPositionProperty, activeSourceAltitudeProperty],
+      (sourcePosition: Vector2, observerPosition: Vector2, sourceAltitude: number) => {
+        return Math.hypot(sourcePosition.distance(observerPosition), sourceAltitude);
       },
     );
 
     // Create specialized component classes
-    this.waveGenerator = new WaveGenerator(
-      this.waves,
-      () => this.simulationTimeProperty.value,
-      () => this.sourcePositionProperty.value,
-      () => this.sourceVelocityProperty.value,
-      () => this.emittedFrequencyProperty.value,
-      () => this.soundSpeedProperty.value,
-      () => this.waveformManager.getEmittedPhase(),
-    );
+    this.addWaveGenerator(this.source);
 
     this.waveformManager = new WaveformManager(SOUND_DATA.ARRAY_SIZE);
-    this.dopplerCalculator = new DopplerCalculator();
+    this.soundDopplerCalculator = options?.soundDopplerCalculator ?? new DopplerCalculator();
+    this.lightDopplerCalculator = options?.lightDopplerCalculator ?? new RelativisticDopplerCalculator();
 
     // Add listeners
     this.scenarioProperty.lazyLink((scenario) => {
       this.applyScenario(scenario);
     });
 
+    this.sourceCountProperty.lazyLink((sourceCount) => {
+      this.updateSourceCount(sourceCount);
+    });
+
+    this.observerCountProperty.lazyLink((observerCount) => {
+      this.updateObserverCount(observerCount);
+    });
+
+    this.supersonicEnabledProperty.lazyLink((supersonicEnabled) => {
+      if (supersonicEnabled) {
+        // Nothing outruns light
+        this.lightModeProperty.value = false;
+      } else {
+        this.limitToSubsonicSpeeds();
+      }
+    });
+
+    this.lightModeProperty.lazyLink((lightMode) => {
+      this.applyLightMode(lightMode);
+    });
+
+    // The speed of sound follows the medium and its temperature
+    Multilink.lazyMultilink([this.mediumProperty, this.temperatureProperty, this.humidityProperty], () =>
+      this.updateSoundSpeed(),
+    );
+
+    // Echoes of a reflector disappear with it
+    for (const reflector of this.reflectors) {
+      reflector.enabledProperty.lazyLink((enabled) => {
+        if (!enabled) {
+          for (const waveGenerator of this.waveGenerators.values()) {
+            waveGenerator.removeEchoes(reflector);
+          }
+        }
+      });
+    }
+
+    // In the flyover scenario the first source flies at the chosen altitude, otherwise it stays on the ground
+    Multilink.multilink([this.scenarioProperty, this.altitudeProperty], (scenario, altitude) => {
+      this.source.altitudeProperty.value = scenario === Scenario.FLYOVER ? altitude : 0;
+    });
+
+    // A rotating source keeps circling from where it is when the circle changes
+    Multilink.lazyMultilink(
+      [this.rotationRadiusProperty, this.rotationRateProperty, this.soundSpeedProperty, this.supersonicEnabledProperty],
+      () => this.updateRotation(),
+    );
+
     this.timeSpeedProperty.lazyLink(() => {
       // Just ensure latest data is used when time speed changes
       this.updateWaveforms(0);
@@ -264,11 +587,19 @@ export class SimModel {
   public reset(): void {
     // Reset properties
     this.scenarioProperty.reset();
-    this.soundSpeedProperty.reset();
-    this.emittedFrequencyProperty.reset();
+    this.lightModeProperty.reset();
+    this.mediumProperty.reset();
+    this.temperatureProperty.reset();
+    this.humidityProperty.reset();
+    this.windSpeedProperty.reset();
+    this.windDirectionProperty.reset();
+    this.rotationRadiusProperty.reset();
+    this.rotationRateProperty.reset();
+    this.altitudeProperty.reset();
     this.timeSpeedProperty.reset();
+    this.playBackwardProperty.reset();
+    this.waveShapeProperty.reset();
     this.simulationTimeProperty.reset();
-    this.observedFrequencyProperty.value = PHYSICS.EMITTED_FREQ;
     this.playProperty.reset();
 
     // Reset microphone properties
@@ -277,25 +608,47 @@ export class SimModel {
     this.waveDetectedProperty.value = false;
     this.lastWaveDetectionTime = 0;
 
-    // Reset source and observer
-    this.source.reset(INITIAL_POSITIONS.SOURCE);
-    this.observer.reset(INITIAL_POSITIONS.OBSERVER);
+    // Reset supersonic motion
+    this.supersonicEnabledProperty.reset();
+    this.observersInsideMachCone.clear();
+    this.absorptionEnabledProperty.reset();
+    this.microphoneInsideMachCone = false;
+
+    // Reset source and observer, removing any added sources and observers
+    this.sourceCountProperty.reset();
+    this.activeSourceProperty.reset();
+    this.source.reset();
+    this.observerCountProperty.reset();
+    this.activeObserverProperty.reset();
+    this.observer.reset();
+
+    // Reset reflectors
+    for (const reflector of this.reflectors) {
+      reflector.reset();
+    }
 
     // Reset velocities
     this.sourceVelocityProperty.reset();
     this.observerVelocityProperty.reset();
 
     // Clear position history
-    this.sourcePositionHistory = [];
-    this.observerPositionHistory = [];
+    for (const object of this.positionHistories.keys()) {
+      this.positionHistories.set(object, []);
+    }
     this.lastTrailSampleTime = 0;
-    this.waveformUpdateCounter = 0;
+    this.stepCount = 0;
+    this.fixedTimestep.reset();
+    this.reverseTimeAccumulator = 0;
 
     // Clear simulation state history
-    this.simulationStateHistory = [];
+    this.simulationStateHistory.clear();
+    this.recordedTimeRangeProperty.value = this.getRecordedTimeRange();
+    this.propagationHistory.reset();
 
     // Reset components
-    this.waveGenerator.reset();
+    for (const waveGenerator of this.waveGenerators.values()) {
+      waveGenerator.reset();
+    }
     this.waveformManager.reset(SOUND_DATA.ARRAY_SIZE);
   }
 
@@ -306,13 +659,18 @@ export class SimModel {
     switch (this.timeSpeedProperty.value) {
       case TimeSpeed.SLOW:
         return TIME_SPEED.SLOW;
+      case TimeSpeed.FAST:
+        return TIME_SPEED.FAST;
       default:
         return TIME_SPEED.NORMAL;
     }
   }
 
   /**
-   * Update the simulation state based on elapsed time
+   * Update the simulation state based on elapsed time.
+   * The model always advances by fixed steps of TIMESTEP.DT, however long the frames are, so that two runs
+   * with the same inputs give identical waves, trails and observed frequencies. Time that does not make up
+   * a whole step is carried over to the next frame.
    * @param dt - elapsed time in seconds (real time) (s)
    * @param force - optional parameter to force stepping even when paused
    */
@@ -321,40 +679,85 @@ export class SimModel {
       return;
     }
 
-    // Apply time scaling
+    // Apply time scaling, playing backward runs time in reverse while the step buttons keep their own direction
     const timeSpeedValue = this.getTimeSpeedValue();
-    const modelDt = dt * SCALE.TIME * timeSpeedValue; // in seconds (s)
+    const direction = this.playBackwardProperty.value && !force ? TIME_SPEED.REVERSE : TIME_SPEED.NORMAL;
+    const modelDt = dt * SCALE.TIME * timeSpeedValue * direction; // in seconds (s)
 
-    // Check if we're reversing time
+    // Check if we're reversing time. Each direction carries over its own time, which is dropped when the
+    // direction changes, so that the other direction starts afresh
     if (modelDt < 0) {
+      this.fixedTimestep.reset();
       this.handleTimeReversal(modelDt);
       return;
     }
+    this.reverseTimeAccumulator = 0;
+
+    // Take as many fixed steps as fit in the elapsed time
+    this.fixedTimestep.advance(modelDt);
+  }
 
-    // Update simulation time
-    this.simulationTimeProperty.value += modelDt; // in seconds (s)
+  /**
+   * Advance the simulation by one fixed step of TIMESTEP.DT
+   */
+  private fixedStep(): void {
+    const modelDt = TIMESTEP.DT; // in seconds (s)
 
-    // Store simulation state for time reversal
-    this.storeSimulationState();
+    // Stepping forward from an earlier time branches a new future, forgetting the one recorded after it
+    if ((this.simulationStateHistory.getNewest()?.time ?? 0) > this.simulationTimeProperty.value) {
+      this.truncateHistory(this.simulationTimeProperty.value);
+    }
 
-    // Update positions
-    this.source.updatePosition(modelDt);
-    this.observer.updatePosition(modelDt);
+    // Update simulation time, counting steps so that the time stays on the grid of steps
+    this.stepCount++;
+    this.simulationTimeProperty.value = this.stepCount * TIMESTEP.DT; // in seconds (s)
+
+    // Record how far the wavefronts travel and drift during this step
+    this.propagationHistory.advance(
+      this.simulationTimeProperty.value,
+      modelDt,
+      this.soundSpeedProperty.value,
+      this.mediumVelocityProperty.value,
+    );
+
+    // The waveforms and the states kept for time reversal are sampled every few steps
+    const isSampleStep = this.stepCount % TIMESTEP.STEPS_PER_SAMPLE === 0;
+
+    // Update positions, and the phase of the signal emitted by every source
+    for (const object of [...this.sources, ...this.observers, ...this.reflectors]) {
+      object.updatePosition(modelDt, this.simulationTimeProperty.value);
+    }
+    for (const source of this.sources) {
+      source.advancePhase(modelDt, this.simulationTimeProperty.value);
+    }
+
+    // Record what the sources emitted, for placing new wavefronts and finding the signal heard later
+    for (const waveGenerator of this.waveGenerators.values()) {
+      waveGenerator.recordEmission();
+    }
 
     // Record position history for trails
     this.updatePositionHistory();
 
     // Generate and update waves
-    this.waveGenerator.generateWaves();
-    this.waveGenerator.updateWaves(this.simulationTimeProperty.value, modelDt);
+    for (const waveGenerator of this.waveGenerators.values()) {
+      waveGenerator.generateWaves();
+      waveGenerator.updateWaves(this.simulationTimeProperty.value);
+    }
 
     // Check for waves at microphone
     if (this.microphoneEnabledProperty.value) {
       this.detectWavesAtMicrophone();
     }
 
-    // Calculate Doppler effect and update waveforms
-    this.updateWaveforms(modelDt);
+    // Check for shock fronts passing the observer and microphone
+    this.detectSonicBooms();
+
+    // Calculate Doppler effect and update waveforms, then store simulation state for time reversal
+    if (isSampleStep) {
+      this.updateWaveforms(modelDt * TIMESTEP.STEPS_PER_SAMPLE);
+      this.storeSimulationState();
+    }
   }
 
   /**
@@ -362,84 +765,114 @@ export class SimModel {
    * @param modelDt - elapsed time in seconds (model time) (s)
    */
   private handleTimeReversal(modelDt: number): void {
-    // Calculate target time (negative dt means going backward)
-    const targetTime = this.simulationTimeProperty.value + modelDt;
+    // Time going backward builds up until it reaches a stored state, so that slow reverse playback moves too
+    this.reverseTimeAccumulator += modelDt;
+    const previousTime = this.simulationTimeProperty.value; // in seconds (s)
+    const targetTime = previousTime + this.reverseTimeAccumulator; // in seconds (s)
 
     // Find the closest state in history
-    const closestState = this.findClosestState(targetTime);
+    const closestState = this.simulationStateHistory.findClosest(targetTime);
+    if (closestState === undefined || closestState.time >= previousTime) {
+      // There is nothing to go back to before the oldest state
+      if (closestState === this.simulationStateHistory.getOldest()) {
+        this.reverseTimeAccumulator = 0;
+      }
+      return;
+    }
+
+    // Go back to this state, carrying over the time that does not make up a whole state
+    this.seek(closestState.time);
+    this.reverseTimeAccumulator = targetTime - closestState.time;
+  }
+
+  /**
+   * Go to the stored state closest to a time, restoring the scene, the waves, the trails and the graphs as they were.
+   * What was recorded after it is kept until the simulation steps forward, which branches a new future.
+   * @param time - Simulation time in seconds (s)
+   */
+  public seek(time: number): void {
+    const index = this.simulationStateHistory.findClosestIndex(time);
+    const state = this.simulationStateHistory.get(index);
+    if (state === undefined) {
+      return;
+    }
 
-    if (closestState) {
-      // Restore the simulation to this state
-      this.restoreSimulationState(closestState);
+    // Time moves back to a step, so that stepping forward again follows the same grid of steps
+    this.fixedTimestep.reset();
+    this.reverseTimeAccumulator = 0;
+    this.stepCount = Math.max(0, Math.round(state.time / TIMESTEP.DT));
+    this.simulationTimeProperty.value = this.stepCount * TIMESTEP.DT; // in seconds (s)
 
-      // Update simulation time
-      this.simulationTimeProperty.value = targetTime;
+    // Restore the simulation to this state
+    this.restoreSimulationState(state);
+    this.restoreWaveforms(index);
+    this.rebuildPositionHistory();
 
-      // Update waveforms
-      this.updateWaveforms(modelDt);
-    } else {
-      // No history available, just update time
-      this.simulationTimeProperty.value = targetTime;
+    // Update the readouts
+    this.updateWaveforms(0);
+  }
+
+  /**
+   * Forget what was recorded after a time, for when the simulation steps forward from an earlier time
+   * @param time - Simulation time in seconds (s)
+   */
+  private truncateHistory(time: number): void {
+    this.simulationStateHistory.truncate(time);
+    this.propagationHistory.truncate(time);
+    for (const waveGenerator of this.waveGenerators.values()) {
+      waveGenerator.truncate(time);
     }
+    this.recordedTimeRangeProperty.value = this.getRecordedTimeRange();
+  }
+
+  /**
+   * Get the span of the simulation time covered by the stored states
+   * @returns The range, never shorter than the interval between two states, in seconds (s)
+   */
+  private getRecordedTimeRange(): Range {
+    const startTime = this.simulationStateHistory.getOldest()?.time ?? 0; // in seconds (s)
+    const endTime = this.simulationStateHistory.getNewest()?.time ?? startTime; // in seconds (s)
+    return new Range(startTime, Math.max(endTime, startTime + TIMESTEP.DT * TIMESTEP.STEPS_PER_SAMPLE));
   }
 
   /**
    * Store the current simulation state for time reversal
    */
   private storeSimulationState(): void {
-    // Create a deep copy of the current state
+    // Trajectories are never modified, so they are shared rather than copied
+    const saveMotionState = (object: MovableObject): MotionState => ({
+      position: object.positionProperty.value.copy(),
+      velocity: object.velocityProperty.value.copy(),
+      acceleration: object.accelerationProperty.value.copy(),
+      trajectory: object.getTrajectory(),
+      trajectoryStartTime: object.getTrajectoryStartTime(),
+    });
+
+    // Copy the motion and parameters, the waves are regenerated from the emission histories
     const currentState: SimulationState = {
       time: this.simulationTimeProperty.value,
-      sourcePosition: this.sourcePositionProperty.value.copy(),
-      observerPosition: this.observerPositionProperty.value.copy(),
-      sourceVelocity: this.sourceVelocityProperty.value.copy(),
-      observerVelocity: this.observerVelocityProperty.value.copy(),
-      waves: this.waves.map((wave) => ({
-        position: wave.position.copy(),
-        radius: wave.radius,
-        birthTime: wave.birthTime,
-        sourceVelocity: wave.sourceVelocity.copy(),
-        sourceFrequency: wave.sourceFrequency,
-        phaseAtEmission: wave.phaseAtEmission,
-      })),
+      sourceStates: this.sources.map(saveMotionState),
+      observerStates: this.observers.map(saveMotionState),
+      reflectorStates: this.reflectors.map(saveMotionState),
+      emittedPhases: this.sources.map((source) => source.getEmittedPhase()),
+      windVelocity: this.windVelocityProperty.value.copy(),
+      emittedValue: this.emittedSoundData[this.emittedSoundData.length - 1] ?? 0,
+      observedValues: this.observers.map(
+        (observer) =>
+          observer.waveformManager.observedSoundData[observer.waveformManager.observedSoundData.length - 1] ?? 0,
+      ),
     };
 
-    // Add to history
+    // Add to history, which drops the oldest state once it is full
     this.simulationStateHistory.push(currentState);
 
-    // Limit history size
-    if (this.simulationStateHistory.length > TIME_SPEED.HISTORY_BUFFER_SIZE) {
-      this.simulationStateHistory.shift();
+    // Keep what was emitted for every wave that can still be restored
+    const oldestStateTime = this.simulationStateHistory.getOldest()?.time ?? currentState.time; // in seconds (s)
+    this.propagationHistory.prune(oldestStateTime - WAVE.MAX_AGE);
+    for (const waveGenerator of this.waveGenerators.values()) {
+      waveGenerator.prune(oldestStateTime - WAVE.MAX_AGE);
     }
-  }
-
-  /**
-   * Find the closest simulation state to a target time
-   * @param targetTime - The time to find the closest state for
-   * @returns The closest simulation state or null if none found
-   */
-  private findClosestState(targetTime: number): SimulationState | null {
-    // Find the closest state by time
-    let closestState = this.simulationStateHistory[0];
-    if (closestState === undefined) {
-      return null;
-    }
-    let minTimeDiff = Math.abs(closestState.time - targetTime);
-
-    for (let i = 1; i < this.simulationStateHistory.length; i++) {
-      const state = this.simulationStateHistory[i];
-      if (state === undefined) {
-        continue;
-      }
-      const timeDiff = Math.abs(state.time - targetTime);
-
-      if (timeDiff < minTimeDiff) {
-        minTimeDiff = timeDiff;
-        closestState = state;
-      }
-    }
-
-    return closestState;
+    this.recordedTimeRangeProperty.value = this.getRecordedTimeRange();
   }
 
   /**
@@ -447,18 +880,41 @@ export class SimModel {
    * @param state - The simulation state to restore
    */
   private restoreSimulationState(state: SimulationState): void {
-    // Restore positions and velocities
-    this.sourcePositionProperty.value = state.sourcePosition.copy();
-    this.observerPositionProperty.value = state.observerPosition.copy();
-    this.sourceVelocityProperty.value = state.sourceVelocity.copy();
-    this.observerVelocityProperty.value = state.observerVelocity.copy();
+    // Restore positions, velocities and scripted motion (objects added since the state was saved keep their own)
+    const restoreMotionStates = (objects: MovableObject[], motionStates: MotionState[]) => {
+      motionStates.forEach((motionState, index) => {
+        const object = objects[index];
+        if (object !== undefined) {
+          object.positionProperty.value = motionState.position.copy();
+          object.velocityProperty.value = motionState.velocity.copy();
+          object.accelerationProperty.value = motionState.acceleration.copy();
+          object.restoreTrajectory(motionState.trajectory, motionState.trajectoryStartTime);
+        }
+      });
+    };
+    restoreMotionStates(this.sources, state.sourceStates);
+    restoreMotionStates(this.observers, state.observerStates);
+    restoreMotionStates(this.reflectors, state.reflectorStates);
+
+    // Restore the phase of the signal of each source, whatever its frequency did since
+    state.emittedPhases.forEach((phase, index) => {
+      this.sources[index]?.restorePhase(phase);
+    });
+
+    // Restore wind (direction is undefined for calm air, so keep the current one)
+    this.windSpeedProperty.value = state.windVelocity.magnitude;
+    if (state.windVelocity.magnitude > 0) {
+      this.windDirectionProperty.value = state.windVelocity.angle;
+    }
 
-    // Restore waves
-    this.waveGenerator.restoreWavesFromHistory(state.time);
+    // Regenerate the waves in the air at that time
+    for (const waveGenerator of this.waveGenerators.values()) {
+      waveGenerator.restoreWavesFromHistory(state.time);
+    }
   }
 
   /**
-   * Update position history for source and observer
+   * Update position history for the sources and observers
    * This method records positions at regular intervals and maintains a fixed-size history
    */
   private updatePositionHistory(): void {
@@ -466,17 +922,13 @@ export class SimModel {
 
     // Only sample at specified intervals
     if (currentTime - this.lastTrailSampleTime >= TRAIL.SAMPLE_INTERVAL) {
-      // Record source position
-      this.sourcePositionHistory.push({
-        position: this.sourcePositionProperty.value.copy(),
-        timestamp: currentTime,
-      });
-
-      // Record observer position
-      this.observerPositionHistory.push({
-        position: this.observerPositionProperty.value.copy(),
-        timestamp: currentTime,
-      });
+      // Record the position of every object
+      for (const [object, positionHistory] of this.positionHistories) {
+        positionHistory.push({
+          position: object.positionProperty.value.copy(),
+          timestamp: currentTime,
+        });
+      }
 
       // Update last sample time
       this.lastTrailSampleTime = currentTime;
@@ -486,6 +938,61 @@ export class SimModel {
     }
   }
 
+  /**
+   * Restore the waveform graphs from the values stored with the states up to one
+   * @param index - Position of the state in the history
+   */
+  private restoreWaveforms(index: number): void {
+    const states: (SimulationState | undefined)[] = [];
+    for (let i = index - SOUND_DATA.ARRAY_SIZE + 1; i <= index; i++) {
+      states.push(this.simulationStateHistory.get(i));
+    }
+
+    const timeSpeedValue = this.getTimeSpeedValue();
+    this.waveformManager.restoreEmittedWaveform(
+      states.map((state) => state?.emittedValue ?? 0),
+      timeSpeedValue,
+    );
+    this.observers.forEach((observer, observerIndex) => {
+      observer.waveformManager.restoreObservedWaveform(
+        states.map((state) => state?.observedValues[observerIndex] ?? 0),
+        timeSpeedValue,
+      );
+    });
+  }
+
+  /**
+   * Rebuild the trails as they were at the current time from the stored states, for when time runs backward
+   */
+  private rebuildPositionHistory(): void {
+    const currentTime = this.simulationTimeProperty.value; // in seconds (s)
+    const oldestStateTime = this.simulationStateHistory.getOldest()?.time ?? currentTime; // in seconds (s)
+    for (const positionHistory of this.positionHistories.values()) {
+      positionHistory.length = 0;
+    }
+
+    // Sample the states at the interval of the trails, ending at the current time
+    const sampleCount = Math.min(TRAIL.MAX_POINTS - 1, Math.floor(TRAIL.MAX_AGE / TRAIL.SAMPLE_INTERVAL));
+    for (let i = sampleCount; i >= 0; i--) {
+      const sampleTime = currentTime - i * TRAIL.SAMPLE_INTERVAL; // in seconds (s)
+      const state = this.simulationStateHistory.findClosest(sampleTime);
+      if (state === undefined || sampleTime < oldestStateTime) {
+        continue;
+      }
+      const addPoints = (objects: MovableObject[], motionStates: MotionState[]) => {
+        motionStates.forEach((motionState, index) => {
+          const object = objects[index];
+          const positionHistory = object === undefined ? undefined : this.positionHistories.get(object);
+          positionHistory?.push({ position: motionState.position.copy(), timestamp: state.time });
+        });
+      };
+      addPoints(this.sources, state.sourceStates);
+      addPoints(this.observers, state.observerStates);
+    }
+
+    this.lastTrailSampleTime = currentTime;
+  }
+
   /**
    * Remove old positions from history that exceed the maximum age or count
    */
@@ -493,99 +1000,154 @@ export class SimModel {
     const currentTime = this.simulationTimeProperty.value;
     const maxAge = currentTime - TRAIL.MAX_AGE;
 
-    // Prune source trail
-    while (
-      this.sourcePositionHistory.length > TRAIL.MAX_POINTS ||
-      (this.sourcePositionHistory[0] !== undefined && this.sourcePositionHistory[0].timestamp < maxAge)
-    ) {
-      this.sourcePositionHistory.shift();
-    }
-
-    // Prune observer trail
-    while (
-      this.observerPositionHistory.length > TRAIL.MAX_POINTS ||
-      (this.observerPositionHistory[0] !== undefined && this.observerPositionHistory[0].timestamp < maxAge)
-    ) {
-      this.observerPositionHistory.shift();
+    // Prune every trail
+    for (const positionHistory of this.positionHistories.values()) {
+      while (
+        positionHistory.length > TRAIL.MAX_POINTS ||
+        (positionHistory[0] !== undefined && positionHistory[0].timestamp < maxAge)
+      ) {
+        positionHistory.shift();
+      }
     }
   }
 
   /**
    * Update waveforms and calculate Doppler effect
-   * @param dt Elapsed model time in seconds (s)
+   * @param dt Elapsed model time since the previous sample in seconds (s)
    */
   private updateWaveforms(dt: number): void {
     // Get the current time speed factor
     const timeSpeedValue = this.getTimeSpeedValue();
 
-    // Control how often we accumulate new waveform data points based on time speed
-    this.waveformUpdateCounter = (this.waveformUpdateCounter || 0) + 1;
-
-    // Calculate update interval as reciprocal of time speed factor
-    // When time speed is low (0.25), update every 4 frames
-    // When time speed is normal (1.0), update every frame
-    const updateInterval = Math.round(TIME_SPEED.NORMAL / Math.abs(timeSpeedValue));
+    // Show the signal of the active source
+    const waveShape = this.waveShapeProperty.value;
+    this.waveformManager.updateEmittedWaveform(
+      this.activeSourceProperty.value.getEmittedPhase(),
+      dt,
+      timeSpeedValue,
+      waveShape,
+    );
 
-    if (this.waveformUpdateCounter % updateInterval === 0) {
-      // Update emitted waveform
-      this.waveformManager.updateEmittedWaveform(
-        this.emittedFrequencyProperty.value,
-        dt * updateInterval, // Compensate for skipped updates
-        timeSpeedValue,
-      );
+    // Each observer hears the superposition of the contributions of every source
+    for (const observer of this.observers) {
+      const contributions: ObservedContribution[] = [];
+      for (const source of this.sources) {
+        contributions.push(...this.getObservedContributions(source, observer));
+      }
 
-      // Find waves affecting the observer
-      const wavesAtObserver = this.dopplerCalculator.findWavesAtObserver(
-        this.waves,
-        this.observerPositionProperty.value,
-        this.soundSpeedProperty.value,
+      // The intensities of the wave trains add up in the level readout
+      observer.intensityLevelProperty.value = this.amplitudeCalculator.calculateIntensityLevel(
+        contributions.map((contribution) => contribution.amplitude),
       );
 
-      // If no waves have reached observer yet, clear observed waveform
-      const firstWaveAtObserver = wavesAtObserver[0];
-      if (firstWaveAtObserver === undefined) {
-        this.waveformManager.clearObservedWaveform();
-        return;
+      // If no waves have reached the observer yet, clear its observed waveform (going backward, it is given back)
+      if (contributions.length === 0 && dt > 0) {
+        observer.waveformManager.clearObservedWaveform();
+      } else {
+        observer.waveformManager.updateObservedWaveform(contributions, timeSpeedValue, dt, waveShape);
       }
+    }
+  }
 
-      // Use most recently arrived wave
-      const currentWave = firstWaveAtObserver.wave;
-      const arrivalTime = firstWaveAtObserver.arrivalTime;
-
-      // Calculate time since wave arrival (in seconds)
-      const timeSinceArrival = this.simulationTimeProperty.value - arrivalTime; // in seconds (s)
-
-      // Get phase at arrival from original wave
-      const phaseAtArrival = currentWave.phaseAtEmission;
-
-      // Calculate Doppler frequency
-      const observedFrequency = this.dopplerCalculator.calculateObservedFrequency(
-        currentWave,
-        this.observerPositionProperty.value,
-        this.observerVelocityProperty.value,
+  /**
+   * Find what an observer hears from a single source, directly and as echoes, updating its frequency readout
+   * for the active source
+   * @param source - The source whose waves are considered
+   * @param observer - The observer listening to the source
+   * @returns One contribution per retarded time of the direct signal, and per branch of each reflector's echoes
+   */
+  private getObservedContributions(source: SoundSource, observer: Observer): ObservedContribution[] {
+    const observerPosition = observer.positionProperty.value; // in meters (m)
+    const simulationTime = this.simulationTimeProperty.value; // in seconds (s)
+
+    // The direct signal is what the source emitted at the retarded times, found from its recorded trajectory
+    const emissionHistory = this.waveGenerators.get(source)?.getEmissionHistory();
+    const retardedEmissions =
+      emissionHistory === undefined
+        ? []
+        : this.dopplerCalculator.findRetardedEmissions(
+            emissionHistory,
+            observerPosition,
+            simulationTime,
+            this.propagationHistory,
+          );
+    const getRetardedFrequency = (retardedEmission: RetardedEmission): number =>
+      this.dopplerCalculator.calculateRetardedFrequency(
+        retardedEmission,
+        observerPosition,
+        observer.velocityProperty.value,
         this.soundSpeedProperty.value,
+        this.mediumVelocityProperty.value,
       );
 
-      // Update observed frequency property
-      this.observedFrequencyProperty.value = observedFrequency;
+    // The frequency readout follows the most recent emission of the active source to reach the observer.
+    // Inside a Mach cone the approach branch gives a negative frequency (reversed arrival order),
+    // so the magnitude is reported. The frequency emitted then is kept alongside, since a modulated
+    // source changes its own pitch while the signal is on its way.
+    const newestEmission = retardedEmissions[0];
+    if (source === this.activeSourceProperty.value && newestEmission !== undefined) {
+      observer.observedFrequencyProperty.value = Math.abs(getRetardedFrequency(newestEmission));
+      observer.sourceFrequencyProperty.value = newestEmission.emission.frequency;
+    }
 
-      // Calculate Doppler frequency for stationary observer
-      const stationaryFrequency = this.dopplerCalculator.calculateStationaryFrequency(
-        currentWave,
-        this.observerPositionProperty.value,
+    // The phase heard now is the phase emitted at the retarded time, so nothing is extrapolated
+    const directContributions = retardedEmissions.map((retardedEmission) => ({
+      observedFrequency: getRetardedFrequency(retardedEmission),
+      phaseAtArrival: retardedEmission.emission.phase,
+      timeSinceArrival: 0, // in seconds (s)
+      amplitude: this.getAmplitude(retardedEmission.distance, retardedEmission.emission.frequency),
+    }));
+
+    // The echoes of each reflector are separate wave trains, heard from the wavefronts sweeping past the observer
+    const echoBranches = this.reflectors.flatMap((reflector) =>
+      this.dopplerCalculator.findWaveBranchesAtObserver(
+        this.waves.filter((wave) => wave.source === source && wave.reflection?.reflector === reflector),
+        observerPosition,
+        this.propagationHistory,
+      ),
+    );
+    const echoContributions = echoBranches.map((branch) => ({
+      // Use the stationary frequency since we don't want to overcount the Doppler effect,
+      // the change in phase is due to the change in position of the observer
+      observedFrequency: this.dopplerCalculator.calculateStationaryFrequency(
+        branch.wave,
+        observerPosition,
         this.soundSpeedProperty.value,
-      );
+        this.mediumVelocityProperty.value,
+      ),
+      phaseAtArrival: branch.wave.phaseAtEmission,
+      timeSinceArrival: simulationTime - branch.arrivalTime, // in seconds (s)
+      amplitude: this.getAmplitude(
+        this.dopplerCalculator.getSlantDistance(branch.wave, observerPosition),
+        branch.wave.sourceFrequency,
+      ),
+    }));
+
+    return [...directContributions, ...echoContributions];
+  }
 
-      // Update observed waveform using stationary frequency since we don't want to overcount the Doppler effect
-      // the change in phase is due to the change in position of the observer
-      this.waveformManager.updateObservedWaveform(
-        stationaryFrequency,
-        phaseAtArrival,
-        timeSinceArrival,
-        timeSpeedValue,
-        dt,
-      );
-    }
+  /**
+   * Get the amplitude of a wavefront at its current radius, for drawing it
+   * @param wave - The wave to consider
+   * @returns Amplitude relative to the amplitude at the reference distance (dimensionless)
+   */
+  public getWaveAmplitude(wave: Wave): number {
+    return this.getAmplitude(wave.radius, wave.sourceFrequency);
+  }
+
+  /**
+   * Get the amplitude of a wave after spreading over a distance, and absorption when enabled.
+   * Echoes travel from the image source, and light waves are not absorbed without a medium.
+   * @param distance - Distance from the (drifted) wave center in meters (m)
+   * @param frequency - Emitted frequency in Hertz (Hz)
+   * @returns Amplitude relative to the amplitude at the reference distance (dimensionless)
+   */
+  private getAmplitude(distance: number, frequency: number): number {
+    return this.amplitudeCalculator.calculateAmplitude(
+      distance,
+      frequency,
+      this.absorptionEnabledProperty.value && !this.lightModeProperty.value,
+    );
   }
 
   /**
@@ -643,6 +1205,43 @@ export class SimModel {
         this.observerMovingProperty.value = false;
         break;
 
+      case Scenario.ROTATING_SOURCE:
+        // Source circles around its initial position, starting at the bottom so that it first heads toward the observer
+        this.source.followTrajectory(this.createRotationTrajectory(-Math.PI / 2), this.simulationTimeProperty.value);
+        this.observerVelocityProperty.value = new Vector2(0, 0);
+        this.observerMovingProperty.value = false;
+        break;
+
+      case Scenario.TRAIN_BRAKING:
+        // Train braking at a constant rate, passing the observer before it comes to rest
+        this.sourceVelocityProperty.value = new Vector2(TRAIN.SPEED, 0);
+        this.source.accelerationProperty.value = new Vector2(-TRAIN.DECELERATION, 0);
+        this.observerVelocityProperty.value = new Vector2(0, 0);
+        this.sourceMovingProperty.value = true;
+        this.observerMovingProperty.value = false;
+        break;
+
+      case Scenario.RACE_CAR:
+        // Car lapping the track once through its corners, back to where it started
+        this.source.followTrajectory(
+          WaypointTrajectory.atConstantSpeed(
+            [INITIAL_POSITIONS.SOURCE, ...RACE_TRACK.CORNERS, INITIAL_POSITIONS.SOURCE],
+            RACE_TRACK.SPEED,
+          ),
+          this.simulationTimeProperty.value,
+        );
+        this.observerVelocityProperty.value = new Vector2(0, 0);
+        this.observerMovingProperty.value = false;
+        break;
+
+      case Scenario.FLYOVER:
+        // Aircraft in level flight, passing straight over the observer at the chosen altitude
+        this.sourceVelocityProperty.value = new Vector2(FLYOVER.SPEED, 0);
+        this.observerVelocityProperty.value = new Vector2(0, 0);
+        this.sourceMovingProperty.value = true;
+        this.observerMovingProperty.value = false;
+        break;
+
       default:
         // Free play mode - no initial velocities
         this.sourceVelocityProperty.value = new Vector2(0, 0);
@@ -653,6 +1252,33 @@ export class SimModel {
     }
   }
 
+  /**
+   * Create the circle followed by the rotating source, slowing it down if needed to stay below the speed limit
+   * @param startAngle - Angle of the starting position, measured from the x axis, in radians (rad)
+   * @returns The circular trajectory around the initial source position
+   */
+  private createRotationTrajectory(startAngle: number): CircularTrajectory {
+    const radius = this.rotationRadiusProperty.value; // in meters (m)
+    const maxSpeedFactor = this.supersonicEnabledProperty.value
+      ? SUPERSONIC.MAX_SPEED_FACTOR
+      : PHYSICS.MAX_SPEED_FACTOR; // dimensionless
+    const maxAngularSpeed = (this.soundSpeedProperty.value * maxSpeedFactor) / radius; // in radians per second (rad/s)
+    const angularSpeed = Math.min(this.rotationRateProperty.value, maxAngularSpeed); // in radians per second (rad/s)
+
+    return new CircularTrajectory(INITIAL_POSITIONS.SOURCE, radius, angularSpeed, startAngle);
+  }
+
+  /**
+   * Move the rotating source onto the current circle, keeping its angle, unless the user has taken over its motion
+   */
+  private updateRotation(): void {
+    const trajectory = this.source.getTrajectory();
+    if (trajectory instanceof CircularTrajectory) {
+      const angle = this.sourcePositionProperty.value.minus(trajectory.center).angle; // in radians (rad)
+      this.source.followTrajectory(this.createRotationTrajectory(angle), this.simulationTimeProperty.value);
+    }
+  }
+
   /**
    * Apply the current scenario settings
    * This is called when the scenario property changes
@@ -662,13 +1288,41 @@ export class SimModel {
     // Apply the scenario without resetting the entire simulation
 
     // Reset components
-    this.waveGenerator.reset();
+    for (const waveGenerator of this.waveGenerators.values()) {
+      waveGenerator.reset();
+    }
     this.waveformManager.reset(SOUND_DATA.ARRAY_SIZE);
+    for (const observer of this.observers) {
+      observer.waveformManager.reset(SOUND_DATA.ARRAY_SIZE);
+    }
+
+    // Scenarios start from free motion
+    for (const object of [...this.sources, ...this.observers, ...this.reflectors]) {
+      object.stopScriptedMotion();
+    }
 
     // Reset positions
     this.sourcePositionProperty.value = INITIAL_POSITIONS.SOURCE;
     this.observerPositionProperty.value = INITIAL_POSITIONS.OBSERVER;
 
+    // Added sources and observers return to their starting positions and wait there
+    const addedObjects = [
+      ...this.sources.filter((source) => source !== this.source),
+      ...this.observers.filter((observer) => observer !== this.observer),
+    ];
+    for (const object of addedObjects) {
+      object.positionProperty.value = object.initialPosition;
+      object.velocityProperty.reset();
+      object.movingProperty.reset();
+    }
+
+    // Reflectors stay in the play area, back at their starting positions
+    for (const reflector of this.reflectors) {
+      reflector.positionProperty.value = reflector.initialPosition;
+      reflector.velocityProperty.reset();
+      reflector.movingProperty.reset();
+    }
+
     // Configure velocities for the specific scenario
     this.configureScenarioVelocities(scenario);
   }
@@ -693,13 +1347,16 @@ export class SimModel {
       const wave = this.waves.get(i);
 
       // Calculate distance from wave center to microphone
-      const distance = this.microphonePositionProperty.value.distance(wave.position);
+      const distance = this.dopplerCalculator.getSlantDistance(wave, this.microphonePositionProperty.value);
 
       // Determine if wave front is crossing the microphone position
       const waveFrontRadius = wave.radius;
       const tolerance = 2; // Detection tolerance in meters
 
-      if (Math.abs(distance - waveFrontRadius) < tolerance) {
+      if (
+        Math.abs(distance - waveFrontRadius) < tolerance &&
+        this.dopplerCalculator.isInWavePath(wave, this.microphonePositionProperty.value)
+      ) {
         // Wave detected at microphone
         this.lastWaveDetectionTime = currentTime;
         this.waveDetectedProperty.value = true;
@@ -709,9 +1366,272 @@ export class SimModel {
   }
 
   /**
-   * Get the distance between the source and observer in meters
+   * Create the wave generator for a source
+   * @param source - The source that emits the waves
+   */
+  private addWaveGenerator(source: SoundSource): void {
+    this.waveGenerators.set(
+      source,
+      new WaveGenerator(
+        this.waves,
+        source,
+        () => this.simulationTimeProperty.value,
+        this.propagationHistory,
+        TIME_SPEED.HISTORY_DURATION + WAVE.MAX_AGE,
+        () => this.reflectors.filter((reflector) => reflector.enabledProperty.value),
+      ),
+    );
+  }
+
+  /**
+   * Add or remove sources until there are the requested number
+   * @param sourceCount - The number of sources
+   */
+  private updateSourceCount(sourceCount: number): void {
+    while (this.sources.length < sourceCount) {
+      this.addSource();
+    }
+
+    // The most recently added sources are removed first (the range keeps the first source)
+    while (this.sources.length > sourceCount) {
+      const lastSource = this.sources[this.sources.length - 1];
+      if (lastSource === undefined) {
+        break;
+      }
+      this.removeSource(lastSource);
+    }
+  }
+
+  /**
+   * Add a source next to the first one, a little higher in pitch than the last one so that beats can be heard
+   */
+  private addSource(): void {
+    const index = this.sources.length;
+
+    // Added sources start alternately below and above the first source
+    const row = Math.ceil(index / 2);
+    const offset = new Vector2(0, (index % 2 === 1 ? -1 : 1) * row * SOURCES.SPACING); // in meters (m)
+
+    const source = new SoundSource(
+      INITIAL_POSITIONS.SOURCE.plus(offset),
+      PHYSICS.EMITTED_FREQ + index * SOURCES.FREQUENCY_OFFSET,
+      0,
+      index,
+    );
+
+    this.addWaveGenerator(source);
+    this.positionHistories.set(source, []);
+    this.sources.add(source);
+  }
+
+  /**
+   * Remove a source along with its waves and trail
+   * @param source - The source to remove
+   */
+  private removeSource(source: SoundSource): void {
+    if (this.activeSourceProperty.value === source) {
+      this.activeSourceProperty.value = this.source;
+    }
+
+    this.waveGenerators.get(source)?.reset();
+    this.waveGenerators.delete(source);
+    this.positionHistories.delete(source);
+    this.sources.remove(source);
+  }
+
+  /**
+   * Add or remove observers until there are the requested number
+   * @param observerCount - The number of observers
+   */
+  private updateObserverCount(observerCount: number): void {
+    while (this.observers.length < observerCount) {
+      this.addObserver();
+    }
+
+    // The most recently added observers are removed first (the range keeps the first observer)
+    while (this.observers.length > observerCount) {
+      const lastObserver = this.observers[this.observers.length - 1];
+      if (lastObserver === undefined) {
+        break;
+      }
+      this.removeObserver(lastObserver);
+    }
+  }
+
+  /**
+   * Add an observer around the first source, so that listeners in front of, behind and beside it can be compared
+   */
+  private addObserver(): void {
+    const index = this.observers.length;
+
+    // The first observer is in front of the source, added ones start behind it and then on either side of it
+    const offset = INITIAL_POSITIONS.OBSERVER.minus(INITIAL_POSITIONS.SOURCE); // in meters (m)
+    const addedOffsets = [offset.negated(), offset.perpendicular, offset.perpendicular.negated()];
+    const addedOffset = addedOffsets[(index - 1) % addedOffsets.length] ?? offset;
+
+    const observer = new Observer(INITIAL_POSITIONS.SOURCE.plus(addedOffset), index);
+
+    this.positionHistories.set(observer, []);
+    this.observers.add(observer);
+  }
+
+  /**
+   * Remove an observer along with its trail
+   * @param observer - The observer to remove
+   */
+  private removeObserver(observer: Observer): void {
+    if (this.activeObserverProperty.value === observer) {
+      this.activeObserverProperty.value = this.observer;
+    }
+
+    this.observersInsideMachCone.delete(observer);
+    this.positionHistories.delete(observer);
+    this.observers.remove(observer);
+  }
+
+  /**
+   * Switch between sound waves and light waves
+   * @param lightMode - Whether the waves are now light waves
+   */
+  private applyLightMode(lightMode: boolean): void {
+    if (lightMode) {
+      // The wave speed becomes the (scaled) speed of light, the medium plays no part
+      this.supersonicEnabledProperty.value = false;
+      this.soundSpeedProperty.value = LIGHT.SCALED_SPEED;
+      this.limitToSubsonicSpeeds();
+    } else {
+      this.updateSoundSpeed();
+    }
+  }
+
+  /**
+   * Derive the speed of sound from the medium, its temperature and its humidity.
+   * Light waves keep their own speed until light mode is turned off.
+   */
+  private updateSoundSpeed(): void {
+    if (this.lightModeProperty.value) {
+      return;
+    }
+
+    this.soundSpeedProperty.value = this.mediumProperty.value.getSoundSpeed(
+      this.temperatureProperty.value,
+      this.humidityProperty.value,
+    );
+
+    // Moving into a slower medium must not push the objects past the speed of sound
+    if (!this.supersonicEnabledProperty.value) {
+      this.limitToSubsonicSpeeds();
+    }
+  }
+
+  /**
+   * Limit the source, observer and reflector speeds to the subsonic maximum
+   */
+  private limitToSubsonicSpeeds(): void {
+    const maxSpeed = this.soundSpeedProperty.value * PHYSICS.MAX_SPEED_FACTOR; // in meters per second (m/s)
+    const velocityProperties = [
+      ...this.sources.map((source) => source.velocityProperty),
+      ...this.observers.map((observer) => observer.velocityProperty),
+      ...this.reflectors.map((reflector) => reflector.velocityProperty),
+    ];
+    for (const velocityProperty of velocityProperties) {
+      if (velocityProperty.value.magnitude > maxSpeed) {
+        velocityProperty.value = velocityProperty.value.withMagnitude(maxSpeed);
+      }
+    }
+  }
+
+  /**
+   * Get the Mach cones of the sources that are moving faster than sound through the medium
+   * @returns One Mach cone per supersonic source, empty when there is no shock front
+   */
+  public getMachCones(): MachCone[] {
+    if (!this.supersonicEnabledProperty.value) {
+      return [];
+    }
+
+    const machCones: MachCone[] = [];
+    for (const source of this.sources) {
+      const relativeVelocity = source.velocityProperty.value.minus(this.mediumVelocityProperty.value); // in m/s
+      const machNumber = relativeVelocity.magnitude / this.soundSpeedProperty.value; // dimensionless
+      if (machNumber <= 1) {
+        continue;
+      }
+
+      const apex = source.positionProperty.value;
+
+      // The cone trails behind the source's motion through the medium, with sin(halfAngle) = 1 / M
+      const axis = relativeVelocity.negated().normalized();
+      const halfAngle = Math.asin(1 / machNumber); // in radians (rad)
+
+      // The edges extend to where they touch the oldest wavefront emitted outside of it
+      let length = 0; // in meters (m)
+      for (const wave of this.waves) {
+        const centerDistance = apex.distance(wave.position); // in meters (m)
+        if (wave.source === source && wave.reflection === null && centerDistance > wave.radius) {
+          length = Math.max(length, Math.sqrt(centerDistance * centerDistance - wave.radius * wave.radius));
+        }
+      }
+
+      machCones.push({ apex, axis, halfAngle, length });
+    }
+
+    return machCones;
+  }
+
+  /**
+   * Determine whether a position is inside the Mach cone
+   * @param machCone - The Mach cone of the source
+   * @param position - Position in meters (m)
+   */
+  private isInsideMachCone(machCone: MachCone, position: Vector2): boolean {
+    const offset = position.minus(machCone.apex); // in meters (m)
+    const alongAxis = offset.dot(machCone.axis); // in meters (m)
+    const acrossAxis = offset.minus(machCone.axis.timesScalar(alongAxis)).magnitude; // in meters (m)
+
+    return (
+      alongAxis > 0 &&
+      alongAxis <= machCone.length * Math.cos(machCone.halfAngle) &&
+      acrossAxis <= alongAxis * Math.tan(machCone.halfAngle)
+    );
+  }
+
+  /**
+   * Emit a sonic boom when a shock front sweeps over an observer or the microphone
+   */
+  private detectSonicBooms(): void {
+    const machCones = this.getMachCones();
+    const isInsideAnyMachCone = (position: Vector2) =>
+      machCones.some((machCone) => this.isInsideMachCone(machCone, position));
+
+    for (const observer of this.observers) {
+      const observerPosition = observer.positionProperty.value;
+      const observerInside = isInsideAnyMachCone(observerPosition);
+      if (observerInside && !this.observersInsideMachCone.has(observer)) {
+        this.sonicBoomEmitter.emit(observerPosition);
+      }
+      if (observerInside) {
+        this.observersInsideMachCone.add(observer);
+      } else {
+        this.observersInsideMachCone.delete(observer);
+      }
+    }
+
+    const microphonePosition = this.microphonePositionProperty.value;
+    const microphoneInside = this.microphoneEnabledProperty.value && isInsideAnyMachCone(microphonePosition);
+    if (microphoneInside && !this.microphoneInsideMachCone) {
+      this.sonicBoomEmitter.emit(microphonePosition);
+    }
+    this.microphoneInsideMachCone = microphoneInside;
+  }
+
+  /**
+   * Get the distance between the source and observer in meters, through the air when the source is flying
    */
   public getSourceObserverDistance(): number {
-    return this.sourcePositionProperty.value.distance(this.observerPositionProperty.value);
+    return Math.hypot(
+      this.sourcePositionProperty.value.distance(this.observerPositionProperty.value),
+      this.source.altitudeProperty.value,
+    );
   }
 }
@@ -0,0 +1,97 @@
+import { EnumerationProperty, NumberProperty, type Vector2 } from "scenerystack";
+import { FrequencyModulation } from "./FrequencyModulation";
+import { MovableObject } from "./MovableObject";
+
+/**
+ * SoundSource is a movable object that emits waves. Each source has its own
+ * frequency and phase, so that several sources can sound together.
+ * The frequency can also change over time through a modulation, like a chirp or a siren.
+ */
+export class SoundSource extends MovableObject {
+  // Frequency of the emitted waves in Hertz (Hz), around which the modulation varies
+  public readonly emittedFrequencyProperty: NumberProperty;
+
+  // How the emitted frequency changes over time
+  public readonly modulationProperty: EnumerationProperty<FrequencyModulation>;
+
+  // Height above the ground in meters (m), set by the model for a flyover. Observers, reflectors
+  // and the microphone stay on the ground, in the plane in which everything else moves.
+  public readonly altitudeProperty: NumberProperty;
+
+  // Position the source starts from and returns to on reset, in meters (m)
+  public readonly initialPosition: Vector2;
+
+  // Index of the source in the order sources were added, used to pick its color (dimensionless)
+  public readonly colorIndex: number;
+
+  // Phase of the emitted signal in radians (rad)
+  private readonly initialPhase: number;
+  private emittedPhase: number;
+
+  /**
+   * Create a new sound source
+   * @param initialPosition Initial position vector in meters (m)
+   * @param initialFrequency Initial emitted frequency in Hertz (Hz)
+   * @param initialPhase Initial phase of the emitted signal in radians (rad)
+   * @param colorIndex Index used to pick the color of the source and its waves
+   */
+  constructor(initialPosition: Vector2, initialFrequency: number, initialPhase: number, colorIndex: number) {
+    super(initialPosition);
+
+    this.emittedFrequencyProperty = new NumberProperty(initialFrequency);
+    this.modulationProperty = new EnumerationProperty(FrequencyModulation.NONE);
+    this.altitudeProperty = new NumberProperty(0);
+    this.initialPosition = initialPosition;
+    this.colorIndex = colorIndex;
+    this.initialPhase = initialPhase;
+    this.emittedPhase = initialPhase;
+  }
+
+  /**
+   * Get the frequency emitted at a time, including the modulation
+   * @param time Simulation time in seconds (s)
+   * @returns Instantaneous emitted frequency in Hertz (Hz)
+   */
+  public getInstantaneousFrequency(time: number): number {
+    return this.modulationProperty.value.getFrequency(this.emittedFrequencyProperty.value, time);
+  }
+
+  /**
+   * Advance the phase of the emitted signal
+   * @param dt Elapsed time in seconds (s), negative when time runs backward
+   * @param time Simulation time at the end of the elapsed time in seconds (s)
+   */
+  public advancePhase(dt: number, time: number): void {
+    this.emittedPhase += this.modulationProperty.value.getPhaseChange(
+      this.emittedFrequencyProperty.value,
+      time - dt,
+      time,
+    ); // in radians (rad)
+  }
+
+  /**
+   * Get current emitted phase
+   * @returns Current phase of the emitted signal in radians (rad)
+   */
+  public getEmittedPhase(): number {
+    return this.emittedPhase;
+  }
+
+  /**
+   * Restore the phase the emitted signal had at an earlier time, for when time runs backward
+   * @param phase Phase of the emitted signal in radians (rad)
+   */
+  public restorePhase(phase: number): void {
+    this.emittedPhase = phase;
+  }
+
+  /**
+   * Reset the source to its initial position, frequency, modulation and phase
+   */
+  public override reset(): void {
+    super.reset(this.initialPosition);
+    this.emittedFrequencyProperty.reset();
+    this.modulationProperty.reset();
+    this.emittedPhase = this.initialPhase;
+  }
+}
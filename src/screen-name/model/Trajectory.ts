@@ -0,0 +1,22 @@
+import type { Vector2 } from "scenerystack";
+
+/**
+ * Trajectory is a scripted path that a movable object follows exactly, such as a
+ * route through waypoints or a circular track. Times are measured from the moment
+ * the object starts following the trajectory.
+ */
+export interface Trajectory {
+  /**
+   * Get the position along the trajectory
+   * @param time Time since the start of the trajectory in seconds (s)
+   * @returns Position in meters (m)
+   */
+  getPosition(time: number): Vector2;
+
+  /**
+   * Get the velocity along the trajectory
+   * @param time Time since the start of the trajectory in seconds (s)
+   * @returns Velocity in meters per second (m/s)
+   */
+  getVelocity(time: number): Vector2;
+}
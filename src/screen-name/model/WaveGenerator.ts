@@ -1,86 +1,157 @@
-import type { ObservableArray, Vector2 } from "scenerystack";
+import type { ObservableArray } from "scenerystack";
+import { EmissionHistory, type EmissionSample } from "./EmissionHistory";
+import { type Keyframe, KeyframeHistory } from "./KeyframeHistory";
+import type { PropagationHistory } from "./PropagationHistory";
+import type { Reflector } from "./Reflector";
 import { WAVE } from "./SimConstants";
 import type { Wave } from "./SimModel";
+import type { SoundSource } from "./SoundSource";
+
+// An echo sent back, kept by the time of its reflection
+type EchoKeyframe = Keyframe & {
+  echo: Wave;
+};
+
 /**
  * WaveGenerator handles the creation, propagation, and lifecycle management of waves.
  * It encapsulates all wave-related functionality for the Doppler effect simulation.
+ * Each sound source has its own generator, and all generators share the array of waves.
+ *
+ * When a wavefront from the source reaches a reflector, the generator adds an echo: the image of the
+ * wavefront mirrored across the reflector, limited to the arc that the reflector sends back.
+ * Only waves coming straight from the source are reflected, echoes are not reflected again.
+ *
+ * The generator also records the trajectory and signal of its source at every step, from which the
+ * signal heard by an observer is found exactly rather than from the nearest wave circle. When time runs
+ * backward, the waves from the source are regenerated from that record rather than kept. Echoes depend on
+ * where the reflector was when each wavefront reached it, so they are kept as long as the record they come from.
  */
 export class WaveGenerator {
   private readonly waves: ObservableArray<Wave>;
+  private readonly source: SoundSource;
   private readonly getSimulationTime: () => number; // returns time in seconds (s)
-  private readonly getSourcePosition: () => Vector2; // returns position in meters (m)
-  private readonly getSourceVelocity: () => Vector2; // returns velocity in meters/second (m/s)
-  private readonly getEmittedFrequency: () => number; // returns frequency in Hertz (Hz)
-  private readonly getSoundSpeed: () => number; // returns speed in meters/second (m/s)
-  private readonly getEmittedPhase: () => number; // returns phase in radians (rad)
+  private readonly propagationHistory: PropagationHistory; // distance travelled and drift of the wavefronts
+  private readonly getReflectors: () => Reflector[]; // returns the reflectors in the play area
+
+  // Echoes sent back, in order of reflection, for time reversal
+  private readonly echoHistory: KeyframeHistory<EchoKeyframe> = new KeyframeHistory(WAVE.MAX_ECHOES);
+  private readonly emissionHistory: EmissionHistory; // State of the source at every step
 
-  // Time tracking (in seconds)
-  private lastWaveTime: number = 0; // in seconds (s)
-  private waveHistory: Wave[] = []; // History of waves for time reversal
+  // Birth times of the waves already echoed by each reflector, in seconds (s)
+  private readonly echoedBirthTimes: Map<Reflector, Set<number>> = new Map();
 
   /**
    * Create a new WaveGenerator
    */
   constructor(
     waves: ObservableArray<Wave>,
+    source: SoundSource,
     getSimulationTime: () => number, // returns time in seconds (s)
-    getSourcePosition: () => Vector2, // returns position in meters (m)
-    getSourceVelocity: () => Vector2, // returns velocity in meters/second (m/s)
-    getEmittedFrequency: () => number, // returns frequency in Hertz (Hz)
-    getSoundSpeed: () => number, // returns speed in meters/second (m/s)
-    getEmittedPhase: () => number, // returns phase in radians (rad)
+    propagationHistory: PropagationHistory,
+    historyDuration: number, // span of time the record of the source covers in seconds (s)
+    getReflectors: () => Reflector[] = () => [],
   ) {
+    this.emissionHistory = new EmissionHistory(historyDuration);
     this.waves = waves;
+    this.source = source;
     this.getSimulationTime = getSimulationTime;
-    this.getSourcePosition = getSourcePosition;
-    this.getSourceVelocity = getSourceVelocity;
-    this.getEmittedFrequency = getEmittedFrequency;
-    this.getSoundSpeed = getSoundSpeed;
-    this.getEmittedPhase = getEmittedPhase;
+    this.propagationHistory = propagationHistory;
+    this.getReflectors = getReflectors;
   }
 
   /**
-   * Generate new waves based on emitted frequency
+   * Generate the waves emitted during the last step, one at every period of the emitted signal.
+   * Each wavefront starts at the exact time its phase crossed a whole number of cycles, from the position
+   * the source had then, so several waves may be emitted in one step and none are dropped.
    */
   public generateWaves(): void {
-    const simulationTime = this.getSimulationTime(); // in seconds (s)
-    const waveInterval = 1.0 / this.getEmittedFrequency(); // in seconds (s)
-
-    // Check if it's time to emit a new wave
-    if (simulationTime - this.lastWaveTime > waveInterval) {
-      // Create a new wave
-      const newWave = {
-        position: this.getSourcePosition().copy(), // in meters (m)
-        radius: 0, // in meters (m)
-        birthTime: simulationTime, // in seconds (s)
-        sourceVelocity: this.getSourceVelocity().copy(), // in meters/second (m/s)
-        sourceFrequency: this.getEmittedFrequency(), // in Hertz (Hz)
-        phaseAtEmission: this.getEmittedPhase(), // in radians (rad)
-      };
+    const before = this.emissionHistory.get(this.emissionHistory.length - 2);
+    const after = this.emissionHistory.get(this.emissionHistory.length - 1);
+    if (before === undefined || after === undefined) {
+      return;
+    }
 
-      // Add to active waves
+    for (const newWave of this.createWaves(before, after)) {
       this.waves.add(newWave);
+    }
+  }
 
-      // Store in history for time reversal
-      this.waveHistory.push(newWave);
+  /**
+   * Create the waves emitted between two recorded samples, one at every whole cycle of the phase
+   * @param before The earlier sample
+   * @param after The later sample
+   * @returns The new waves, with zero radius, in order of emission
+   */
+  private createWaves(before: EmissionSample, after: EmissionSample): Wave[] {
+    const newWaves: Wave[] = [];
+    if (after.phase <= before.phase) {
+      return newWaves;
+    }
 
-      // Update last wave time (in seconds)
-      this.lastWaveTime = simulationTime; // in seconds (s)
+    const cycle = Math.PI * 2; // in radians (rad)
+    for (let n = Math.floor(before.phase / cycle) + 1; n * cycle <= after.phase; n++) {
+      // The phase is linear between two samples, which gives the time of the crossing
+      const fraction = (n * cycle - before.phase) / (after.phase - before.phase); // dimensionless
+      const emission = this.emissionHistory.getSample(before.time + (after.time - before.time) * fraction);
+      if (emission === null) {
+        continue;
+      }
+
+      newWaves.push({
+        source: this.source,
+        position: emission.position.copy(), // in meters (m)
+        emissionPosition: emission.position.copy(), // in meters (m)
+        emissionAltitude: emission.altitude, // in meters (m)
+        radius: 0, // in meters (m)
+        birthTime: emission.time, // in seconds (s)
+        sourceVelocity: emission.velocity.copy(), // in meters/second (m/s)
+        sourceFrequency: emission.frequency, // in Hertz (Hz)
+        phaseAtEmission: n * cycle, // in radians (rad)
+        reflection: null,
+      });
     }
+
+    return newWaves;
+  }
+
+  /**
+   * Record the state of the source and its emitted signal, continuously rather than once per period like the waves.
+   * Called once the phase of the source has been advanced for the step, and before the waves are generated.
+   */
+  public recordEmission(): void {
+    this.emissionHistory.record(
+      this.getSimulationTime(),
+      this.source.positionProperty.value,
+      this.source.altitudeProperty.value,
+      this.source.velocityProperty.value,
+      this.source.getInstantaneousFrequency(this.getSimulationTime()),
+      this.source.getEmittedPhase(),
+    );
   }
 
   /**
-   * Update existing waves (expand radius, remove old ones)
+   * Update existing waves (expand radius, drift with the wind, remove old ones)
    * @param simulationTime Current simulation time in seconds (s)
-   * @param modelDt Current model delta time in seconds (s)
    */
-  public updateWaves(simulationTime: number, modelDt: number): void {
+  public updateWaves(simulationTime: number): void {
+    // Distance travelled and drift accumulated since time zero, so that changes of the sound speed
+    // and the wind while a wave is in flight are accounted for exactly
+    const distance = this.propagationHistory.getDistance(simulationTime); // in meters (m)
+    const drift = this.propagationHistory.getDrift(simulationTime); // in meters (m)
+
     // Update existing waves
     for (let i = this.waves.length - 1; i >= 0; i--) {
       const wave = this.waves.get(i);
+      if (wave.source !== this.source) {
+        continue;
+      }
 
-      // Update radius based on modelDt and sound speed (in meters)
-      wave.radius += modelDt * this.getSoundSpeed(); // in meters (m)
+      // The radius is the distance travelled through the medium since the wave was emitted
+      wave.radius = distance - this.propagationHistory.getDistance(wave.birthTime); // in meters (m)
+
+      // Wavefronts are carried along by the moving medium
+      const driftSinceBirth = drift.minus(this.propagationHistory.getDrift(wave.birthTime)); // in meters (m)
+      wave.position = wave.emissionPosition.plus(driftSinceBirth); // in meters (m)
 
       // Calculate age in seconds (s)
       const age = simulationTime - wave.birthTime; // in seconds (s)
@@ -89,7 +160,66 @@ export class WaveGenerator {
       if (age > WAVE.MAX_AGE || wave.radius < 0) {
         // WAVE.MAX_AGE in seconds (s)
         this.waves.remove(wave);
+      } else if (wave.reflection === null) {
+        this.reflectWave(wave, simulationTime);
+      }
+    }
+  }
+
+  /**
+   * Add an echo of a wave for each reflector that its wavefront has just reached
+   * @param wave The wave coming from the source
+   * @param simulationTime Current simulation time in seconds (s)
+   */
+  private reflectWave(wave: Wave, simulationTime: number): void {
+    for (const reflector of this.getReflectors()) {
+      const echoedBirthTimes = this.echoedBirthTimes.get(reflector) ?? new Set<number>();
+      // Reflectors stand upright on the ground, so the wavefront of a source in the air reaches them
+      // when its radius equals the slant distance to their foot
+      const reflectionPoint = reflector.getClosestPoint(wave.position); // in meters (m)
+      const reflectionDistance = Math.hypot(wave.position.distance(reflectionPoint), wave.emissionAltitude); // in m
+      if (echoedBirthTimes.has(wave.birthTime) || reflectionDistance > wave.radius) {
+        continue;
       }
+
+      // The echo expands from the mirror image of the wave center, at the same altitude, and the reflector
+      // only sends back the arc between the lines from that image through its two ends
+      const imagePosition = reflector.mirror(wave.position); // in meters (m)
+      const [end1, end2] = reflector.getEndpoints();
+      const angle1 = end1.minus(imagePosition).angle; // in radians (rad)
+      const angle2 = end2.minus(imagePosition).angle; // in radians (rad)
+      const counterclockwise = Math.sin(angle2 - angle1) >= 0;
+
+      // The echo keeps the birth time of the original wave, and its emission position is chosen so that
+      // drifting with the wind since then puts its center at the image
+      const windDrift = this.propagationHistory
+        .getDrift(simulationTime)
+        .minus(this.propagationHistory.getDrift(wave.birthTime)); // in meters (m)
+
+      const echo: Wave = {
+        source: this.source,
+        position: imagePosition, // in meters (m)
+        emissionPosition: imagePosition.minus(windDrift), // in meters (m)
+        emissionAltitude: wave.emissionAltitude, // in meters (m)
+        radius: wave.radius, // in meters (m)
+        birthTime: wave.birthTime, // in seconds (s)
+        sourceVelocity: wave.sourceVelocity.copy(), // in meters/second (m/s)
+        sourceFrequency: wave.sourceFrequency, // in Hertz (Hz)
+        phaseAtEmission: wave.phaseAtEmission, // in radians (rad)
+        reflection: {
+          reflector: reflector,
+          time: simulationTime, // in seconds (s)
+          reflectorVelocity: reflector.velocityProperty.value.copy(), // in meters/second (m/s)
+          incidentDirection: reflectionPoint.minus(wave.position).normalized(), // dimensionless unit vector
+          startAngle: counterclockwise ? angle1 : angle2, // in radians (rad)
+          endAngle: counterclockwise ? angle2 : angle1, // in radians (rad)
+        },
+      };
+
+      this.waves.add(echo);
+      this.echoHistory.push({ time: simulationTime, echo: echo });
+      echoedBirthTimes.add(wave.birthTime);
+      this.echoedBirthTimes.set(reflector, echoedBirthTimes);
     }
   }
 
@@ -97,39 +227,144 @@ export class WaveGenerator {
    * Reset the wave generator state
    */
   public reset(): void {
-    this.lastWaveTime = 0;
-    this.waves.clear();
-    this.waveHistory = [];
+    this.removeWaves();
+    this.echoHistory.clear();
+    this.echoedBirthTimes.clear();
+    this.emissionHistory.reset();
+  }
+
+  /**
+   * Forget what was emitted after a time, and the echoes sent back since, for when time runs forward
+   * again from an earlier time
+   * @param time Simulation time in seconds (s)
+   */
+  public truncate(time: number): void {
+    this.emissionHistory.truncate(time);
+    this.echoHistory.truncate(time);
+    this.forgetEchoedBirthTimes((birthTime) => birthTime > time);
+  }
+
+  /**
+   * Forget what was emitted before a time, and the echoes sent back before it
+   * @param time Simulation time in seconds (s)
+   */
+  public prune(time: number): void {
+    this.emissionHistory.prune(time);
+    this.echoHistory.prune(time);
+    this.forgetEchoedBirthTimes((birthTime) => birthTime < time);
+  }
+
+  /**
+   * Forget which waves were echoed, for the birth times that no longer matter
+   * @param isForgotten Whether a birth time in seconds (s) is forgotten
+   */
+  private forgetEchoedBirthTimes(isForgotten: (birthTime: number) => boolean): void {
+    for (const echoedBirthTimes of this.echoedBirthTimes.values()) {
+      for (const birthTime of echoedBirthTimes) {
+        if (isForgotten(birthTime)) {
+          echoedBirthTimes.delete(birthTime);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the recorded trajectory and signal of the source
+   */
+  public getEmissionHistory(): EmissionHistory {
+    return this.emissionHistory;
   }
 
   /**
-   * Restore waves from history for a specific time
-   * @param targetTime The time to restore waves to
+   * Remove the echoes sent back by a reflector, for when it is taken out of the play area
+   * @param reflector The reflector
+   */
+  public removeEchoes(reflector: Reflector): void {
+    for (let i = this.waves.length - 1; i >= 0; i--) {
+      const wave = this.waves.get(i);
+      if (wave.source === this.source && wave.reflection?.reflector === reflector) {
+        this.waves.remove(wave);
+      }
+    }
+
+    // Keep the echoes of the other reflectors, in order
+    const keptEchoes: EchoKeyframe[] = [];
+    for (let i = 0; i < this.echoHistory.length; i++) {
+      const echoKeyframe = this.echoHistory.get(i);
+      if (echoKeyframe !== undefined && echoKeyframe.echo.reflection?.reflector !== reflector) {
+        keptEchoes.push(echoKeyframe);
+      }
+    }
+    this.echoHistory.clear();
+    for (const echoKeyframe of keptEchoes) {
+      this.echoHistory.push(echoKeyframe);
+    }
+    this.echoedBirthTimes.delete(reflector);
+  }
+
+  /**
+   * Remove the waves of this generator's source from the shared array of waves
+   */
+  private removeWaves(): void {
+    for (let i = this.waves.length - 1; i >= 0; i--) {
+      const wave = this.waves.get(i);
+      if (wave.source === this.source) {
+        this.waves.remove(wave);
+      }
+    }
+  }
+
+  /**
+   * Restore the waves that were in the air at an earlier time, for when time runs backward. What was
+   * recorded after that time is kept until time runs forward again.
+   * @param targetTime The time to restore waves to in seconds (s)
    */
   public restoreWavesFromHistory(targetTime: number): void {
-    // Clear current waves
-    this.waves.clear();
+    // Clear current waves of this source
+    this.removeWaves();
+    this.echoedBirthTimes.clear();
+
+    // Regenerate the waves emitted between the oldest that can still be in the air and the target time
+    const restoredWaves: Wave[] = [];
+    const firstIndex = this.emissionHistory.findIndexBefore(targetTime - WAVE.MAX_AGE);
+    for (let i = firstIndex + 1; i < this.emissionHistory.length; i++) {
+      const before = this.emissionHistory.get(i - 1);
+      const after = this.emissionHistory.get(i);
+      if (before === undefined || after === undefined || after.time > targetTime) {
+        break;
+      }
+      restoredWaves.push(...this.createWaves(before, after));
+    }
+
+    // Copy the echoes sent back by then, so that their radius can change without changing the history
+    for (let i = 0; i < this.echoHistory.length; i++) {
+      const echoKeyframe = this.echoHistory.get(i);
+      if (echoKeyframe === undefined || echoKeyframe.time > targetTime) {
+        break;
+      }
+      const echo = echoKeyframe.echo;
+      restoredWaves.push({ ...echo, emissionPosition: echo.emissionPosition.copy() });
+
+      // Remember which waves already have an echo, so that it is not sent back twice
+      if (echo.reflection !== null) {
+        const echoedBirthTimes = this.echoedBirthTimes.get(echo.reflection.reflector) ?? new Set<number>();
+        echoedBirthTimes.add(echo.birthTime);
+        this.echoedBirthTimes.set(echo.reflection.reflector, echoedBirthTimes);
+      }
+    }
 
-    // Find waves that should exist at the target time
-    for (const wave of this.waveHistory) {
-      // Only include waves that were born before the target time
-      // and haven't exceeded their maximum age
+    for (const wave of restoredWaves) {
+      // Only include waves that haven't exceeded their maximum age
       if (wave.birthTime <= targetTime && targetTime - wave.birthTime <= WAVE.MAX_AGE) {
-        // Create a copy of the wave with the correct radius for the target time
-        const age = targetTime - wave.birthTime;
-        const radius = age * this.getSoundSpeed();
-
-        const restoredWave = {
-          position: wave.position.copy(),
-          radius: radius,
-          birthTime: wave.birthTime,
-          sourceVelocity: wave.sourceVelocity.copy(),
-          sourceFrequency: wave.sourceFrequency,
-          phaseAtEmission: wave.phaseAtEmission,
-        };
+        // Give the wave the radius and drift it had at the target time
+        wave.radius =
+          this.propagationHistory.getDistance(targetTime) - this.propagationHistory.getDistance(wave.birthTime);
+        wave.position = wave.emissionPosition.plus(
+          this.propagationHistory.getDrift(targetTime).minus(this.propagationHistory.getDrift(wave.birthTime)),
+        );
 
         // Add to active waves
-        this.waves.add(restoredWave);
+        this.waves.add(wave);
       }
     }
   }
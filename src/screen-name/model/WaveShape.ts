@@ -0,0 +1,74 @@
+import { Enumeration, EnumerationValue, type TReadOnlyProperty } from "scenerystack";
+import { StringManager } from "../../i18n/StringManager";
+import { WAVEFORM } from "./SimConstants";
+
+// Value of a periodic signal at a phase in radians (rad), between -1 and 1 (dimensionless)
+type ShapeFunction = (phase: number) => number;
+
+// Fraction of the period elapsed at a phase, between 0 and 1 (dimensionless)
+const getCycleFraction = (phase: number): number => {
+  const fraction = phase / (Math.PI * 2);
+  return fraction - Math.floor(fraction);
+};
+
+/**
+ * Shape of the signal emitted by the sources. Every shape repeats once per period and starts
+ * a new cycle when the phase is a whole number of turns, so the Doppler shift compresses or
+ * stretches the whole waveform in time rather than changing its shape.
+ */
+export class WaveShape extends EnumerationValue {
+  // String property for display name
+  public readonly displayNameProperty: TReadOnlyProperty<string>;
+
+  // Signal value as a function of phase
+  private readonly shapeFunction: ShapeFunction;
+
+  public constructor(displayNameProperty: TReadOnlyProperty<string>, shapeFunction: ShapeFunction) {
+    super();
+
+    this.displayNameProperty = displayNameProperty;
+    this.shapeFunction = shapeFunction;
+  }
+
+  /**
+   * Get the value of the signal
+   * @param phase Phase of the signal in radians (rad)
+   * @returns Signal value between -1 and 1 (dimensionless)
+   */
+  public getValue(phase: number): number {
+    return this.shapeFunction(phase);
+  }
+
+  // Sine: a pure tone
+  public static readonly SINE = new WaveShape(
+    StringManager.getInstance().getWaveShapeStrings().sineStringProperty,
+    (phase) => Math.sin(phase),
+  );
+
+  // Square: high for the first half of each period and low for the second
+  public static readonly SQUARE = new WaveShape(
+    StringManager.getInstance().getWaveShapeStrings().squareStringProperty,
+    (phase) => (getCycleFraction(phase) < 0.5 ? 1 : -1),
+  );
+
+  // Triangle: rises and falls linearly, in step with the sine
+  public static readonly TRIANGLE = new WaveShape(
+    StringManager.getInstance().getWaveShapeStrings().triangleStringProperty,
+    (phase) => 1 - 4 * Math.abs(getCycleFraction(phase + Math.PI / 2) - 0.5),
+  );
+
+  // Sawtooth: rises linearly through zero at the start of each period, then drops back
+  public static readonly SAWTOOTH = new WaveShape(
+    StringManager.getInstance().getWaveShapeStrings().sawtoothStringProperty,
+    (phase) => 2 * getCycleFraction(phase + Math.PI) - 1,
+  );
+
+  // Pulse train: a short pulse at the start of each period, silent in between
+  public static readonly PULSE = new WaveShape(
+    StringManager.getInstance().getWaveShapeStrings().pulseStringProperty,
+    (phase) => (getCycleFraction(phase) < WAVEFORM.PULSE_DUTY_CYCLE ? 1 : 0),
+  );
+
+  // Gets a list of keys, values and mapping between them. For use in EnumerationProperty
+  public static readonly enumeration = new Enumeration(WaveShape);
+}
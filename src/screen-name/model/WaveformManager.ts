@@ -1,4 +1,13 @@
-import { WAVEFORM, type WaveformPoint } from "./SimConstants";
+import type { WaveformPoint } from "./SimConstants";
+import type { WaveShape } from "./WaveShape";
+
+// A single wave train reaching the observer (one per source, or two inside the Mach cone of a supersonic source)
+export type ObservedContribution = {
+  observedFrequency: number; // in Hertz (Hz), negative when the waves arrive in reverse order
+  phaseAtArrival: number; // in radians (rad)
+  timeSinceArrival: number; // in seconds (s)
+  amplitude: number; // after spreading and absorption, relative to the reference distance (dimensionless)
+};
 
 /**
  * WaveformManager handles the generation and updating of waveform data
@@ -13,19 +22,11 @@ export class WaveformManager {
   public readonly emittedSoundData: number[] = []; // raw amplitude values (dimensionless)
   public readonly observedSoundData: number[] = []; // raw amplitude values (dimensionless)
 
-  // History buffers for sound data
-  private readonly emittedSoundHistory: number[] = []; // historical raw amplitude values (dimensionless)
-  private readonly observedSoundHistory: number[] = []; // historical raw amplitude values (dimensionless)
-
   // Waveforms data for view visualization
   // These are the processed arrays used by the GraphDisplayNode
   public readonly emittedWaveformData: WaveformPoint[] = []; // t in seconds (s), y is dimensionless
   public readonly observedWaveformData: WaveformPoint[] = []; // t in seconds (s), y is dimensionless
 
-  // Phase accumulators (in radians)
-  private emittedPhase: number = 0; // in radians (rad)
-  private observedPhase: number = 0; // in radians (rad)
-
   /**
    * Create a new WaveformManager
    * @param soundDataSize Number of points to store in waveform arrays
@@ -45,8 +46,6 @@ export class WaveformManager {
     this.observedSoundData.length = 0;
     this.emittedWaveformData.length = 0;
     this.observedWaveformData.length = 0;
-    this.emittedSoundHistory.length = 0;
-    this.observedSoundHistory.length = 0;
 
     // Initialize arrays with default values
     for (let i = 0; i < size; i++) {
@@ -60,60 +59,69 @@ export class WaveformManager {
   }
 
   /**
-   * Update emitted waveform data based on frequency and elapsed time
-   * @param emittedFrequency Frequency in Hertz (Hz)
+   * Update emitted waveform data based on the phase of the emitted signal
+   * @param emittedPhase Current phase of the source in radians (rad)
    * @param dt Elapsed time in seconds (s)
    * @param timeSpeedFactor Simulation time speed factor (dimensionless)
+   * @param waveShape Shape of the emitted signal
    */
-  public updateEmittedWaveform(emittedFrequency: number, dt: number, timeSpeedFactor: number): void {
-    // Calculate emitted waveform phase (in model time)
-    this.emittedPhase += emittedFrequency * dt * Math.PI * 2; // in radians (rad)
-
+  public updateEmittedWaveform(emittedPhase: number, dt: number, timeSpeedFactor: number, waveShape: WaveShape): void {
     // Update sound data and apply time speed factor using encapsulated methods
     this.updateSoundData(
       this.emittedSoundData,
-      this.emittedSoundHistory,
       this.emittedWaveformData,
-      Math.sin(this.emittedPhase),
+      waveShape.getValue(emittedPhase),
       timeSpeedFactor,
       dt,
     );
   }
 
   /**
-   * Update observed waveform data
-   * @param observedFrequency Observed frequency in Hertz (Hz)
-   * @param phaseAtArrival Phase at wave arrival in radians (rad)
-   * @param timeSinceArrival Time since wave arrival in seconds (s)
+   * Update observed waveform data with the superposition of all contributions reaching the observer
+   * @param contributions Wave trains currently reaching the observer
    * @param timeSpeedFactor Simulation time speed factor (dimensionless)
+   * @param dt Elapsed time in seconds (s)
+   * @param waveShape Shape of the emitted signal, which every contribution carries with its own frequency
    */
   public updateObservedWaveform(
-    observedFrequency: number,
-    phaseAtArrival: number,
-    timeSinceArrival: number,
+    contributions: ObservedContribution[],
     timeSpeedFactor: number,
     dt: number,
+    waveShape: WaveShape,
   ): void {
-    // Calculate additional phase based on observed frequency
-    const additionalPhase = timeSinceArrival * observedFrequency * Math.PI * 2; // in radians (rad)
-    this.observedPhase = phaseAtArrival + additionalPhase; // in radians (rad)
+    let observedValue = 0; // dimensionless amplitude
+    for (const contribution of contributions) {
+      // Calculate additional phase based on observed frequency
+      const additionalPhase = contribution.timeSinceArrival * contribution.observedFrequency * Math.PI * 2; // in rad
+      observedValue += contribution.amplitude * waveShape.getValue(contribution.phaseAtArrival + additionalPhase);
+    }
 
     // Update sound data and apply time speed factor using encapsulated methods
-    this.updateSoundData(
-      this.observedSoundData,
-      this.observedSoundHistory,
-      this.observedWaveformData,
-      Math.sin(this.observedPhase),
-      timeSpeedFactor,
-      dt,
-    );
+    this.updateSoundData(this.observedSoundData, this.observedWaveformData, observedValue, timeSpeedFactor, dt);
+  }
+
+  /**
+   * Restore the emitted waveform to values recorded earlier, for when time runs backward
+   * @param values Recorded values, oldest first (dimensionless)
+   * @param timeSpeedFactor Simulation time speed factor (dimensionless)
+   */
+  public restoreEmittedWaveform(values: number[], timeSpeedFactor: number): void {
+    this.restoreSoundData(this.emittedSoundData, this.emittedWaveformData, values, timeSpeedFactor);
+  }
+
+  /**
+   * Restore the observed waveform to values recorded earlier, for when time runs backward
+   * @param values Recorded values, oldest first (dimensionless)
+   * @param timeSpeedFactor Simulation time speed factor (dimensionless)
+   */
+  public restoreObservedWaveform(values: number[], timeSpeedFactor: number): void {
+    this.restoreSoundData(this.observedSoundData, this.observedWaveformData, values, timeSpeedFactor);
   }
 
   /**
    * Update sound data arrays and waveform data
    * Encapsulates the common pattern of updating sound data and applying time speed factor
    * @param soundData Sound data array to update
-   * @param soundHistory History buffer for sound data
    * @param waveformData Waveform data array to update
    * @param newValue New value to add to the sound data
    * @param timeSpeedFactor Time speed factor to apply to waveform data
@@ -121,41 +129,41 @@ export class WaveformManager {
    */
   private updateSoundData(
     soundData: number[],
-    soundHistory: number[],
     waveformData: WaveformPoint[],
     newValue: number,
     timeSpeedFactor: number,
     dt: number,
   ): void {
+    // Going backward, the sound data is restored with the state of the simulation instead
     if (dt > 0) {
-      // Store shifted value in history buffer
-      const shiftedValue = soundData[0] ?? 0;
-      soundHistory.push(shiftedValue);
-
-      // Maintain history buffer size
-      if (soundHistory.length > WAVEFORM.HISTORY_BUFFER_SIZE) {
-        soundHistory.shift();
-      }
-
       // Update sound data with new value (shift off oldest value)
       soundData.push(newValue);
       soundData.shift();
-    } else if (soundHistory.length > 0) {
-      // For time reversal, get value from history if available
-      const historicalValue = soundHistory[soundHistory.length - 1] ?? 0;
-      soundHistory.pop();
-      soundData.pop();
-      soundData.unshift(historicalValue);
-    } else {
-      // If no history available, just move data as before
-      const lastValue = 0;
-      soundData.pop();
-      soundData.unshift(lastValue);
     }
     // Apply time speed factor to the waveform display
     this.updateWaveformData(soundData, waveformData, timeSpeedFactor);
   }
 
+  /**
+   * Fill a sound data array with the last recorded values, silent before the first one
+   * @param soundData Sound data array to fill
+   * @param waveformData Waveform data array to update
+   * @param values Recorded values, oldest first (dimensionless)
+   * @param timeSpeedFactor Time speed factor to apply to waveform data
+   */
+  private restoreSoundData(
+    soundData: number[],
+    waveformData: WaveformPoint[],
+    values: number[],
+    timeSpeedFactor: number,
+  ): void {
+    const offset = values.length - soundData.length;
+    for (let i = 0; i < soundData.length; i++) {
+      soundData[i] = values[i + offset] ?? 0;
+    }
+    this.updateWaveformData(soundData, waveformData, timeSpeedFactor);
+  }
+
   /**
    * Update waveform data based on sound data and time speed factor
    * Transforms raw sound data into properly scaled waveform visualization data
@@ -185,22 +193,12 @@ export class WaveformManager {
     this.updateWaveformData(this.observedSoundData, this.observedWaveformData, 1);
   }
 
-  /**
-   * Get current emitted phase
-   * @returns Current phase of the emitted wave in radians
-   */
-  public getEmittedPhase(): number {
-    return this.emittedPhase;
-  }
-
   /**
    * Reset the waveform manager state
-   * Resets phase accumulators and reinitializes all data arrays
+   * Reinitializes all data arrays
    * @param soundDataSize Size of the waveform data arrays
    */
   public reset(soundDataSize: number): void {
-    this.emittedPhase = 0;
-    this.observedPhase = 0;
     this.initializeArrays(soundDataSize);
   }
 }
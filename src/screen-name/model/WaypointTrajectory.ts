@@ -0,0 +1,90 @@
+import { Vector2 } from "scenerystack";
+import type { Trajectory } from "./Trajectory";
+
+// A point the trajectory passes through, and when
+export type Waypoint = {
+  time: number; // time since the start of the trajectory in seconds (s)
+  position: Vector2; // in meters (m)
+};
+
+/**
+ * WaypointTrajectory moves in a straight line at constant velocity from one waypoint to the next
+ * (piecewise-linear motion). Before the first waypoint and after the last one the object is at rest there.
+ */
+export class WaypointTrajectory implements Trajectory {
+  private readonly waypoints: [Waypoint, ...Waypoint[]];
+
+  /**
+   * Create a new waypoint trajectory
+   * @param waypoints Waypoints in order of increasing time, at least one
+   */
+  constructor(waypoints: [Waypoint, ...Waypoint[]]) {
+    this.waypoints = waypoints;
+  }
+
+  /**
+   * Create a trajectory that visits positions one after the other at a constant speed
+   * @param positions Positions to visit in order, in meters (m)
+   * @param speed Speed along the path in meters per second (m/s)
+   * @returns The trajectory, starting at the first position
+   */
+  public static atConstantSpeed(positions: [Vector2, ...Vector2[]], speed: number): WaypointTrajectory {
+    const [firstPosition, ...laterPositions] = positions;
+    const waypoints: [Waypoint, ...Waypoint[]] = [{ time: 0, position: firstPosition }];
+
+    let time = 0; // in seconds (s)
+    let previousPosition = firstPosition;
+    for (const position of laterPositions) {
+      time += previousPosition.distance(position) / speed;
+      waypoints.push({ time, position });
+      previousPosition = position;
+    }
+    return new WaypointTrajectory(waypoints);
+  }
+
+  /**
+   * Get the position along the trajectory
+   * @param time Time since the start of the trajectory in seconds (s)
+   * @returns Position in meters (m)
+   */
+  public getPosition(time: number): Vector2 {
+    const [start, end] = this.getSegment(time);
+    if (end.time === start.time) {
+      return start.position.copy();
+    }
+
+    // Interpolate linearly within the segment (dimensionless fraction)
+    const fraction = (time - start.time) / (end.time - start.time);
+    return start.position.blend(end.position, fraction);
+  }
+
+  /**
+   * Get the velocity along the trajectory
+   * @param time Time since the start of the trajectory in seconds (s)
+   * @returns Velocity in meters per second (m/s)
+   */
+  public getVelocity(time: number): Vector2 {
+    const [start, end] = this.getSegment(time);
+    if (end.time === start.time) {
+      return new Vector2(0, 0);
+    }
+    return end.position.minus(start.position).timesScalar(1 / (end.time - start.time));
+  }
+
+  /**
+   * Find the waypoints on either side of a time, or the same waypoint twice outside of the trajectory
+   * @param time Time since the start of the trajectory in seconds (s)
+   */
+  private getSegment(time: number): [Waypoint, Waypoint] {
+    for (let i = 1; i < this.waypoints.length; i++) {
+      const start = this.waypoints[i - 1];
+      const end = this.waypoints[i];
+      if (start !== undefined && end !== undefined && time < end.time) {
+        return time < start.time ? [start, start] : [start, end];
+      }
+    }
+
+    const lastWaypoint = this.waypoints[this.waypoints.length - 1] ?? this.waypoints[0];
+    return [lastWaypoint, lastWaypoint];
+  }
+}
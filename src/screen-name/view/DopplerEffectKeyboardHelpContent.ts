@@ -53,23 +53,26 @@ export class DopplerEffectKeyboardHelpContent extends TwoColumnKeyboardHelpConte
         },
       ),
       KeyboardHelpSectionRow.labelWithIcon(
-        strings.adjust.soundSpeedStringProperty,
+        strings.adjust.temperatureStringProperty,
         KeyboardHelpIconFactory.iconToIcon(new LetterKeyNode(","), new LetterKeyNode(".")),
         {
-          labelInnerContent: strings.a11y.adjust.soundSpeedStringProperty,
+          labelInnerContent: strings.a11y.adjust.temperatureStringProperty,
         },
       ),
     ]);
 
-    // Choosing a preset scenario (0–6).
+    // Choosing a preset scenario (0–9, C).
     const scenariosSection = new KeyboardHelpSection(strings.sections.scenariosStringProperty, [
       KeyboardHelpSectionRow.labelWithIcon(
         strings.scenarioKeys.freePlayStringProperty,
-        KeyboardHelpIconFactory.iconToIcon(new LetterKeyNode("0"), new LetterKeyNode("6")),
+        KeyboardHelpIconFactory.iconToIcon(new LetterKeyNode("0"), new LetterKeyNode("9")),
         {
           labelInnerContent: strings.a11y.scenarioKeys.freePlayStringProperty,
         },
       ),
+      KeyboardHelpSectionRow.labelWithIcon(strings.scenarioKeys.raceCarStringProperty, new LetterKeyNode("C"), {
+        labelInnerContent: strings.a11y.scenarioKeys.raceCarStringProperty,
+      }),
     ]);
 
     // Toggling motion trails (T), microphone (M) and help (H).
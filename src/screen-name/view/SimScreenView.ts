@@ -1,5 +1,6 @@
 import {
   type Bounds2,
+  Checkbox,
   Circle,
   ComboBox,
   DerivedProperty,
@@ -8,27 +9,40 @@ import {
   PhetFont,
   type ProfileColorProperty,
   Property,
+  Rectangle,
   ResetAllButton,
   Text,
   TimeControlNode,
+  TimeSpeed,
   type TReadOnlyProperty,
   Vector2,
+  VerticalCheckboxGroup,
 } from "scenerystack";
 import { ScreenView, type ScreenViewOptions } from "scenerystack/sim";
 import DopplerEffectColors from "../../DopplerEffectColors";
 import { StringManager } from "../../i18n/StringManager";
+import type { MovableObject } from "../model/MovableObject";
+import { Observer } from "../model/Observer";
 import { SCALE } from "../model/SimConstants";
 import { Scenario, type SimModel } from "../model/SimModel";
+import { SoundSource } from "../model/SoundSource";
 import { ConnectingLineNode } from "./components/ConnectingLineNode";
 // Import components directly
 import { ControlPanelNode } from "./components/ControlPanelNode";
+import { FlyoverNode } from "./components/FlyoverNode";
 import { GraphDisplayNode } from "./components/GraphDisplayNode";
 import { GridNode } from "./components/GridNode";
 import { KeyboardShorcutsNode } from "./components/KeyboardShorcutsNode";
+import { MachConeNode } from "./components/MachConeNode";
 import { MicrophoneNode } from "./components/MicrophoneNode";
 import { MoveableObjectView } from "./components/MoveableObjectView";
+import { ObjectCountControlNode } from "./components/ObjectCountControlNode";
+import { ReflectorNode } from "./components/ReflectorNode";
+import { RotationControlNode } from "./components/RotationControlNode";
 import { ScaleMarkNode } from "./components/ScaleMarkNode";
 import { StatusTextNode } from "./components/StatusTextNode";
+import { TimelineNode } from "./components/TimelineNode";
+import { WindIndicatorNode } from "./components/WindIndicatorNode";
 // Import managers directly
 import { DragHandlerManager } from "./managers/DragHandlerManager";
 import { KeyboardHandlerManager } from "./managers/KeyboardHandlerManager";
@@ -44,8 +58,54 @@ const UI = {
   GRAPH_MARGIN: 20,
   GRAPH_SPACING: 10,
   TRAIL_WIDTH: 2,
+  SONIC_BOOM_FLASH_OPACITY: 0.35,
+  SONIC_BOOM_FLASH_DURATION: 150, // milliseconds
 } as const;
 
+// Colors of each source, its velocity arrow and its waves, picked by the color index of the source
+const SOURCE_COLOR_SETS = [
+  {
+    sourceColorProperty: DopplerEffectColors.sourceColorProperty,
+    velocityArrowColorProperty: DopplerEffectColors.sourceVelocityArrowColorProperty,
+    waveColorProperty: DopplerEffectColors.waveColorProperty,
+  },
+  {
+    sourceColorProperty: DopplerEffectColors.secondSourceColorProperty,
+    velocityArrowColorProperty: DopplerEffectColors.secondSourceColorProperty,
+    waveColorProperty: DopplerEffectColors.secondWaveColorProperty,
+  },
+  {
+    sourceColorProperty: DopplerEffectColors.thirdSourceColorProperty,
+    velocityArrowColorProperty: DopplerEffectColors.thirdSourceColorProperty,
+    waveColorProperty: DopplerEffectColors.thirdWaveColorProperty,
+  },
+  {
+    sourceColorProperty: DopplerEffectColors.fourthSourceColorProperty,
+    velocityArrowColorProperty: DopplerEffectColors.fourthSourceColorProperty,
+    waveColorProperty: DopplerEffectColors.fourthWaveColorProperty,
+  },
+] as const;
+
+// Colors of each observer, its velocity arrow and its observed waveform, picked by the color index of the observer
+const OBSERVER_COLOR_SETS = [
+  {
+    observerColorProperty: DopplerEffectColors.observerColorProperty,
+    velocityArrowColorProperty: DopplerEffectColors.observerVelocityArrowColorProperty,
+  },
+  {
+    observerColorProperty: DopplerEffectColors.secondObserverColorProperty,
+    velocityArrowColorProperty: DopplerEffectColors.secondObserverColorProperty,
+  },
+  {
+    observerColorProperty: DopplerEffectColors.thirdObserverColorProperty,
+    velocityArrowColorProperty: DopplerEffectColors.thirdObserverColorProperty,
+  },
+  {
+    observerColorProperty: DopplerEffectColors.fourthObserverColorProperty,
+    velocityArrowColorProperty: DopplerEffectColors.fourthObserverColorProperty,
+  },
+] as const;
+
 /**
  * View for the Doppler Effect simulation
  *
@@ -71,13 +131,17 @@ export class SimScreenView extends ScreenView {
   private readonly objectLayer: Node;
   private readonly controlLayer: Node;
   private readonly graphLayer: Node;
+  private readonly sourceLayer: Node;
+  private readonly observerLayer: Node;
 
-  // UI elements
-  private readonly sourceView: MoveableObjectView;
-  private readonly observerView: MoveableObjectView;
+  // UI elements, with a view for each source and observer
+  private readonly objectViews: Map<MovableObject, MoveableObjectView> = new Map();
   private readonly microphoneNode: MicrophoneNode;
   private readonly connectingLineNode: ConnectingLineNode;
   private readonly selectionHighlightCircle: Circle;
+  private readonly machConeNode: MachConeNode;
+  private readonly flyoverNode: FlyoverNode;
+  private readonly sonicBoomFlash: Rectangle;
 
   // Components
   private readonly graphDisplayNode: GraphDisplayNode;
@@ -88,8 +152,7 @@ export class SimScreenView extends ScreenView {
 
   // Managers
   private readonly waveManager: WaveManager;
-  private readonly sourceDragManager: DragHandlerManager;
-  private readonly observerDragManager: DragHandlerManager;
+  private readonly dragManagers: Map<MovableObject, DragHandlerManager> = new Map();
   private readonly keyboardManager: KeyboardHandlerManager;
 
   // Visibility properties
@@ -101,12 +164,11 @@ export class SimScreenView extends ScreenView {
   private readonly keyboardHelpVisibleProperty: Property<boolean>;
 
   // Selection tracking
-  private readonly selectedObjectProperty: Property<"source" | "observer"> = new Property<"source" | "observer">(
-    "source",
-  );
+  private readonly selectedObjectProperty: Property<MovableObject>;
 
   // Sound elements
   private readonly clickSound: Sound;
+  private readonly sonicBoomSound: Sound;
 
   // Derived property for interface bounds
   private readonly interfaceBoundsProperty: TReadOnlyProperty<Bounds2>;
@@ -142,6 +204,7 @@ export class SimScreenView extends ScreenView {
     this.visibleTrailsProperty = new Property<boolean>(false);
     this.visibleGridProperty = new Property<boolean>(false);
     this.keyboardHelpVisibleProperty = new Property<boolean>(false);
+    this.selectedObjectProperty = new Property<MovableObject>(this.model.activeSourceProperty.value);
 
     // Matches visibleBounds horizontally, layoutBounds vertically
     this.interfaceBoundsProperty = new DerivedProperty([this.visibleBoundsProperty], (visibleBounds) =>
@@ -172,40 +235,15 @@ export class SimScreenView extends ScreenView {
     // Add grid to the scene - behind the waves
     this.insertChild(0, this.gridNode);
 
-    // common options for both source and observer
-    const commonMoveableObjectViewOptions = {
-      visibleVelocityArrowProperty: this.visibleVelocityArrowProperty,
-      visibleTrailsProperty: this.visibleTrailsProperty,
-      visibleValuesProperty: this.visibleValuesProperty,
-      textColorProperty: DopplerEffectColors.textColorProperty,
-      velocityScale: SCALE.VELOCITY_VECTOR,
-      trailWidth: UI.TRAIL_WIDTH,
-    };
-
-    // Create source and observer views
-    this.sourceView = new MoveableObjectView(this.modelViewTransform, {
-      ...commonMoveableObjectViewOptions,
-      radius: UI.SOURCE_RADIUS,
-      fillColorProperty: DopplerEffectColors.sourceColorProperty,
-      velocityArrowColorProperty: DopplerEffectColors.sourceVelocityArrowColorProperty,
-      trailColorProperty: DopplerEffectColors.sourceColorProperty,
-      accessibleName: "Sound source",
-    });
-
-    this.observerView = new MoveableObjectView(this.modelViewTransform, {
-      ...commonMoveableObjectViewOptions,
-      radius: UI.OBSERVER_RADIUS,
-      fillColorProperty: DopplerEffectColors.observerColorProperty,
-      velocityArrowColorProperty: DopplerEffectColors.observerVelocityArrowColorProperty,
-      trailColorProperty: DopplerEffectColors.observerColorProperty,
-      accessibleName: "Observer",
-    });
+    // Create the layers holding the source and observer views, which are added and removed with the model objects
+    this.sourceLayer = new Node();
+    this.observerLayer = new Node();
 
     // Create connecting line using the new ConnectingLineNode class
     this.connectingLineNode = new ConnectingLineNode(
       this.modelViewTransform,
-      this.model.sourcePositionProperty,
-      this.model.observerPositionProperty,
+      this.model.activeSourcePositionProperty,
+      this.model.activeObserverPositionProperty,
       this.visibleValuesProperty,
       this.visibleLineOfSightProperty,
       this.model.sourceObserverDistanceProperty,
@@ -219,11 +257,45 @@ export class SimScreenView extends ScreenView {
       tagName: null,
     });
 
+    // Create Mach cone, drawn over the wave circles
+    this.machConeNode = new MachConeNode(this.modelViewTransform);
+
+    // Create reflectors, drawn under the sources and observers
+    const reflectorLayer = new Node();
+    for (const reflector of this.model.reflectors) {
+      const reflectorNode = new ReflectorNode(reflector, this.modelViewTransform);
+      reflectorLayer.addChild(reflectorNode);
+
+      // Only the plate can be dragged, walls stay where they are
+      if (reflector.movable) {
+        const dragManager = new DragHandlerManager(
+          this.modelViewTransform,
+          this.layoutBounds,
+          this.model.soundSpeedProperty,
+          this.model.supersonicEnabledProperty,
+        );
+        dragManager.attachDragHandler(
+          reflectorNode,
+          reflector.positionProperty,
+          reflector.velocityProperty,
+          reflector.movingProperty,
+          () => {
+            // Dragging takes over from any scripted motion, but the plate is not one of the objects
+            // that the controls and readouts apply to
+            reflector.stopScriptedMotion();
+          },
+        );
+        this.dragManagers.set(reflector, dragManager);
+      }
+    }
+
     // Add objects to object layer
+    this.objectLayer.addChild(this.machConeNode);
+    this.objectLayer.addChild(reflectorLayer);
     this.objectLayer.addChild(this.connectingLineNode);
     this.objectLayer.addChild(this.selectionHighlightCircle);
-    this.objectLayer.addChild(this.sourceView);
-    this.objectLayer.addChild(this.observerView);
+    this.objectLayer.addChild(this.sourceLayer);
+    this.objectLayer.addChild(this.observerLayer);
 
     // Create microphone node
     this.microphoneNode = new MicrophoneNode(
@@ -236,17 +308,11 @@ export class SimScreenView extends ScreenView {
     this.objectLayer.addChild(this.microphoneNode);
 
     // Initialize managers
-    this.waveManager = new WaveManager(this.waveLayer, this.modelViewTransform, DopplerEffectColors.waveColorProperty);
-
-    this.sourceDragManager = new DragHandlerManager(
+    this.waveManager = new WaveManager(
+      this.waveLayer,
       this.modelViewTransform,
-      this.layoutBounds,
-      this.model.soundSpeedProperty,
-    );
-    this.observerDragManager = new DragHandlerManager(
-      this.modelViewTransform,
-      this.layoutBounds,
-      this.model.soundSpeedProperty,
+      (wave) => this.model.getWaveAmplitude(wave),
+      SOURCE_COLOR_SETS.map((colorSet) => colorSet.waveColorProperty),
     );
 
     this.keyboardManager = new KeyboardHandlerManager();
@@ -258,6 +324,7 @@ export class SimScreenView extends ScreenView {
       graphWidth: UI.GRAPH_WIDTH,
       graphMargin: UI.GRAPH_MARGIN,
       graphSpacing: UI.GRAPH_SPACING,
+      observedWaveformColorProperties: OBSERVER_COLOR_SETS.map((colorSet) => colorSet.observerColorProperty),
     });
     this.graphDisplayNode.setAccessibleName("Frequency graphs");
     this.graphLayer.addChild(this.graphDisplayNode);
@@ -265,8 +332,13 @@ export class SimScreenView extends ScreenView {
     // Create status text display
     this.statusDisplayNode = new StatusTextNode(
       this.model.observedFrequencyProperty,
-      this.model.emittedFrequencyProperty,
+      this.model.sourceFrequencyProperty,
       this.visibleValuesProperty,
+      this.model.machNumberProperty,
+      this.model.supersonicEnabledProperty,
+      this.model.soundSpeedProperty,
+      this.model.lightModeProperty,
+      this.model.intensityLevelProperty,
       {
         layoutBounds: this.layoutBounds,
         textColorProperty: DopplerEffectColors.textColorProperty,
@@ -282,6 +354,9 @@ export class SimScreenView extends ScreenView {
     this.statusDisplayNode.setAriaRole("status");
     this.controlLayer.addChild(this.statusDisplayNode);
 
+    // Combo box lists are shown in this node, above the other controls
+    const listParentNode = new Node();
+
     // Create control panel
     this.controlPanel = new ControlPanelNode(
       this.visibleValuesProperty,
@@ -290,13 +365,24 @@ export class SimScreenView extends ScreenView {
       this.visibleTrailsProperty,
       this.visibleGridProperty,
       this.model.microphoneEnabledProperty,
-      this.model.soundSpeedProperty,
+      this.model.supersonicEnabledProperty,
+      this.model.lightModeProperty,
+      this.model.absorptionEnabledProperty,
+      this.model.mediumProperty,
+      this.model.temperatureProperty,
       this.model.emittedFrequencyProperty,
-      this.model.soundSpeedRange,
+      this.model.modulationProperty,
+      this.model.waveShapeProperty,
+      this.model.temperatureRange,
       this.model.frequencyRange,
+      this.model.windSpeedProperty,
+      this.model.windDirectionProperty,
+      this.model.windSpeedRange,
+      this.model.windDirectionRange,
       {
         graphRight: this.graphDisplayNode.right,
         graphBottom: this.graphDisplayNode.observedGraphBottom,
+        listParentNode: listParentNode,
       },
     );
     this.controlPanel.setAccessibleName("Control panel");
@@ -305,8 +391,6 @@ export class SimScreenView extends ScreenView {
     // Create scenario items for the combo box
     const scenarioItems = this.createScenarioItems(DopplerEffectColors.textColorProperty);
 
-    const listParentNode = new Node();
-
     // Create combo box using SceneryStack API
     const scenarioComboBoxNode = new ComboBox(model.scenarioProperty, scenarioItems, listParentNode, {
       buttonFill: DopplerEffectColors.backgroundColorProperty,
@@ -317,7 +401,68 @@ export class SimScreenView extends ScreenView {
     });
     scenarioComboBoxNode.setAccessibleName("Scenario selector");
 
+    // Create wind indicator, drawn in the play area below the scenario selector (light waves feel no wind)
+    const windIndicatorNode = new WindIndicatorNode(
+      this.model.mediumVelocityProperty,
+      this.modelViewTransform,
+      SCALE.VELOCITY_VECTOR,
+    );
+    windIndicatorNode.setAccessibleName("Wind");
+
+    // Create source count control, below the scenario selector
+    const controlPanelStrings = StringManager.getInstance().getControlPanelStrings();
+    const sourceCountControlNode = new ObjectCountControlNode(
+      controlPanelStrings.sourcesStringProperty,
+      this.model.sourceCountProperty,
+      this.model.sourceCountRange,
+    );
+    sourceCountControlNode.setAccessibleName("Number of sources");
+
+    // Create observer count control, below the source count control
+    const observerCountControlNode = new ObjectCountControlNode(
+      controlPanelStrings.observersStringProperty,
+      this.model.observerCountProperty,
+      this.model.observerCountRange,
+    );
+    observerCountControlNode.setAccessibleName("Number of observers");
+
+    // Create reflector checkboxes, below the observer count control
+    const reflectorCheckboxGroup = new VerticalCheckboxGroup(
+      [
+        { property: this.model.wall.enabledProperty, label: controlPanelStrings.wallStringProperty },
+        { property: this.model.plate.enabledProperty, label: controlPanelStrings.movingReflectorStringProperty },
+      ].map(({ property, label }) => ({
+        property,
+        createNode: () => new Text(label, { font: new PhetFont(14), fill: DopplerEffectColors.textColorProperty }),
+      })),
+    );
+    reflectorCheckboxGroup.setAccessibleName("Reflectors");
+
+    // Create rotating source controls, in the bottom left corner
+    const rotationControlNode = new RotationControlNode(
+      this.model.rotationRadiusProperty,
+      this.model.rotationRateProperty,
+      this.model.rotationRadiusRange,
+      this.model.rotationRateRange,
+      this.model.scenarioProperty,
+    );
+    rotationControlNode.setAccessibleName("Rotating source");
+
+    // Create flyover controls and side view, in the same corner since only one scenario is shown at a time
+    this.flyoverNode = new FlyoverNode(
+      this.model.altitudeProperty,
+      this.model.altitudeRange,
+      this.model.scenarioProperty,
+    );
+    this.flyoverNode.setAccessibleName("Aircraft flyover");
+
     // Add to control layer
+    this.controlLayer.addChild(windIndicatorNode);
+    this.controlLayer.addChild(sourceCountControlNode);
+    this.controlLayer.addChild(observerCountControlNode);
+    this.controlLayer.addChild(reflectorCheckboxGroup);
+    this.controlLayer.addChild(rotationControlNode);
+    this.controlLayer.addChild(this.flyoverNode);
     this.controlLayer.addChild(scenarioComboBoxNode);
     this.controlLayer.addChild(listParentNode);
     // Setup reset all button
@@ -345,6 +490,7 @@ export class SimScreenView extends ScreenView {
     const timeControlNode = new TimeControlNode(this.model.playProperty, {
       tagName: "div",
       timeSpeedProperty: this.model.timeSpeedProperty,
+      timeSpeeds: [TimeSpeed.FAST, TimeSpeed.NORMAL, TimeSpeed.SLOW],
       playPauseStepButtonOptions: {
         includeStepBackwardButton: true,
         stepBackwardButtonOptions: {
@@ -368,6 +514,28 @@ export class SimScreenView extends ScreenView {
     timeControlNode.setAccessibleName("Simulation speed control");
     this.controlLayer.addChild(timeControlNode);
 
+    // Playing backward runs the whole scene in reverse, at the speed picked in the time controls
+    const playBackwardCheckbox = new Checkbox(
+      this.model.playBackwardProperty,
+      new Text(controlPanelStrings.playBackwardStringProperty, {
+        font: new PhetFont(14),
+        fill: DopplerEffectColors.textColorProperty,
+        maxWidth: 150,
+      }),
+    );
+    playBackwardCheckbox.setAccessibleName("Play backward");
+    this.controlLayer.addChild(playBackwardCheckbox);
+
+    // Add the timeline under the time controls, for seeking anywhere in the recorded time
+    const timelineNode = new TimelineNode(
+      this.model.simulationTimeProperty,
+      this.model.recordedTimeRangeProperty,
+      this.model.playProperty,
+      (time) => this.model.seek(time),
+    );
+    timelineNode.setAccessibleName("Timeline");
+    this.controlLayer.addChild(timelineNode);
+
     // Create keyboard shortcuts node
     this.keyboardShorcutsNode = new KeyboardShorcutsNode({
       visibleProperty: this.keyboardHelpVisibleProperty,
@@ -394,43 +562,53 @@ export class SimScreenView extends ScreenView {
         },
       },
       this.model.playProperty,
-      this.model.sourceVelocityProperty,
-      this.model.observerVelocityProperty,
-      this.model.sourceMovingProperty,
-      this.model.observerMovingProperty,
+      this.model.sources,
+      this.model.observers,
       this.model.emittedFrequencyProperty,
-      this.model.soundSpeedProperty,
+      this.model.temperatureProperty,
+      this.model.temperatureRange,
+      this.model.lightModeProperty,
       this.model.microphoneEnabledProperty,
       this.selectedObjectProperty,
       this.model.scenarioProperty,
     );
 
-    // Setup drag handlers
-    this.sourceDragManager.attachDragHandler(
-      this.sourceView.getObjectNode(),
-      this.model.sourcePositionProperty,
-      this.model.sourceVelocityProperty,
-      this.model.sourceMovingProperty,
-      () => {
-        this.selectedObjectProperty.value = "source";
-        this.updateSelectionHighlight();
-      },
-    );
+    // Create views and drag handlers for the sources and observers, and keep them in sync with the model
+    for (const source of this.model.sources) {
+      this.addSourceView(source);
+    }
+    this.model.sources.addItemAddedListener((source) => this.addSourceView(source));
+    this.model.sources.addItemRemovedListener((source) => this.removeObjectView(source, this.sourceLayer));
 
-    this.observerDragManager.attachDragHandler(
-      this.observerView.getObjectNode(),
-      this.model.observerPositionProperty,
-      this.model.observerVelocityProperty,
-      this.model.observerMovingProperty,
-      () => {
-        this.selectedObjectProperty.value = "observer";
-        this.updateSelectionHighlight();
-      },
-    );
+    for (const observer of this.model.observers) {
+      this.addObserverView(observer);
+    }
+    this.model.observers.addItemAddedListener((observer) => this.addObserverView(observer));
+    this.model.observers.addItemRemovedListener((observer) => this.removeObjectView(observer, this.observerLayer));
+
+    // Selecting a source or an observer makes it the one that the controls and readouts apply to
+    this.selectedObjectProperty.link((selectedObject) => {
+      if (selectedObject instanceof SoundSource) {
+        this.model.activeSourceProperty.value = selectedObject;
+      } else if (selectedObject instanceof Observer) {
+        this.model.activeObserverProperty.value = selectedObject;
+      }
+    });
 
     // Create and load click sound
     this.clickSound = new Sound("./assets/click.wav", true);
 
+    // Create sonic boom sound (generated, so there is no file to load) and flash
+    this.sonicBoomSound = new Sound("", true, "boom");
+    this.sonicBoomFlash = new Rectangle(this.layoutBounds.dilated(1000), {
+      fill: DopplerEffectColors.sonicBoomFlashColorProperty,
+      opacity: UI.SONIC_BOOM_FLASH_OPACITY,
+      visible: false,
+      pickable: false,
+      tagName: null,
+    });
+    this.addChild(this.sonicBoomFlash);
+
     // Setup model listeners
     this.addModelListeners();
 
@@ -451,10 +629,26 @@ export class SimScreenView extends ScreenView {
       this.graphLayer.top = interfaceBounds.top + 10;
       this.controlPanel.right = interfaceBounds.right - 10;
       this.controlPanel.top = this.graphLayer.bottom + 10;
+      timelineNode.centerX = interfaceBounds.centerX;
+      timelineNode.bottom = interfaceBounds.bottom - 10;
       timeControlNode.centerX = interfaceBounds.centerX;
-      timeControlNode.bottom = interfaceBounds.bottom - 10;
+      timeControlNode.bottom = timelineNode.top - 5;
+      playBackwardCheckbox.right = timeControlNode.left - 20;
+      playBackwardCheckbox.centerY = timeControlNode.centerY;
       scenarioComboBoxNode.left = interfaceBounds.minX + 10;
       scenarioComboBoxNode.top = interfaceBounds.top + 10;
+      sourceCountControlNode.left = interfaceBounds.minX + 10;
+      sourceCountControlNode.top = scenarioComboBoxNode.bottom + 10;
+      observerCountControlNode.left = interfaceBounds.minX + 10;
+      observerCountControlNode.top = sourceCountControlNode.bottom + 10;
+      reflectorCheckboxGroup.left = interfaceBounds.minX + 10;
+      reflectorCheckboxGroup.top = observerCountControlNode.bottom + 10;
+      windIndicatorNode.left = interfaceBounds.minX + 10;
+      windIndicatorNode.top = reflectorCheckboxGroup.bottom + 20;
+      rotationControlNode.left = interfaceBounds.minX + 10;
+      rotationControlNode.bottom = interfaceBounds.bottom - 10;
+      this.flyoverNode.left = interfaceBounds.minX + 10;
+      this.flyoverNode.bottom = interfaceBounds.bottom - 10;
       scaleMarkNode.right = resetAllButtonNode.left - 30;
     });
   }
@@ -463,8 +657,8 @@ export class SimScreenView extends ScreenView {
    * Reset the view to initial state
    */
   public reset(): void {
-    // Reset selected object
-    this.selectedObjectProperty.reset();
+    // Reset selected object to the active source, which the model resets to the first source
+    this.selectedObjectProperty.value = this.model.activeSourceProperty.value;
 
     // Reset property values
     this.visibleValuesProperty.reset();
@@ -498,17 +692,120 @@ export class SimScreenView extends ScreenView {
   }
 
   /**
-   * Add model listeners
+   * Create the view and drag handler of a source
+   * @param source - The model source to display
    */
-  private addModelListeners(): void {
-    // Update view whenever position or velocity changes
-    const updateOnChange = () => this.updateView();
+  private addSourceView(source: SoundSource): void {
+    const colorSet = SOURCE_COLOR_SETS[source.colorIndex % SOURCE_COLOR_SETS.length] ?? SOURCE_COLOR_SETS[0];
+    this.addObjectView(
+      source,
+      this.sourceLayer,
+      UI.SOURCE_RADIUS,
+      colorSet.sourceColorProperty,
+      colorSet.velocityArrowColorProperty,
+      `Sound source ${source.colorIndex + 1}`,
+    );
+  }
+
+  /**
+   * Create the view and drag handler of an observer
+   * @param observer - The model observer to display
+   */
+  private addObserverView(observer: Observer): void {
+    const colorSet = OBSERVER_COLOR_SETS[observer.colorIndex % OBSERVER_COLOR_SETS.length] ?? OBSERVER_COLOR_SETS[0];
+    this.addObjectView(
+      observer,
+      this.observerLayer,
+      UI.OBSERVER_RADIUS,
+      colorSet.observerColorProperty,
+      colorSet.velocityArrowColorProperty,
+      `Observer ${observer.colorIndex + 1}`,
+    );
+  }
+
+  /**
+   * Create the view and drag handler of a source or an observer
+   * @param object - The model object to display
+   * @param layer - The layer to add the view to
+   * @param radius - Radius of the object in view coordinates
+   * @param colorProperty - Color of the object and its trail
+   * @param velocityArrowColorProperty - Color of the velocity arrow
+   * @param accessibleName - Accessible name of the view
+   */
+  private addObjectView(
+    object: MovableObject,
+    layer: Node,
+    radius: number,
+    colorProperty: ProfileColorProperty,
+    velocityArrowColorProperty: ProfileColorProperty,
+    accessibleName: string,
+  ): void {
+    const objectView = new MoveableObjectView(this.modelViewTransform, {
+      visibleVelocityArrowProperty: this.visibleVelocityArrowProperty,
+      visibleTrailsProperty: this.visibleTrailsProperty,
+      visibleValuesProperty: this.visibleValuesProperty,
+      textColorProperty: DopplerEffectColors.textColorProperty,
+      velocityScale: SCALE.VELOCITY_VECTOR,
+      trailWidth: UI.TRAIL_WIDTH,
+      radius: radius,
+      fillColorProperty: colorProperty,
+      velocityArrowColorProperty: velocityArrowColorProperty,
+      trailColorProperty: colorProperty,
+      accessibleName: accessibleName,
+    });
+    layer.addChild(objectView);
+    this.objectViews.set(object, objectView);
+
+    const dragManager = new DragHandlerManager(
+      this.modelViewTransform,
+      this.layoutBounds,
+      this.model.soundSpeedProperty,
+      this.model.supersonicEnabledProperty,
+    );
+    dragManager.attachDragHandler(
+      objectView.getObjectNode(),
+      object.positionProperty,
+      object.velocityProperty,
+      object.movingProperty,
+      () => {
+        // Dragging takes over from any scripted motion
+        object.stopScriptedMotion();
+        this.selectedObjectProperty.value = object;
+        this.updateSelectionHighlight();
+      },
+    );
+    this.dragManagers.set(object, dragManager);
+
+    // Update view whenever the object moves
+    object.positionProperty.lazyLink(() => this.updateView());
+    object.velocityProperty.lazyLink(() => this.updateView());
+  }
+
+  /**
+   * Remove the view and drag handler of a source or an observer
+   * @param object - The model object that was removed
+   * @param layer - The layer holding the view
+   */
+  private removeObjectView(object: MovableObject, layer: Node): void {
+    const objectView = this.objectViews.get(object);
+    if (objectView !== undefined) {
+      layer.removeChild(objectView);
+      objectView.dispose();
+    }
+    this.objectViews.delete(object);
+    this.dragManagers.delete(object);
 
-    this.model.sourcePositionProperty.link(updateOnChange);
-    this.model.observerPositionProperty.link(updateOnChange);
-    this.model.sourceVelocityProperty.link(updateOnChange);
-    this.model.observerVelocityProperty.link(updateOnChange);
+    // A removed object can no longer be selected, so fall back to the active one of its kind
+    if (this.selectedObjectProperty.value === object) {
+      this.selectedObjectProperty.value =
+        object instanceof Observer ? this.model.activeObserverProperty.value : this.model.activeSourceProperty.value;
+    }
+  }
 
+  /**
+   * Add model listeners
+   */
+  private addModelListeners(): void {
     // Listen for changes to wave collection
     this.model.waves.addItemAddedListener((wave) => {
       this.waveManager.addWaveNode(wave);
@@ -520,7 +817,13 @@ export class SimScreenView extends ScreenView {
 
     // Update waveforms when model changes
     this.model.simulationTimeProperty.link(() => {
-      this.graphDisplayNode.updateWaveforms(this.model.emittedWaveformData, this.model.observedWaveformData);
+      this.graphDisplayNode.updateWaveforms(
+        this.model.emittedWaveformData,
+        this.model.observers.map((observer) => ({
+          colorIndex: observer.colorIndex,
+          waveformData: observer.waveformManager.observedWaveformData,
+        })),
+      );
     });
 
     // Listen for wave detection to play click sound
@@ -529,6 +832,15 @@ export class SimScreenView extends ScreenView {
         this.clickSound.play();
       }
     });
+
+    // Flash the screen and play a boom when a shock front passes an observer or the microphone
+    this.model.sonicBoomEmitter.addListener(() => {
+      this.sonicBoomSound.play();
+      this.sonicBoomFlash.visible = true;
+      setTimeout(() => {
+        this.sonicBoomFlash.visible = false;
+      }, UI.SONIC_BOOM_FLASH_DURATION);
+    });
   }
 
   /**
@@ -536,39 +848,33 @@ export class SimScreenView extends ScreenView {
    */
   private updateView(): void {
     // Update object positions and velocities and trails
-    this.sourceView.update(
-      this.model.sourcePositionProperty.value,
-      this.model.sourceVelocityProperty.value,
-      this.model.sourceTrail,
-    );
-    this.observerView.update(
-      this.model.observerPositionProperty.value,
-      this.model.observerVelocityProperty.value,
-      this.model.observerTrail,
-    );
+    for (const [object, objectView] of this.objectViews) {
+      objectView.update(object.positionProperty.value, object.velocityProperty.value, this.model.getTrail(object));
+    }
 
     // Update selection highlight
     this.updateSelectionHighlight();
 
     // Update waves
     this.waveManager.updateWaves(this.model.waves, this.model.simulationTimeProperty.value);
+
+    // Update Mach cones
+    this.machConeNode.update(this.model.getMachCones());
+
+    // Update the side view of the flyover
+    this.flyoverNode.update(this.model.sources, this.model.observers, this.model.waves);
   }
 
   /**
    * Update the selection highlight position and size
    */
   private updateSelectionHighlight(): void {
-    if (this.selectedObjectProperty.value === "source") {
-      this.selectionHighlightCircle.radius = UI.SOURCE_RADIUS + 5;
-      this.selectionHighlightCircle.center = this.modelViewTransform.modelToViewPosition(
-        this.model.sourcePositionProperty.value,
-      );
-    } else {
-      this.selectionHighlightCircle.radius = UI.OBSERVER_RADIUS + 5;
-      this.selectionHighlightCircle.center = this.modelViewTransform.modelToViewPosition(
-        this.model.observerPositionProperty.value,
-      );
-    }
+    const selectedObject = this.selectedObjectProperty.value;
+    this.selectionHighlightCircle.radius =
+      (selectedObject instanceof Observer ? UI.OBSERVER_RADIUS : UI.SOURCE_RADIUS) + 5;
+    this.selectionHighlightCircle.center = this.modelViewTransform.modelToViewPosition(
+      selectedObject.positionProperty.value,
+    );
   }
 
   /**
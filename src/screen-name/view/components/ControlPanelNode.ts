@@ -2,29 +2,42 @@
  * ControlPanelNode.ts
  *
  * Contains the control panel functionality for the Doppler Effect simulation,
- * including checkboxes for visibility options and controls for sound speed and frequency.
+ * including checkboxes for visibility options, controls for the medium, its temperature, the frequency,
+ * its modulation and the shape of the emitted wave,
+ * and a collapsible section for the wind (velocity of the medium).
+ * In light mode the wave speed is fixed and there is no medium, so those controls are disabled.
  */
 
 import {
+  AccordionBox,
+  ComboBox,
+  DerivedProperty,
   Node,
   NumberControl,
   Panel,
   PhetFont,
+  type PhetioProperty,
   type Property,
   type Range,
   type ReadOnlyProperty,
   Text,
+  UnitConversionProperty,
   VerticalCheckboxGroup,
   type VerticalCheckboxGroupItem,
 } from "scenerystack";
 import DopplerEffectColors from "../../../DopplerEffectColors";
 import { StringManager } from "../../../i18n/StringManager";
+import { FrequencyModulation } from "../../model/FrequencyModulation";
+import { Medium } from "../../model/Medium";
+import { WaveShape } from "../../model/WaveShape";
 
 // Configuration options for the control panel
 type ControlPanelOptions = {
   // References to graph display for positioning
   graphRight: number;
   graphBottom: number;
+  // Node above the other controls in which the combo boxes show their lists
+  listParentNode: Node;
 };
 
 /**
@@ -46,10 +59,20 @@ export class ControlPanelNode extends Node {
    * @param visibleTrailsProperty - Property for toggling motion trails
    * @param visibleGridProperty - Property for toggling grid visibility
    * @param microphoneEnabledProperty - Property for toggling microphone
-   * @param soundSpeedProperty - Property for controlling sound speed
+   * @param supersonicEnabledProperty - Property for allowing supersonic motion
+   * @param lightModeProperty - Property for switching from sound waves to light waves
+   * @param absorptionEnabledProperty - Property for letting the medium absorb the sound
+   * @param mediumProperty - Property for the medium the sound travels through
+   * @param temperatureProperty - Property for controlling the temperature of the medium (°C)
    * @param emittedFrequencyProperty - Property for controlling emitted frequency
-   * @param soundSpeedRange - Range for the sound speed control
+   * @param modulationProperty - Property for how the emitted frequency changes over time
+   * @param waveShapeProperty - Property for the shape of the emitted wave
+   * @param temperatureRange - Range for the temperature control (°C)
    * @param frequencyRange - Range for the frequency control
+   * @param windSpeedProperty - Property for controlling wind speed (m/s)
+   * @param windDirectionProperty - Property for controlling wind direction (rad)
+   * @param windSpeedRange - Range for the wind speed control (m/s)
+   * @param windDirectionRange - Range for the wind direction control (rad)
    * @param options - Configuration options
    */
   constructor(
@@ -59,10 +82,20 @@ export class ControlPanelNode extends Node {
     visibleTrailsProperty: Property<boolean>,
     visibleGridProperty: Property<boolean>,
     microphoneEnabledProperty: Property<boolean>,
-    soundSpeedProperty: Property<number>,
-    emittedFrequencyProperty: Property<number>,
-    soundSpeedRange: Range,
+    supersonicEnabledProperty: Property<boolean>,
+    lightModeProperty: Property<boolean>,
+    absorptionEnabledProperty: Property<boolean>,
+    mediumProperty: Property<Medium>,
+    temperatureProperty: Property<number>,
+    emittedFrequencyProperty: PhetioProperty<number>,
+    modulationProperty: PhetioProperty<FrequencyModulation>,
+    waveShapeProperty: Property<WaveShape>,
+    temperatureRange: Range,
     frequencyRange: Range,
+    windSpeedProperty: Property<number>,
+    windDirectionProperty: Property<number>,
+    windSpeedRange: Range,
+    windDirectionRange: Range,
     options: ControlPanelOptions,
   ) {
     super();
@@ -85,6 +118,9 @@ export class ControlPanelNode extends Node {
       },
     });
 
+    // The medium and the wind only apply to sound, light waves travel at a fixed speed without a medium
+    const mediumControlsEnabledProperty = new DerivedProperty([lightModeProperty], (lightMode) => !lightMode);
+
     // Create checkbox items
     const items: VerticalCheckboxGroupItem[] = [
       createCheckboxItem(visibleValuesProperty, strings.valuesStringProperty),
@@ -93,13 +129,141 @@ export class ControlPanelNode extends Node {
       createCheckboxItem(visibleTrailsProperty, strings.motionTrailsStringProperty),
       createCheckboxItem(visibleGridProperty, strings.gridStringProperty),
       createCheckboxItem(microphoneEnabledProperty, strings.microphoneClicksStringProperty),
+      createCheckboxItem(supersonicEnabledProperty, strings.supersonicStringProperty),
+      createCheckboxItem(lightModeProperty, strings.lightWavesStringProperty),
+      {
+        ...createCheckboxItem(absorptionEnabledProperty, strings.absorptionStringProperty),
+        options: { enabledProperty: mediumControlsEnabledProperty },
+      },
     ];
 
     // Create vertical checkbox group
     const checkboxGroup = new VerticalCheckboxGroup(items);
 
-    // Create sound speed control
-    const soundSpeedControl = new NumberControl(strings.soundSpeedStringProperty, soundSpeedProperty, soundSpeedRange, {
+    // Create medium selector, the speed of sound follows from the medium and its temperature
+    const mediumTitleText = new Text(strings.mediumStringProperty, {
+      font: new PhetFont(12),
+      maxWidth: 140,
+      fill: DopplerEffectColors.controlPanelTextColorProperty,
+    });
+    mediumTitleText.top = checkboxGroup.bottom + 10;
+
+    const mediumItems = Medium.enumeration.values.map((medium) => ({
+      value: medium,
+      createNode: () =>
+        new Text(medium.displayNameProperty, {
+          font: new PhetFont(12),
+          fill: DopplerEffectColors.textColorProperty,
+        }),
+    }));
+    const mediumComboBox = new ComboBox(mediumProperty, mediumItems, options.listParentNode, {
+      enabledProperty: mediumControlsEnabledProperty,
+      buttonFill: DopplerEffectColors.backgroundColorProperty,
+      listFill: DopplerEffectColors.backgroundColorProperty,
+      buttonStroke: DopplerEffectColors.textColorProperty,
+      listStroke: DopplerEffectColors.textColorProperty,
+      highlightFill: DopplerEffectColors.highlightColorProperty,
+    });
+    mediumComboBox.left = mediumTitleText.right + 10;
+    mediumComboBox.centerY = mediumTitleText.centerY;
+    mediumComboBox.setAccessibleName("Medium selector");
+
+    // Create temperature control
+    const temperatureControl = new NumberControl(
+      strings.temperatureStringProperty,
+      temperatureProperty,
+      temperatureRange,
+      {
+        enabledProperty: mediumControlsEnabledProperty,
+        layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        numberDisplayOptions: {
+          valuePattern: strings.celsiusStringProperty,
+        },
+        titleNodeOptions: {
+          font: new PhetFont(12),
+          maxWidth: 140,
+          fill: DopplerEffectColors.controlPanelTextColorProperty,
+        },
+      },
+    );
+    temperatureControl.top = Math.max(mediumTitleText.bottom, mediumComboBox.bottom) + 10;
+
+    // Create frequency control
+    const frequencyControl = new NumberControl(
+      strings.frequencyStringProperty,
+      emittedFrequencyProperty,
+      frequencyRange,
+      {
+        layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        numberDisplayOptions: {
+          valuePattern: strings.hertzStringProperty,
+        },
+        titleNodeOptions: {
+          font: new PhetFont(12),
+          maxWidth: 140,
+          fill: DopplerEffectColors.controlPanelTextColorProperty,
+        },
+      },
+    );
+    frequencyControl.top = temperatureControl.bottom + 10;
+
+    // Create modulation selector, the frequency control sets the frequency around which it varies
+    const modulationTitleText = new Text(strings.modulationStringProperty, {
+      font: new PhetFont(12),
+      maxWidth: 140,
+      fill: DopplerEffectColors.controlPanelTextColorProperty,
+    });
+    modulationTitleText.top = frequencyControl.bottom + 10;
+
+    const modulationItems = FrequencyModulation.enumeration.values.map((modulation) => ({
+      value: modulation,
+      createNode: () =>
+        new Text(modulation.displayNameProperty, {
+          font: new PhetFont(12),
+          fill: DopplerEffectColors.textColorProperty,
+        }),
+    }));
+    const modulationComboBox = new ComboBox(modulationProperty, modulationItems, options.listParentNode, {
+      buttonFill: DopplerEffectColors.backgroundColorProperty,
+      listFill: DopplerEffectColors.backgroundColorProperty,
+      buttonStroke: DopplerEffectColors.textColorProperty,
+      listStroke: DopplerEffectColors.textColorProperty,
+      highlightFill: DopplerEffectColors.highlightColorProperty,
+    });
+    modulationComboBox.left = modulationTitleText.right + 10;
+    modulationComboBox.centerY = modulationTitleText.centerY;
+    modulationComboBox.setAccessibleName("Modulation selector");
+
+    // Create wave shape selector, every source emits the chosen shape
+    const waveShapeTitleText = new Text(strings.waveShapeStringProperty, {
+      font: new PhetFont(12),
+      maxWidth: 140,
+      fill: DopplerEffectColors.controlPanelTextColorProperty,
+    });
+    waveShapeTitleText.top = Math.max(modulationTitleText.bottom, modulationComboBox.bottom) + 10;
+
+    const waveShapeItems = WaveShape.enumeration.values.map((waveShape) => ({
+      value: waveShape,
+      createNode: () =>
+        new Text(waveShape.displayNameProperty, {
+          font: new PhetFont(12),
+          fill: DopplerEffectColors.textColorProperty,
+        }),
+    }));
+    const waveShapeComboBox = new ComboBox(waveShapeProperty, waveShapeItems, options.listParentNode, {
+      buttonFill: DopplerEffectColors.backgroundColorProperty,
+      listFill: DopplerEffectColors.backgroundColorProperty,
+      buttonStroke: DopplerEffectColors.textColorProperty,
+      listStroke: DopplerEffectColors.textColorProperty,
+      highlightFill: DopplerEffectColors.highlightColorProperty,
+    });
+    waveShapeComboBox.left = waveShapeTitleText.right + 10;
+    waveShapeComboBox.centerY = waveShapeTitleText.centerY;
+    waveShapeComboBox.setAccessibleName("Wave shape selector");
+
+    // Create wind speed control
+    const windSpeedControl = new NumberControl(strings.windSpeedStringProperty, windSpeedProperty, windSpeedRange, {
+      enabledProperty: mediumControlsEnabledProperty,
       layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
       numberDisplayOptions: {
         valuePattern: strings.metersPerSecondStringProperty,
@@ -110,17 +274,19 @@ export class ControlPanelNode extends Node {
         fill: DopplerEffectColors.controlPanelTextColorProperty,
       },
     });
-    soundSpeedControl.top = checkboxGroup.bottom + 10;
 
-    // Create frequency control
-    const frequencyControl = new NumberControl(
-      strings.frequencyStringProperty,
-      emittedFrequencyProperty,
-      frequencyRange,
+    // Create wind direction control, displayed in degrees while the model uses radians
+    const windDirectionDegreesProperty = new UnitConversionProperty(windDirectionProperty, { factor: 180 / Math.PI });
+    const windDirectionControl = new NumberControl(
+      strings.windDirectionStringProperty,
+      windDirectionDegreesProperty,
+      windDirectionRange.times(180 / Math.PI),
       {
+        enabledProperty: mediumControlsEnabledProperty,
         layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        delta: 5,
         numberDisplayOptions: {
-          valuePattern: strings.hertzStringProperty,
+          valuePattern: strings.degreesStringProperty,
         },
         titleNodeOptions: {
           font: new PhetFont(12),
@@ -129,11 +295,37 @@ export class ControlPanelNode extends Node {
         },
       },
     );
-    frequencyControl.top = soundSpeedControl.bottom + 10;
+    windDirectionControl.top = windSpeedControl.bottom + 10;
+
+    // Wind controls are tucked into a collapsible box, since most scenarios use still air
+    const windAccordionBox = new AccordionBox(new Node({ children: [windSpeedControl, windDirectionControl] }), {
+      titleNode: new Text(strings.windStringProperty, {
+        font: new PhetFont(14),
+        fill: DopplerEffectColors.controlPanelTextColorProperty,
+      }),
+      expandedDefaultValue: false,
+      fill: DopplerEffectColors.controlPanelBackgroundColorProperty,
+      stroke: DopplerEffectColors.controlPanelBorderColorProperty,
+      titleAlignX: "left",
+      buttonXMargin: 0,
+      contentXMargin: 0,
+    });
+    windAccordionBox.top = Math.max(waveShapeTitleText.bottom, waveShapeComboBox.bottom) + 10;
 
     // Create the panel content with all controls
     const panelContent = new Node({
-      children: [checkboxGroup, soundSpeedControl, frequencyControl],
+      children: [
+        checkboxGroup,
+        mediumTitleText,
+        mediumComboBox,
+        temperatureControl,
+        frequencyControl,
+        modulationTitleText,
+        modulationComboBox,
+        waveShapeTitleText,
+        waveShapeComboBox,
+        windAccordionBox,
+      ],
     });
 
     // Create the panel with the content
@@ -0,0 +1,153 @@
+/**
+ * FlyoverNode.ts
+ *
+ * Controls for the flyover scenario: the altitude at which the aircraft flies, and a side view
+ * of the vertical plane along the flight path. The main play area shows the ground seen from above,
+ * where the spherical wavefronts of the aircraft appear as the circles in which they meet the ground.
+ * The side view shows the wavefronts themselves, expanding from the points where the aircraft was.
+ * Only shown while the flyover scenario is selected.
+ */
+
+import {
+  DerivedProperty,
+  Line,
+  Node,
+  NumberControl,
+  Path,
+  PhetFont,
+  type Property,
+  type Range,
+  Rectangle,
+  Shape,
+  Text,
+  type TReadOnlyProperty,
+  VBox,
+} from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import { StringManager } from "../../../i18n/StringManager";
+import type { Observer } from "../../model/Observer";
+import { Scenario, type Wave } from "../../model/SimModel";
+import type { SoundSource } from "../../model/SoundSource";
+
+// Layout of the side view
+const SIDE_VIEW = {
+  WIDTH: 240, // view units
+  HEIGHT: 100, // view units
+  GROUND_MARGIN: 10, // space below the ground line, view units
+  MODEL_WIDTH: 4000, // horizontal extent shown, centered on the middle of the play area, in meters (m)
+  OBJECT_RADIUS: 4, // view units
+} as const;
+
+/**
+ * Component that renders the altitude control and the side view of the flyover
+ */
+export class FlyoverNode extends VBox {
+  // Wavefronts, sources and observers in the side view
+  private readonly wavesPath: Path;
+  private readonly sourcesPath: Path;
+  private readonly observersPath: Path;
+
+  /**
+   * Constructor for the FlyoverNode
+   *
+   * @param altitudeProperty - Property for the height of the aircraft above the ground (m)
+   * @param altitudeRange - Range for the altitude control (m)
+   * @param scenarioProperty - Property for the current scenario, the node is shown for the flyover
+   */
+  constructor(altitudeProperty: Property<number>, altitudeRange: Range, scenarioProperty: TReadOnlyProperty<Scenario>) {
+    const strings = StringManager.getInstance().getControlPanelStrings();
+
+    const altitudeControl = new NumberControl(strings.altitudeStringProperty, altitudeProperty, altitudeRange, {
+      layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+      delta: 50,
+      numberDisplayOptions: {
+        valuePattern: strings.metersStringProperty,
+      },
+      titleNodeOptions: {
+        font: new PhetFont(12),
+        maxWidth: 140,
+        fill: DopplerEffectColors.textColorProperty,
+      },
+    });
+
+    const titleText = new Text(strings.sideViewStringProperty, {
+      font: new PhetFont(12),
+      maxWidth: SIDE_VIEW.WIDTH,
+      fill: DopplerEffectColors.textColorProperty,
+    });
+
+    const background = new Rectangle(0, 0, SIDE_VIEW.WIDTH, SIDE_VIEW.HEIGHT, {
+      fill: DopplerEffectColors.graphBackgroundColorProperty,
+      stroke: DopplerEffectColors.graphGridColorProperty,
+    });
+    const groundY = SIDE_VIEW.HEIGHT - SIDE_VIEW.GROUND_MARGIN;
+    const groundLine = new Line(0, groundY, SIDE_VIEW.WIDTH, groundY, {
+      stroke: DopplerEffectColors.graphGridColorProperty,
+      lineWidth: 2,
+    });
+
+    const wavesPath = new Path(null, { stroke: DopplerEffectColors.waveColorProperty, lineWidth: 1 });
+    const sourcesPath = new Path(null, { fill: DopplerEffectColors.sourceColorProperty });
+    const observersPath = new Path(null, { fill: DopplerEffectColors.observerColorProperty });
+
+    // The wavefronts are cut off at the edges of the view
+    const sideView = new Node({
+      children: [background, groundLine, wavesPath, sourcesPath, observersPath],
+      clipArea: Shape.rect(0, 0, SIDE_VIEW.WIDTH, SIDE_VIEW.HEIGHT),
+    });
+
+    super({
+      spacing: 10,
+      align: "left",
+      children: [altitudeControl, new VBox({ spacing: 4, align: "left", children: [titleText, sideView] })],
+      visibleProperty: new DerivedProperty([scenarioProperty], (scenario) => scenario === Scenario.FLYOVER),
+    });
+
+    this.wavesPath = wavesPath;
+    this.sourcesPath = sourcesPath;
+    this.observersPath = observersPath;
+  }
+
+  /**
+   * Redraw the side view
+   *
+   * @param sources - Sources, drawn at their altitude
+   * @param observers - Observers, drawn on the ground
+   * @param waves - Waves, of which the ones coming straight from a source are drawn
+   */
+  public update(sources: Iterable<SoundSource>, observers: Iterable<Observer>, waves: Iterable<Wave>): void {
+    if (!this.visible) {
+      return;
+    }
+
+    // Same scale both ways, so that the wavefronts stay round
+    const scale = SIDE_VIEW.WIDTH / SIDE_VIEW.MODEL_WIDTH; // view units per meter
+    const toViewX = (x: number): number => SIDE_VIEW.WIDTH / 2 + x * scale;
+    const toViewY = (altitude: number): number => SIDE_VIEW.HEIGHT - SIDE_VIEW.GROUND_MARGIN - altitude * scale;
+
+    // Echoes are left out, they come from images of the sources behind the reflectors
+    const wavesShape = new Shape();
+    for (const wave of waves) {
+      if (wave.reflection === null && wave.radius > 0) {
+        wavesShape.circle(toViewX(wave.position.x), toViewY(wave.emissionAltitude), wave.radius * scale);
+      }
+    }
+    this.wavesPath.shape = wavesShape;
+
+    const sourcesShape = new Shape();
+    for (const source of sources) {
+      sourcesShape.circle(
+        toViewX(source.positionProperty.value.x),
+        toViewY(source.altitudeProperty.value),
+        SIDE_VIEW.OBJECT_RADIUS,
+      );
+    }
+    this.sourcesPath.shape = sourcesShape;
+
+    const observersShape = new Shape();
+    for (const observer of observers) {
+      observersShape.circle(toViewX(observer.positionProperty.value.x), toViewY(0), SIDE_VIEW.OBJECT_RADIUS);
+    }
+    this.observersPath.shape = observersShape;
+  }
+}
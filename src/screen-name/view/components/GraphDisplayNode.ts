@@ -8,6 +8,7 @@
  * - Right-aligned waveforms that ensure current time is at the right edge
  * - Y-axis scaling for better waveform visualization
  * - Encapsulated graph element creation for emitted and observed sound
+ * - One observed trace per observer, drawn in the observer's color
  */
 
 import {
@@ -47,6 +48,7 @@ type GraphDisplayOptions = {
   graphWidth: number;
   graphMargin: number;
   graphSpacing: number;
+  observedWaveformColorProperties: ProfileColorProperty[]; // one per observer color index
 };
 
 // Type for defining a graph's positioning and properties
@@ -67,7 +69,7 @@ export class GraphDisplayNode extends Node {
   private readonly emittedGraph: Rectangle;
   private readonly observedGraph: Rectangle;
   private readonly emittedWaveform: Path;
-  private readonly observedWaveform: Path;
+  private readonly observedWaveforms: Path[];
 
   // String manager instance
   private readonly stringManager: StringManager = StringManager.getInstance();
@@ -117,11 +119,25 @@ export class GraphDisplayNode extends Node {
     this.emittedGraph = emittedGraphConfig.rect;
     this.observedGraph = observedGraphConfig.rect;
     this.emittedWaveform = emittedGraphConfig.waveform;
-    this.observedWaveform = observedGraphConfig.waveform;
 
     // Add all components to this node
     this.addGraphElements(emittedGraphConfig);
     this.addGraphElements(observedGraphConfig);
+
+    // The first observer's trace uses the observed graph's waveform, the others get their own, drawn on top
+    this.observedWaveforms = options.observedWaveformColorProperties.map((colorProperty, index) => {
+      if (index === 0) {
+        observedGraphConfig.waveform.stroke = colorProperty;
+        return observedGraphConfig.waveform;
+      }
+      const waveform = new Path(new Shape(), {
+        stroke: colorProperty,
+        lineWidth: WAVEFORM_LINE_WIDTH,
+        clipArea: observedGraphConfig.waveform.clipArea,
+      });
+      this.addChild(waveform);
+      return waveform;
+    });
   }
 
   /**
@@ -162,10 +178,11 @@ export class GraphDisplayNode extends Node {
       stroke: gridColorProperty,
     });
 
-    // Create waveform path
+    // Create waveform path, clipped to the graph since superposed waves can exceed unit amplitude
     const waveform = new Path(new Shape(), {
       stroke: waveformColorProperty,
       lineWidth: WAVEFORM_LINE_WIDTH,
+      clipArea: Shape.rect(graphX, graphY, width, height),
     });
 
     // Create title
@@ -209,9 +226,12 @@ export class GraphDisplayNode extends Node {
    * Update the waveforms based on model data
    *
    * @param emittedWaveformData - Data for the emitted waveform
-   * @param observedWaveformData - Data for the observed waveform
+   * @param observedWaveforms - Data for the observed waveform of each observer, with its color index
    */
-  public updateWaveforms(emittedWaveformData: WaveformPoint[], observedWaveformData: WaveformPoint[]): void {
+  public updateWaveforms(
+    emittedWaveformData: WaveformPoint[],
+    observedWaveforms: { colorIndex: number; waveformData: WaveformPoint[] }[],
+  ): void {
     // Update emitted sound waveform
     this.emittedWaveform.shape = this.createWaveformShape(
       this.emittedGraph.left,
@@ -220,13 +240,21 @@ export class GraphDisplayNode extends Node {
       emittedWaveformData,
     );
 
-    // Update observed sound waveform
-    this.observedWaveform.shape = this.createWaveformShape(
-      this.observedGraph.left,
-      this.observedGraph.centerY,
-      this.observedGraph.width,
-      observedWaveformData,
-    );
+    // Update observed sound waveforms, hiding the traces of observers that are not present
+    for (const waveform of this.observedWaveforms) {
+      waveform.shape = new Shape();
+    }
+    for (const { colorIndex, waveformData } of observedWaveforms) {
+      const waveform = this.observedWaveforms[colorIndex % this.observedWaveforms.length];
+      if (waveform !== undefined) {
+        waveform.shape = this.createWaveformShape(
+          this.observedGraph.left,
+          this.observedGraph.centerY,
+          this.observedGraph.width,
+          waveformData,
+        );
+      }
+    }
   }
 
   /**
@@ -297,6 +325,8 @@ export class GraphDisplayNode extends Node {
    */
   public reset(): void {
     this.emittedWaveform.shape = new Shape();
-    this.observedWaveform.shape = new Shape();
+    for (const waveform of this.observedWaveforms) {
+      waveform.shape = new Shape();
+    }
   }
 }
@@ -121,10 +121,10 @@ export class KeyboardShorcutsNode extends Node {
           },
         ),
         KeyboardHelpSectionRow.labelWithIcon(
-          strings.adjust.soundSpeedStringProperty,
+          strings.adjust.temperatureStringProperty,
           KeyboardHelpIconFactory.iconToIcon(new LetterKeyNode(","), new LetterKeyNode(".")),
           {
-            labelInnerContent: strings.a11y.adjust.soundSpeedStringProperty,
+            labelInnerContent: strings.a11y.adjust.temperatureStringProperty,
             labelOptions: {
               fill: DopplerEffectColors.controlPanelTextColorProperty,
             },
@@ -140,7 +140,7 @@ export class KeyboardShorcutsNode extends Node {
       [
         KeyboardHelpSectionRow.labelWithIcon(
           strings.scenarioKeys.freePlayStringProperty,
-          KeyboardHelpIconFactory.iconToIcon(new LetterKeyNode("0"), new LetterKeyNode("6")),
+          KeyboardHelpIconFactory.iconToIcon(new LetterKeyNode("0"), new LetterKeyNode("9")),
           {
             labelInnerContent: strings.a11y.scenarioKeys.freePlayStringProperty,
             labelOptions: {
@@ -148,6 +148,12 @@ export class KeyboardShorcutsNode extends Node {
             },
           },
         ),
+        KeyboardHelpSectionRow.labelWithIcon(strings.scenarioKeys.raceCarStringProperty, new LetterKeyNode("C"), {
+          labelInnerContent: strings.a11y.scenarioKeys.raceCarStringProperty,
+          labelOptions: {
+            fill: DopplerEffectColors.controlPanelTextColorProperty,
+          },
+        }),
       ],
       sectionOptions,
     );
@@ -0,0 +1,57 @@
+/**
+ * MachConeNode.ts
+ *
+ * Draws the Mach cones of supersonic sources: the two edges of the envelope that
+ * each source's wavefronts pile up into, trailing behind the source.
+ */
+
+import { type ModelViewTransform2, Path, Shape } from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import type { MachCone } from "../../model/SimModel";
+
+/**
+ * Component that renders the Mach cone over the wave circles
+ */
+export class MachConeNode extends Path {
+  private readonly modelViewTransform: ModelViewTransform2;
+
+  /**
+   * Constructor for the MachConeNode
+   *
+   * @param modelViewTransform - Transform between model and view coordinates
+   */
+  constructor(modelViewTransform: ModelViewTransform2) {
+    super(new Shape(), {
+      stroke: DopplerEffectColors.machConeColorProperty,
+      lineWidth: 3,
+      // Make purely visual elements non-accessible
+      tagName: null,
+    });
+
+    this.modelViewTransform = modelViewTransform;
+  }
+
+  /**
+   * Update the cones to match the model
+   *
+   * @param machCones - The Mach cones of the supersonic sources
+   */
+  public update(machCones: MachCone[]): void {
+    const shape = new Shape();
+    for (const machCone of machCones) {
+      if (machCone.length === 0) {
+        continue;
+      }
+
+      // Each edge leaves the apex at the half angle on either side of the axis
+      const edge1 = machCone.axis.rotated(machCone.halfAngle).timesScalar(machCone.length);
+      const edge2 = machCone.axis.rotated(-machCone.halfAngle).timesScalar(machCone.length);
+
+      shape
+        .moveToPoint(this.modelViewTransform.modelToViewPosition(machCone.apex.plus(edge1)))
+        .lineToPoint(this.modelViewTransform.modelToViewPosition(machCone.apex))
+        .lineToPoint(this.modelViewTransform.modelToViewPosition(machCone.apex.plus(edge2)));
+    }
+    this.shape = shape;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * ObjectCountControlNode.ts
+ *
+ * Displays a labeled spinner for choosing how many objects of a kind (sources or observers)
+ * are in the play area.
+ */
+
+import { HBox, NumberSpinner, PhetFont, Property, type Range, Text, type TReadOnlyProperty } from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+
+/**
+ * Component that renders the number of objects with a title
+ */
+export class ObjectCountControlNode extends HBox {
+  /**
+   * Constructor for the ObjectCountControlNode
+   *
+   * @param titleStringProperty - Title naming the kind of object
+   * @param countProperty - Property containing the number of objects
+   * @param countRange - Range of the number of objects
+   */
+  constructor(titleStringProperty: TReadOnlyProperty<string>, countProperty: Property<number>, countRange: Range) {
+    // Title to the left of the spinner
+    const titleText = new Text(titleStringProperty, {
+      font: new PhetFont(14),
+      fill: DopplerEffectColors.textColorProperty,
+    });
+
+    const spinner = new NumberSpinner(countProperty, new Property(countRange), {
+      arrowsPosition: "leftRight",
+      numberDisplayOptions: {
+        textOptions: {
+          font: new PhetFont(14),
+        },
+      },
+    });
+
+    super({
+      spacing: 10,
+      children: [titleText, spinner],
+    });
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * ReflectorNode.ts
+ *
+ * Draws a reflector as a thick line along its surface, shown only while the reflector
+ * is in the play area.
+ */
+
+import { Line, type ModelViewTransform2 } from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import type { Reflector } from "../../model/Reflector";
+
+/**
+ * Component that renders a wall or a moving plate
+ */
+export class ReflectorNode extends Line {
+  private readonly reflector: Reflector;
+  private readonly modelViewTransform: ModelViewTransform2;
+
+  /**
+   * Constructor for the ReflectorNode
+   *
+   * @param reflector - The model reflector to display
+   * @param modelViewTransform - Transform between model and view coordinates
+   */
+  constructor(reflector: Reflector, modelViewTransform: ModelViewTransform2) {
+    super(0, 0, 0, 0, {
+      stroke: DopplerEffectColors.reflectorColorProperty,
+      lineWidth: 8,
+      lineCap: "round",
+      cursor: reflector.movable ? "pointer" : null,
+      visibleProperty: reflector.enabledProperty,
+    });
+
+    this.reflector = reflector;
+    this.modelViewTransform = modelViewTransform;
+
+    // Follow the reflector as it moves
+    reflector.positionProperty.link(() => this.update());
+  }
+
+  /**
+   * Update the line to match the ends of the reflector
+   */
+  public update(): void {
+    const [end1, end2] = this.reflector.getEndpoints();
+    this.setPoint1(this.modelViewTransform.modelToViewPosition(end1));
+    this.setPoint2(this.modelViewTransform.modelToViewPosition(end2));
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * RotationControlNode.ts
+ *
+ * Controls for the rotating source scenario: the radius of the circle the source
+ * moves on and how fast it goes around. Only shown while that scenario is selected.
+ */
+
+import {
+  DerivedProperty,
+  NumberControl,
+  PhetFont,
+  type Property,
+  type Range,
+  type TReadOnlyProperty,
+  VBox,
+} from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import { StringManager } from "../../../i18n/StringManager";
+import { Scenario } from "../../model/SimModel";
+
+/**
+ * Component that renders the radius and rotation rate controls
+ */
+export class RotationControlNode extends VBox {
+  /**
+   * Constructor for the RotationControlNode
+   *
+   * @param rotationRadiusProperty - Property for the radius of the circle (m)
+   * @param rotationRateProperty - Property for the angular speed of the source (rad/s)
+   * @param rotationRadiusRange - Range for the radius control (m)
+   * @param rotationRateRange - Range for the angular speed control (rad/s)
+   * @param scenarioProperty - Property for the current scenario, the controls are shown for the rotating source
+   */
+  constructor(
+    rotationRadiusProperty: Property<number>,
+    rotationRateProperty: Property<number>,
+    rotationRadiusRange: Range,
+    rotationRateRange: Range,
+    scenarioProperty: TReadOnlyProperty<Scenario>,
+  ) {
+    const strings = StringManager.getInstance().getControlPanelStrings();
+
+    const titleNodeOptions = {
+      font: new PhetFont(12),
+      maxWidth: 140,
+      fill: DopplerEffectColors.textColorProperty,
+    };
+
+    const radiusControl = new NumberControl(
+      strings.rotationRadiusStringProperty,
+      rotationRadiusProperty,
+      rotationRadiusRange,
+      {
+        layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        delta: 50,
+        numberDisplayOptions: {
+          valuePattern: strings.metersStringProperty,
+        },
+        titleNodeOptions: titleNodeOptions,
+      },
+    );
+
+    const rateControl = new NumberControl(strings.rotationRateStringProperty, rotationRateProperty, rotationRateRange, {
+      layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+      delta: 0.05,
+      numberDisplayOptions: {
+        valuePattern: strings.radiansPerSecondStringProperty,
+        decimalPlaces: 2,
+      },
+      titleNodeOptions: titleNodeOptions,
+    });
+
+    super({
+      spacing: 10,
+      align: "left",
+      children: [radiusControl, rateControl],
+      visibleProperty: new DerivedProperty([scenarioProperty], (scenario) => scenario === Scenario.ROTATING_SOURCE),
+    });
+  }
+}
@@ -2,7 +2,7 @@
  * StatusTextNode.ts
  *
  * Displays status text information including frequencies,
- * Doppler shift indicators, and selected object information.
+ * Doppler shift indicators, the wave speed, the intensity level, and selected object information.
  */
 
 import {
@@ -14,6 +14,7 @@ import {
   Range,
   type ReadOnlyProperty,
   Text,
+  type TReadOnlyProperty,
 } from "scenerystack";
 import { NumberDisplay } from "scenerystack/scenery-phet";
 import { StringManager } from "../../../i18n/StringManager";
@@ -35,6 +36,10 @@ type StatusTextOptions = {
  */
 export class StatusTextNode extends Node {
   private readonly observedFrequencyDisplay: NumberDisplay;
+  private readonly machNumberDisplay: NumberDisplay;
+  private readonly emittedFrequencyDisplay: NumberDisplay;
+  private readonly waveSpeedDisplay: NumberDisplay;
+  private readonly intensityLevelDisplay: NumberDisplay;
   private readonly shiftStatusText: Text;
 
   // Store color references
@@ -49,14 +54,24 @@ export class StatusTextNode extends Node {
    * Constructor for the StatusTextNode
    *
    * @param observedFrequencyProperty - Property for the observed frequency value
-   * @param emittedFrequencyProperty - Property for the emitted frequency value
+   * @param emittedFrequencyProperty - Property for the frequency emitted when the signal being heard left the source
    * @param visibleValuesProperty - Property that controls visibility of values
+   * @param machNumberProperty - Property for the Mach number of the source
+   * @param supersonicEnabledProperty - Property indicating whether supersonic motion is enabled
+   * @param waveSpeedProperty - Property for the speed of the waves, derived from the medium for sound (m/s)
+   * @param lightModeProperty - Property indicating whether the waves are light waves
+   * @param intensityLevelProperty - Property for the intensity level heard by the observer (dB), null before any wave arrives
    * @param options - Configuration options
    */
   constructor(
     observedFrequencyProperty: ReadOnlyProperty<number>,
     emittedFrequencyProperty: ReadOnlyProperty<number>,
     visibleValuesProperty: ReadOnlyProperty<boolean>,
+    machNumberProperty: TReadOnlyProperty<number>,
+    supersonicEnabledProperty: TReadOnlyProperty<boolean>,
+    waveSpeedProperty: TReadOnlyProperty<number>,
+    lightModeProperty: TReadOnlyProperty<boolean>,
+    intensityLevelProperty: TReadOnlyProperty<number | null>,
     options: StatusTextOptions,
   ) {
     super();
@@ -84,6 +99,74 @@ export class StatusTextNode extends Node {
       yMargin: 0,
     });
 
+    // Create NumberDisplay for the emitted frequency, which changes over time for a modulated source
+    this.emittedFrequencyDisplay = new NumberDisplay(emittedFrequencyProperty, new Range(-100, 100), {
+      decimalPlaces: 1,
+      textOptions: {
+        font: new PhetFont(14),
+        fill: options.textColorProperty,
+      },
+      visibleProperty: visibleValuesProperty,
+      valuePattern: statusStringProperties.emittedFrequencyPatternStringProperty,
+      backgroundFill: "transparent",
+      backgroundStroke: null,
+      xMargin: 0,
+      yMargin: 0,
+    });
+
+    // Create NumberDisplay for the Mach number, shown only when supersonic motion is enabled
+    this.machNumberDisplay = new NumberDisplay(machNumberProperty, new Range(0, 10), {
+      decimalPlaces: 2,
+      textOptions: {
+        font: new PhetFont(14),
+        fill: options.textColorProperty,
+      },
+      visibleProperty: DerivedProperty.and([visibleValuesProperty, supersonicEnabledProperty]),
+      valuePattern: statusStringProperties.machNumberPatternStringProperty,
+      backgroundFill: "transparent",
+      backgroundStroke: null,
+      xMargin: 0,
+      yMargin: 0,
+    });
+
+    // Create NumberDisplay for the speed of the waves, labelled as the speed of sound or of light
+    const waveSpeedPatternProperty = new DerivedProperty(
+      [
+        lightModeProperty,
+        statusStringProperties.soundSpeedPatternStringProperty,
+        statusStringProperties.speedOfLightPatternStringProperty,
+      ],
+      (lightMode, soundSpeedPattern, speedOfLightPattern) => (lightMode ? speedOfLightPattern : soundSpeedPattern),
+    );
+    this.waveSpeedDisplay = new NumberDisplay(waveSpeedProperty, new Range(0, 10000), {
+      decimalPlaces: 1,
+      textOptions: {
+        font: new PhetFont(14),
+        fill: options.textColorProperty,
+      },
+      visibleProperty: visibleValuesProperty,
+      valuePattern: waveSpeedPatternProperty,
+      backgroundFill: "transparent",
+      backgroundStroke: null,
+      xMargin: 0,
+      yMargin: 0,
+    });
+
+    // Create NumberDisplay for the intensity level, which falls with distance like the loudness of the sound
+    this.intensityLevelDisplay = new NumberDisplay(intensityLevelProperty, new Range(-100, 100), {
+      decimalPlaces: 1,
+      textOptions: {
+        font: new PhetFont(14),
+        fill: options.textColorProperty,
+      },
+      visibleProperty: visibleValuesProperty,
+      valuePattern: statusStringProperties.intensityLevelPatternStringProperty,
+      backgroundFill: "transparent",
+      backgroundStroke: null,
+      xMargin: 0,
+      yMargin: 0,
+    });
+
     // Derived property for shift status text content
     const shiftStatusStringProperty = new DerivedProperty(
       [observedFrequencyProperty, emittedFrequencyProperty],
@@ -133,8 +216,28 @@ export class StatusTextNode extends Node {
     this.shiftStatusText.left = this.observedFrequencyDisplay.right + 20; // Add some spacing between elements
     this.shiftStatusText.bottom = 25;
 
+    // Position the Mach number to the left of the frequency display
+    this.machNumberDisplay.right = this.observedFrequencyDisplay.left - 20;
+    this.machNumberDisplay.bottom = 25;
+
+    // Position the wave speed below the frequency display
+    this.waveSpeedDisplay.left = this.observedFrequencyDisplay.left;
+    this.waveSpeedDisplay.top = this.observedFrequencyDisplay.bottom + 5;
+
+    // Position the emitted frequency to the left of the wave speed, below the Mach number
+    this.emittedFrequencyDisplay.right = this.waveSpeedDisplay.left - 20;
+    this.emittedFrequencyDisplay.top = this.waveSpeedDisplay.top;
+
+    // Position the intensity level to the right of the wave speed
+    this.intensityLevelDisplay.left = this.waveSpeedDisplay.right + 20;
+    this.intensityLevelDisplay.top = this.waveSpeedDisplay.top;
+
     // Add all elements to this node
     this.addChild(this.observedFrequencyDisplay);
     this.addChild(this.shiftStatusText);
+    this.addChild(this.machNumberDisplay);
+    this.addChild(this.emittedFrequencyDisplay);
+    this.addChild(this.waveSpeedDisplay);
+    this.addChild(this.intensityLevelDisplay);
   }
 }
@@ -0,0 +1,107 @@
+/**
+ * TimelineNode.ts
+ *
+ * Displays a slider spanning the recorded simulation time, between the times it starts and ends at.
+ * Dragging it seeks the simulation to any stored instant, pausing it while dragging; playing again
+ * from an earlier instant branches a new future.
+ */
+
+import {
+  Dimension2,
+  HBox,
+  NumberProperty,
+  PatternStringProperty,
+  PhetFont,
+  type Property,
+  type Range,
+  Slider,
+  Text,
+  type TReadOnlyProperty,
+} from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import { StringManager } from "../../../i18n/StringManager";
+
+// Size of the slider, view units
+const TRACK_SIZE = new Dimension2(240, 4);
+const THUMB_SIZE = new Dimension2(12, 22);
+
+/**
+ * Component that renders the timeline of the recorded simulation time
+ */
+export class TimelineNode extends HBox {
+  /**
+   * Constructor for the TimelineNode
+   *
+   * @param simulationTimeProperty - Property containing the simulation time (s)
+   * @param recordedTimeRangeProperty - Property containing the span of the time that can be gone back to (s)
+   * @param playProperty - Property for whether the simulation is playing, paused while dragging
+   * @param seek - Goes to the stored state closest to a time (s)
+   */
+  constructor(
+    simulationTimeProperty: TReadOnlyProperty<number>,
+    recordedTimeRangeProperty: TReadOnlyProperty<Range>,
+    playProperty: Property<boolean>,
+    seek: (time: number) => void,
+  ) {
+    const strings = StringManager.getInstance().getControlPanelStrings();
+    const textOptions = {
+      font: new PhetFont(14),
+      fill: DopplerEffectColors.textColorProperty,
+    };
+
+    // The slider follows the simulation time and seeks when moved, without each one updating the other again
+    const timelineProperty = new NumberProperty(simulationTimeProperty.value);
+    let isSynchronizing = false;
+    const synchronize = (update: () => void) => {
+      if (!isSynchronizing) {
+        isSynchronizing = true;
+        update();
+        isSynchronizing = false;
+      }
+    };
+    simulationTimeProperty.link((time) => {
+      synchronize(() => {
+        timelineProperty.value = recordedTimeRangeProperty.value.constrainValue(time);
+      });
+    });
+    timelineProperty.lazyLink((time) => {
+      synchronize(() => seek(time));
+    });
+
+    // The simulation is paused while dragging, and plays again afterward if it was playing
+    let wasPlaying = false;
+    const slider = new Slider(timelineProperty, recordedTimeRangeProperty, {
+      trackSize: TRACK_SIZE,
+      thumbSize: THUMB_SIZE,
+      startDrag: () => {
+        wasPlaying = playProperty.value;
+        playProperty.value = false;
+      },
+      endDrag: () => {
+        playProperty.value = wasPlaying;
+      },
+    });
+    slider.setAccessibleName("Timeline of the recorded simulation time");
+
+    // Times at which the recorded span starts and ends
+    const createTimeText = (getTime: (range: Range) => number) =>
+      new Text(
+        new PatternStringProperty(
+          strings.secondsStringProperty,
+          { value: recordedTimeRangeProperty },
+          { maps: { value: getTime }, decimalPlaces: 1 },
+        ),
+        textOptions,
+      );
+
+    super({
+      spacing: 10,
+      children: [
+        new Text(strings.timelineStringProperty, { ...textOptions, maxWidth: 120 }),
+        createTimeText((range) => range.min),
+        slider,
+        createTimeText((range) => range.max),
+      ],
+    });
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * WindIndicatorNode.ts
+ *
+ * Displays the wind (velocity of the medium) as a labeled arrow in the play area.
+ * The arrow uses the same velocity scaling as the source and observer velocity vectors,
+ * so the wind can be compared directly with the motion of the objects.
+ */
+
+import {
+  ArrowNode,
+  DerivedProperty,
+  type ModelViewTransform2,
+  Node,
+  PhetFont,
+  Text,
+  type TReadOnlyProperty,
+  type Vector2,
+} from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import { StringManager } from "../../../i18n/StringManager";
+
+/**
+ * Component that renders the wind vector with a title
+ */
+export class WindIndicatorNode extends Node {
+  /**
+   * Constructor for the WindIndicatorNode
+   *
+   * @param windVelocityProperty - Property containing the wind velocity in meters per second (m/s)
+   * @param modelViewTransform - Transform between model and view coordinates
+   * @param velocityScale - Scale factor for velocity vectors
+   */
+  constructor(
+    windVelocityProperty: TReadOnlyProperty<Vector2>,
+    modelViewTransform: ModelViewTransform2,
+    velocityScale: number,
+  ) {
+    super({
+      // Only show the indicator when there is some wind
+      visibleProperty: new DerivedProperty([windVelocityProperty], (windVelocity) => windVelocity.magnitude > 0),
+    });
+
+    // Title above the arrow
+    const titleText = new Text(StringManager.getInstance().getControlPanelStrings().windStringProperty, {
+      font: new PhetFont(14),
+      fill: DopplerEffectColors.textColorProperty,
+    });
+    this.addChild(titleText);
+
+    // Arrow centered below the title
+    const arrowNode = new ArrowNode(0, 0, 0, 0, {
+      headHeight: 10,
+      headWidth: 10,
+      tailWidth: 3,
+      fill: DopplerEffectColors.windArrowColorProperty,
+      stroke: DopplerEffectColors.windArrowColorProperty,
+    });
+    this.addChild(arrowNode);
+
+    windVelocityProperty.link((windVelocity) => {
+      // Scale the wind velocity the same way as the object velocity vectors
+      const viewVelocity = modelViewTransform.modelToViewDelta(windVelocity.timesScalar(velocityScale));
+
+      // Center the arrow on a fixed point below the title
+      const centerY = titleText.bottom + 10 + Math.abs(viewVelocity.y) / 2;
+      arrowNode.setTailAndTip(
+        titleText.centerX - viewVelocity.x / 2,
+        centerY - viewVelocity.y / 2,
+        titleText.centerX + viewVelocity.x / 2,
+        centerY + viewVelocity.y / 2,
+      );
+    });
+  }
+}
@@ -14,7 +14,7 @@ import {
   type ReadOnlyProperty,
   Vector2,
 } from "scenerystack";
-import { PHYSICS } from "../../../screen-name/model/SimConstants";
+import { PHYSICS, SUPERSONIC } from "../../../screen-name/model/SimConstants";
 
 /**
  * Manager for creating and attaching a drag handler to a simulation object
@@ -32,8 +32,14 @@ export class DragHandlerManager {
    * @param modelViewTransform - Transform between model and view coordinates
    * @param layoutBounds - View bounds for constraining drag
    * @param soundSpeedProperty - Property containing the current sound speed
+   * @param supersonicEnabledProperty - Property indicating whether speeds above the sound speed are allowed
    */
-  constructor(modelViewTransform: ModelViewTransform2, layoutBounds: Bounds2, soundSpeedProperty: Property<number>) {
+  constructor(
+    modelViewTransform: ModelViewTransform2,
+    layoutBounds: Bounds2,
+    soundSpeedProperty: Property<number>,
+    supersonicEnabledProperty: Property<boolean>,
+  ) {
     this.modelViewTransform = modelViewTransform;
 
     // drag bounds are the same as the layout bounds
@@ -41,8 +47,9 @@ export class DragHandlerManager {
 
     // Create derived property for max speed based on sound speed
     this.maxSpeedProperty = new DerivedProperty(
-      [soundSpeedProperty],
-      (soundSpeed) => soundSpeed * PHYSICS.MAX_SPEED_FACTOR,
+      [soundSpeedProperty, supersonicEnabledProperty],
+      (soundSpeed, supersonicEnabled) =>
+        soundSpeed * (supersonicEnabled ? SUPERSONIC.MAX_SPEED_FACTOR : PHYSICS.MAX_SPEED_FACTOR),
     );
   }
 
@@ -88,7 +95,7 @@ export class DragHandlerManager {
 
         // Limit velocity to maximum speed
         if (desiredVelocity.magnitude > this.maxSpeedProperty.value) {
-          desiredVelocity.normalize().timesScalar(this.maxSpeedProperty.value);
+          desiredVelocity.setMagnitude(this.maxSpeedProperty.value);
         }
 
         // Apply velocity
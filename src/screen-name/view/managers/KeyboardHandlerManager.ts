@@ -4,8 +4,20 @@
  * Manages keyboard input handlers for the Doppler Effect simulation.
  */
 
-import { type Node, type Property, type SceneryEvent, Vector2 } from "scenerystack";
+import {
+  type Node,
+  type ObservableArray,
+  type Property,
+  type Range,
+  type SceneryEvent,
+  type TProperty,
+  type TReadOnlyProperty,
+  Vector2,
+} from "scenerystack";
+import type { MovableObject } from "../../model/MovableObject";
+import type { Observer } from "../../model/Observer";
 import { Scenario } from "../../model/SimModel";
+import type { SoundSource } from "../../model/SoundSource";
 
 /**
  * Callback type for keyboard handling events
@@ -18,6 +30,33 @@ type KeyboardCallbacks = {
   onReset: () => void;
 };
 
+// Velocity given to the selected object by each movement key, in meters per second (m/s)
+const MOVEMENT_VELOCITIES = new Map<string, Vector2>([
+  ["arrowleft", new Vector2(-100, 0)],
+  ["a", new Vector2(-100, 0)],
+  ["arrowright", new Vector2(100, 0)],
+  ["d", new Vector2(100, 0)],
+  ["arrowup", new Vector2(0, 100)],
+  ["w", new Vector2(0, 100)],
+  ["arrowdown", new Vector2(0, -100)],
+  ["s", new Vector2(0, -100)],
+]);
+
+// Preset scenario chosen by each number key, and by C for the race car, which has no number left
+const SCENARIO_KEYS = new Map<string, Scenario>([
+  ["1", Scenario.SOURCE_APPROACHING],
+  ["2", Scenario.SOURCE_RECEDING],
+  ["3", Scenario.OBSERVER_APPROACHING],
+  ["4", Scenario.OBSERVER_RECEDING],
+  ["5", Scenario.SAME_DIRECTION],
+  ["6", Scenario.PERPENDICULAR],
+  ["7", Scenario.ROTATING_SOURCE],
+  ["8", Scenario.FLYOVER],
+  ["9", Scenario.TRAIN_BRAKING],
+  ["c", Scenario.RACE_CAR],
+  ["0", Scenario.FREE_PLAY],
+]);
+
 /**
  * Manager for handling keyboard input
  */
@@ -28,12 +67,12 @@ export class KeyboardHandlerManager {
    * @param targetNode - Node to attach keyboard listeners to
    * @param callbacks - Callback functions for various keyboard actions
    * @param playProperty - Property for simulation play state
-   * @param sourceVelocityProperty - Model property for source velocity
-   * @param observerVelocityProperty - Model property for observer velocity
-   * @param sourceMovingProperty - Model property for source moving state
-   * @param observerMovingProperty - Model property for observer moving state
-   * @param emittedFrequencyProperty - Model property for emitted frequency
-   * @param soundSpeedProperty - Model property for sound speed
+   * @param sources - Model sound sources, cycled through by repeatedly selecting the source
+   * @param observers - Model observers, cycled through by repeatedly selecting the observer
+   * @param emittedFrequencyProperty - Model property for the emitted frequency of the active source
+   * @param temperatureProperty - Model property for the temperature of the medium (°C)
+   * @param temperatureRange - Range of the temperature (°C)
+   * @param lightModeProperty - Model property for light mode, where the wave speed is fixed
    * @param microphoneEnabledProperty - Model property for microphone state
    * @param selectedObjectProperty - Property indicating currently selected object
    * @param scenarioProperty - Property for the current scenario
@@ -42,118 +81,93 @@ export class KeyboardHandlerManager {
     targetNode: Node,
     callbacks: KeyboardCallbacks,
     playProperty: Property<boolean>,
-    sourceVelocityProperty: Property<Vector2>,
-    observerVelocityProperty: Property<Vector2>,
-    sourceMovingProperty: Property<boolean>,
-    observerMovingProperty: Property<boolean>,
-    emittedFrequencyProperty: Property<number>,
-    soundSpeedProperty: Property<number>,
+    sources: ObservableArray<SoundSource>,
+    observers: ObservableArray<Observer>,
+    emittedFrequencyProperty: TProperty<number>,
+    temperatureProperty: Property<number>,
+    temperatureRange: Range,
+    lightModeProperty: TReadOnlyProperty<boolean>,
     microphoneEnabledProperty: Property<boolean>,
-    selectedObjectProperty: Property<"source" | "observer">,
+    selectedObjectProperty: Property<MovableObject>,
     scenarioProperty: Property<Scenario>,
   ): void {
-    // Create a shared handler function for keydown events
-    const handleKeydown = (key: string) => {
-      // Handle object selection
+    // Selecting an object of the same kind again moves on to the next one
+    const selectNext = (objects: MovableObject[]) => {
+      const selectedIndex = objects.indexOf(selectedObjectProperty.value);
+      const nextObject = objects[(selectedIndex + 1) % objects.length];
+      if (nextObject !== undefined) {
+        selectedObjectProperty.value = nextObject;
+      }
+    };
+
+    // Handle object selection
+    const handleSelection = (key: string) => {
       if (key === "s") {
-        selectedObjectProperty.value = "source";
+        selectNext(sources);
         callbacks.onSourceSelected();
       } else if (key === "o") {
-        selectedObjectProperty.value = "observer";
+        selectNext(observers);
         callbacks.onObserverSelected();
       }
+    };
 
-      // Handle arrow key movement
-      if (playProperty.value) {
-        let targetVelocity: Property<Vector2>;
-        let isMoving: Property<boolean>;
-
-        // Determine which object to control
-        if (selectedObjectProperty.value === "source") {
-          targetVelocity = sourceVelocityProperty;
-          isMoving = sourceMovingProperty;
-        } else {
-          targetVelocity = observerVelocityProperty;
-          isMoving = observerMovingProperty;
-        }
-
-        // Set velocity based on key
-        const velocity = new Vector2(0, 0);
-
-        if (key === "arrowleft" || key === "a") {
-          velocity.x = -100.0;
-        } else if (key === "arrowright" || key === "d") {
-          velocity.x = 100.0;
-        }
-
-        if (key === "arrowup" || key === "w") {
-          velocity.y = 100.0;
-        } else if (key === "arrowdown" || key === "s") {
-          velocity.y = -100.0;
-        }
-
-        // Apply velocity if any keys were pressed
-        if (velocity.magnitude > 0) {
-          targetVelocity.value = velocity;
-          isMoving.value = true;
-        }
+    // Handle arrow key movement of the selected object
+    const handleMovement = (key: string) => {
+      const velocity = MOVEMENT_VELOCITIES.get(key);
+      if (!playProperty.value || velocity === undefined) {
+        return;
       }
 
-      // Handle visibility toggles
+      // Apply the velocity, taking over from any scripted motion
+      selectedObjectProperty.value.stopScriptedMotion();
+      selectedObjectProperty.value.velocityProperty.value = velocity.copy();
+      selectedObjectProperty.value.movingProperty.value = true;
+    };
+
+    // Handle the toggles, reset and help
+    const handleToggles = (key: string) => {
       if (key === "t") {
         callbacks.onToggleTrails();
-      }
-
-      // Handle pause toggle
-      if (key === " ") {
+      } else if (key === " ") {
         playProperty.value = !playProperty.value;
-      }
-
-      // Handle reset
-      if (key === "r") {
+      } else if (key === "r") {
         callbacks.onReset();
-      }
-
-      // Handle help toggle
-      if (key === "h") {
+      } else if (key === "h") {
         callbacks.onToggleHelp();
+      } else if (key === "m") {
+        microphoneEnabledProperty.value = !microphoneEnabledProperty.value;
       }
+    };
 
-      // Preset scenarios
-      if (key === "1") {
-        scenarioProperty.value = Scenario.SOURCE_APPROACHING;
-      } else if (key === "2") {
-        scenarioProperty.value = Scenario.SOURCE_RECEDING;
-      } else if (key === "3") {
-        scenarioProperty.value = Scenario.OBSERVER_APPROACHING;
-      } else if (key === "4") {
-        scenarioProperty.value = Scenario.OBSERVER_RECEDING;
-      } else if (key === "5") {
-        scenarioProperty.value = Scenario.SAME_DIRECTION;
-      } else if (key === "6") {
-        scenarioProperty.value = Scenario.PERPENDICULAR;
-      } else if (key === "0") {
-        scenarioProperty.value = Scenario.FREE_PLAY;
-      }
-
-      // Adjust emitted frequency
+    // Adjust the emitted frequency, and the temperature of the medium, which sets the sound speed
+    // (the speed of light is fixed)
+    const handleAdjustments = (key: string) => {
       if (key === "+" || key === "=") {
         emittedFrequencyProperty.value += 0.1;
       } else if (key === "-" || key === "_") {
         emittedFrequencyProperty.value = Math.max(0.1, emittedFrequencyProperty.value - 0.1);
-      }
-
-      // Adjust sound speed
-      if (key === "." || key === ">") {
-        soundSpeedProperty.value += 1.0;
+      } else if (lightModeProperty.value) {
+        return;
+      } else if (key === "." || key === ">") {
+        temperatureProperty.value = temperatureRange.constrainValue(temperatureProperty.value + 1.0);
       } else if (key === "," || key === "<") {
-        soundSpeedProperty.value = Math.max(1.0, soundSpeedProperty.value - 1.0);
+        temperatureProperty.value = temperatureRange.constrainValue(temperatureProperty.value - 1.0);
       }
+    };
 
-      // Handle microphone toggle with 'm' key
-      if (key === "m") {
-        microphoneEnabledProperty.value = !microphoneEnabledProperty.value;
+    // Create a shared handler function for keydown events
+    const handleKeydown = (key: string) => {
+      handleSelection(key);
+      handleMovement(key);
+      handleToggles(key);
+
+      // Preset scenarios
+      const scenario = SCENARIO_KEYS.get(key);
+      if (scenario !== undefined) {
+        scenarioProperty.value = scenario;
       }
+
+      handleAdjustments(key);
     };
 
     // Add key listeners to the view
@@ -2,9 +2,12 @@
  * WaveManager.ts
  *
  * Manages the visualization of propagating waves in the Doppler Effect simulation.
+ * Echoes from reflectors are drawn as dashed arcs, covering only the directions the reflector sends them.
+ * Wavefronts grow fainter as their amplitude falls off with distance.
+ * The wavefronts of a source in the air are spheres, drawn as the circles in which they meet the ground.
  */
 
-import { Circle, type Color, type ModelViewTransform2, type Node, type ProfileColorProperty } from "scenerystack";
+import { Circle, type ModelViewTransform2, type Node, Path, type ProfileColorProperty, Shape } from "scenerystack";
 import DopplerEffectColors from "../../../DopplerEffectColors";
 import { WAVE } from "../../model/SimConstants";
 import type { Wave } from "../../model/SimModel";
@@ -12,38 +15,34 @@ import type { Wave } from "../../model/SimModel";
 /**
  * Manages the visualization of sound waves
  *
- * Creates and updates the circles representing propagating sound waves
+ * Creates and updates the circles representing propagating sound waves, and the arcs representing their echoes
  */
 export class WaveManager {
   private readonly waveLayer: Node;
   private readonly modelViewTransform: ModelViewTransform2;
   // Map to track wave nodes
-  private readonly waveNodesMap: Map<Wave, Circle> = new Map();
-  private readonly waveColorValue: Color;
+  private readonly waveNodesMap: Map<Wave, Circle | Path> = new Map();
+  private readonly waveColorProperties: ProfileColorProperty[];
+  private readonly getWaveAmplitude: (wave: Wave) => number;
 
   /**
    * Constructor for the WaveManager
    *
    * @param waveLayer - Node that will contain the wave visualizations
    * @param modelViewTransform - Transform to convert model coordinates to view coordinates
-   * @param waveColorProperty - Color property for the wave circles
+   * @param getWaveAmplitude - Returns the amplitude of a wave at its current radius (dimensionless)
+   * @param waveColorProperties - Color properties for the wave circles, one per source color index
    */
   constructor(
     waveLayer: Node,
     modelViewTransform: ModelViewTransform2,
-    waveColorProperty: ProfileColorProperty = DopplerEffectColors.waveColorProperty,
+    getWaveAmplitude: (wave: Wave) => number,
+    waveColorProperties: ProfileColorProperty[] = [DopplerEffectColors.waveColorProperty],
   ) {
     this.waveLayer = waveLayer;
     this.modelViewTransform = modelViewTransform;
-
-    // Store initial color value and listen for changes
-    this.waveColorValue = waveColorProperty.value;
-    waveColorProperty.link((newColor) => {
-      // Update all wave nodes with the new color
-      for (const waveNode of this.waveNodesMap.values()) {
-        waveNode.stroke = newColor;
-      }
-    });
+    this.waveColorProperties = waveColorProperties;
+    this.getWaveAmplitude = getWaveAmplitude;
   }
 
   /**
@@ -52,12 +51,26 @@ export class WaveManager {
    * @param wave - The wave model object
    */
   public addWaveNode(wave: Wave): void {
-    const waveNode = new Circle(0, {
-      stroke: this.waveColorValue,
-      fill: null,
-      lineWidth: 2,
-      opacity: 0.7,
-    });
+    // Each source's waves have their own color, cycling through the available colors
+    const waveColorProperty =
+      this.waveColorProperties[wave.source.colorIndex % this.waveColorProperties.length] ??
+      DopplerEffectColors.waveColorProperty;
+
+    const waveNode =
+      wave.reflection === null
+        ? new Circle(0, {
+            stroke: waveColorProperty,
+            fill: null,
+            lineWidth: 2,
+            opacity: 0.7,
+          })
+        : new Path(null, {
+            stroke: waveColorProperty,
+            fill: null,
+            lineWidth: 2,
+            lineDash: [8, 6],
+            opacity: 0.7,
+          });
 
     this.waveLayer.addChild(waveNode);
     this.waveNodesMap.set(wave, waveNode);
@@ -99,14 +112,32 @@ export class WaveManager {
     const waveNode = this.waveNodesMap.get(wave);
     if (waveNode) {
       // Update position to match wave's origin (convert to view coordinates)
-      waveNode.center = this.modelViewTransform.modelToViewPosition(wave.position);
-
-      // Update radius to match wave's propagation (convert to view coordinates)
-      waveNode.radius = this.modelViewTransform.modelToViewDeltaX(wave.radius);
+      const center = this.modelViewTransform.modelToViewPosition(wave.position);
+
+      // Update radius to match wave's propagation (convert to view coordinates), where it meets the ground
+      const groundRadius = Math.sqrt(
+        Math.max(0, wave.radius * wave.radius - wave.emissionAltitude * wave.emissionAltitude),
+      );
+      const radius = this.modelViewTransform.modelToViewDeltaX(groundRadius);
+
+      if (waveNode instanceof Circle) {
+        waveNode.center = center;
+        waveNode.radius = radius;
+      } else if (wave.reflection !== null && radius > 0) {
+        // The y axis is inverted in the view, so angles change sign and the counterclockwise arc is drawn anticlockwise
+        waveNode.shape = new Shape().arc(
+          center.x,
+          center.y,
+          radius,
+          -wave.reflection.startAngle,
+          -wave.reflection.endAngle,
+          true,
+        );
+      }
 
-      // Update opacity based on age
+      // Update opacity based on amplitude, fading out as the wave reaches its maximum age
       const age = Math.max(0, simulationTime - wave.birthTime); // Ensure age is non-negative
-      const opacity = 0.7 * (1 - age / WAVE.MAX_AGE);
+      const opacity = 0.7 * this.getWaveAmplitude(wave) * (1 - age / WAVE.MAX_AGE);
 
       // Clamp opacity between 0 and 1
       waveNode.opacity = Math.min(1, Math.max(0, opacity));
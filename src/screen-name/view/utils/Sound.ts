@@ -17,8 +17,19 @@ const SOUND = {
   PEAK_GAIN: 0.3,
   INITIAL_GAIN: 0,
   FINAL_GAIN: 0,
+
+  // Sonic boom generation parameters
+  BOOM_START_FREQUENCY: 90, // Hz
+  BOOM_END_FREQUENCY: 30, // Hz
+  BOOM_ATTACK_TIME: 0.005, // seconds
+  BOOM_DECAY_TIME: 0.6, // seconds
+  BOOM_PEAK_GAIN: 0.6,
+  BOOM_FINAL_GAIN: 0.001, // exponential ramps cannot reach zero
 };
 
+// Kinds of programmatically generated sounds
+type GeneratedSoundType = "click" | "boom";
+
 /**
  * Simple Sound wrapper class for playing audio
  */
@@ -28,9 +39,11 @@ export class Sound {
   private isMuted: boolean = false;
   private audioContext: AudioContext | null = null;
   private useGeneratedSound: boolean;
+  private readonly generatedSoundType: GeneratedSoundType;
 
-  constructor(src: string, useGeneratedSound: boolean = false) {
+  constructor(src: string, useGeneratedSound: boolean = false, generatedSoundType: GeneratedSoundType = "click") {
     this.useGeneratedSound = useGeneratedSound;
+    this.generatedSoundType = generatedSoundType;
 
     if (!useGeneratedSound) {
       this.audio = new Audio();
@@ -60,7 +73,9 @@ export class Sound {
       return;
     }
 
-    if (this.useGeneratedSound) {
+    if (this.useGeneratedSound && this.generatedSoundType === "boom") {
+      this.playGeneratedBoom();
+    } else if (this.useGeneratedSound) {
       this.playGeneratedClick();
     } else if (this.isLoaded && this.audio) {
       // Create a new audio element for each play to allow overlapping sounds
@@ -74,27 +89,34 @@ export class Sound {
     }
   }
 
+  /**
+   * Get the audio context, creating it on first use
+   */
+  private getAudioContext(): AudioContext {
+    if (!this.audioContext) {
+      // Type assertion for cross-browser compatibility
+      const AudioContextClass =
+        window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+      this.audioContext = new AudioContextClass();
+    }
+    return this.audioContext;
+  }
+
   /**
    * Play a programmatically generated click sound that's very short
    * (less than 0.1 seconds)
    */
   private playGeneratedClick() {
     try {
-      // Create audio context if it doesn't exist
-      if (!this.audioContext) {
-        // Type assertion for cross-browser compatibility
-        const AudioContextClass =
-          window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
-        this.audioContext = new AudioContextClass();
-      }
+      const audioContext = this.getAudioContext();
 
       // Create an oscillator for the click
-      const oscillator = this.audioContext.createOscillator();
-      const gainNode = this.audioContext.createGain();
+      const oscillator = audioContext.createOscillator();
+      const gainNode = audioContext.createGain();
 
       // Connect the nodes
       oscillator.connect(gainNode);
-      gainNode.connect(this.audioContext.destination);
+      gainNode.connect(audioContext.destination);
 
       // Set up the click parameters
       oscillator.type = "sine";
@@ -104,7 +126,7 @@ export class Sound {
       gainNode.gain.value = SOUND.INITIAL_GAIN;
 
       // Schedule the envelope - very short attack and decay
-      const now = this.audioContext.currentTime;
+      const now = audioContext.currentTime;
       // Attack - quick fade in
       gainNode.gain.linearRampToValueAtTime(SOUND.PEAK_GAIN, now + SOUND.ATTACK_TIME);
       // Decay - quick fade out
@@ -118,6 +140,41 @@ export class Sound {
     }
   }
 
+  /**
+   * Play a programmatically generated sonic boom: a low thud that sweeps
+   * down in pitch and dies away over about half a second
+   */
+  private playGeneratedBoom() {
+    try {
+      const audioContext = this.getAudioContext();
+
+      // Create an oscillator for the boom
+      const oscillator = audioContext.createOscillator();
+      const gainNode = audioContext.createGain();
+
+      // Connect the nodes
+      oscillator.connect(gainNode);
+      gainNode.connect(audioContext.destination);
+
+      // Low-pitched triangle wave that sweeps downward
+      const now = audioContext.currentTime;
+      oscillator.type = "triangle";
+      oscillator.frequency.setValueAtTime(SOUND.BOOM_START_FREQUENCY, now);
+      oscillator.frequency.exponentialRampToValueAtTime(SOUND.BOOM_END_FREQUENCY, now + SOUND.BOOM_DECAY_TIME);
+
+      // Sharp attack followed by a long decay
+      gainNode.gain.setValueAtTime(SOUND.INITIAL_GAIN, now);
+      gainNode.gain.linearRampToValueAtTime(SOUND.BOOM_PEAK_GAIN, now + SOUND.BOOM_ATTACK_TIME);
+      gainNode.gain.exponentialRampToValueAtTime(SOUND.BOOM_FINAL_GAIN, now + SOUND.BOOM_DECAY_TIME);
+
+      // Start and stop the oscillator
+      oscillator.start(now);
+      oscillator.stop(now + SOUND.BOOM_DECAY_TIME);
+    } catch {
+      // Intentionally ignored: generated-sound failures are non-critical
+    }
+  }
+
   mute() {
     this.isMuted = true;
   }
@@ -0,0 +1,13 @@
+import { Screen, type ScreenOptions } from "scenerystack/sim";
+import { UltrasoundModel } from "./model/UltrasoundModel.js";
+import { UltrasoundScreenView } from "./view/UltrasoundScreenView.js";
+
+export class UltrasoundScreen extends Screen<UltrasoundModel, UltrasoundScreenView> {
+  public constructor(options: ScreenOptions) {
+    super(
+      () => new UltrasoundModel(),
+      (model) => new UltrasoundScreenView(model),
+      options,
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Constants for the Doppler ultrasound screen
+ *
+ * Units:
+ * - All distances are in meters (m)
+ * - All velocities are in meters per second (m/s)
+ * - All frequencies are in Hertz (Hz)
+ * - All angles are in radians (rad)
+ *
+ * The vessel runs along the x axis, centered on the origin, with the blood flowing toward +x.
+ */
+
+// Probe, vessel and blood
+export const ULTRASOUND = {
+  TISSUE_SOUND_SPEED: 1540, // Average speed of sound in soft tissue (m/s)
+  INITIAL_FREQ: 5e6, // Frequency sent out by the probe (Hz)
+  MIN_FREQ: 2e6, // (Hz)
+  MAX_FREQ: 10e6, // (Hz)
+  INITIAL_ANGLE: Math.PI / 3, // Insonation angle between the beam and the flow (rad)
+  MIN_ANGLE: Math.PI / 9, // Below this the probe would have to sit on the vessel (rad)
+  MAX_ANGLE: (80 * Math.PI) / 180, // Beyond this the cosine is too small for a useful estimate (rad)
+  INITIAL_PEAK_VELOCITY: 0.5, // Velocity of the blood on the axis of the vessel (m/s)
+  MAX_PEAK_VELOCITY: 1.5, // (m/s)
+  VESSEL_RADIUS: 0.004, // Inner radius of the vessel (m)
+  VESSEL_LENGTH: 0.06, // Length of the vessel shown, the blood cells come around again from the other end (m)
+  PROBE_DISTANCE: 0.03, // Distance from the probe to the axis of the vessel (m)
+  BEAM_WIDTH: 0.003, // Width of the ultrasound beam (m)
+  CELL_COUNT: 1500, // Number of blood cells in the vessel (dimensionless)
+  SLOW_MOTION: 0.002, // Blood cells are drawn moving this fraction of their speed (dimensionless)
+} as const;
+
+// Doppler spectrum
+export const SPECTRUM = {
+  BIN_COUNT: 40, // Number of frequency bins (dimensionless)
+  RANGE_FACTOR: 1.25, // The axis reaches this multiple of the shift of the fastest blood seen head on (dimensionless)
+  SMOOTHING: 0.05, // Fraction of the new spectrum mixed into the displayed one over each interval (dimensionless)
+  SMOOTHING_INTERVAL: 1 / 60, // Time over which SMOOTHING applies, one frame at 60 frames per second (s)
+} as const;
+
+// Scale of the play area
+export const ULTRASOUND_SCALE = {
+  MODEL_VIEW: 10000, // Pixels per meter
+} as const;
@@ -0,0 +1,239 @@
+import {
+  BooleanProperty,
+  DerivedProperty,
+  Multilink,
+  NumberProperty,
+  RangeWithValue,
+  type TReadOnlyProperty,
+  Vector2,
+} from "scenerystack";
+import { dotRandom } from "scenerystack/dot";
+import { DopplerCalculator } from "../../screen-name/model/DopplerCalculator";
+import { SPECTRUM, ULTRASOUND } from "./UltrasoundConstants";
+
+// A blood cell carried along the vessel
+export type BloodCell = {
+  position: Vector2; // position in the plane of the beam in meters (m)
+  radialFraction: number; // distance from the axis of the vessel as a fraction of its radius (dimensionless)
+};
+
+/**
+ * Model for the Doppler ultrasound screen
+ *
+ * A probe on the skin sends ultrasound into a blood vessel at the insonation angle θ to the flow.
+ * The blood flows in the parabolic profile of laminar (Poiseuille) flow, fastest on the axis and at rest
+ * against the wall, and every blood cell in the beam scatters back an echo shifted twice by the Doppler effect.
+ * The cells fill the cross-section of the vessel evenly, and the beam is taken to cross the whole
+ * vessel perpendicular to the image, so the echo contains every velocity from zero to the peak
+ * in equal measure: the Doppler spectrum is flat up to the shift of the fastest blood.
+ *
+ * The velocity is estimated from a shift as the scanner does, v = c·Δf / (2f·cosθ), which neglects
+ * the speed of the blood against the speed of sound.
+ */
+export class UltrasoundModel {
+  // Insonation angle between the beam and the flow, in radians (rad)
+  public readonly angleProperty: NumberProperty;
+  public readonly angleRange: RangeWithValue;
+
+  // Velocity of the blood on the axis of the vessel, in meters per second (m/s)
+  public readonly peakVelocityProperty: NumberProperty;
+  public readonly peakVelocityRange: RangeWithValue;
+
+  // Frequency sent out by the probe, in Hertz (Hz)
+  public readonly frequencyProperty: NumberProperty;
+  public readonly frequencyRange: RangeWithValue;
+
+  // Unit vector along the beam, from the probe toward the axis of the vessel (dimensionless)
+  public readonly beamDirectionProperty: TReadOnlyProperty<Vector2>;
+
+  // Position of the probe in meters (m)
+  public readonly probePositionProperty: TReadOnlyProperty<Vector2>;
+
+  // Blood cells in the vessel
+  public readonly cells: BloodCell[] = [];
+
+  // Fraction of the cells in the beam in each frequency bin, from the most negative to the most positive shift
+  public readonly spectrum: number[] = new Array<number>(SPECTRUM.BIN_COUNT).fill(0);
+
+  // Largest shift on the axis of the spectrum, either way, in Hertz (Hz)
+  public readonly spectrumRangeProperty: TReadOnlyProperty<number>;
+
+  // Shift of the fastest blood in the beam and mean shift of all the blood in it, in Hertz (Hz)
+  public readonly peakShiftProperty: NumberProperty;
+  public readonly meanShiftProperty: NumberProperty;
+
+  // Velocities estimated from the shifts, in meters per second (m/s)
+  public readonly estimatedPeakVelocityProperty: TReadOnlyProperty<number>;
+  public readonly estimatedMeanVelocityProperty: TReadOnlyProperty<number>;
+
+  // Simulation state
+  public readonly playProperty: BooleanProperty;
+
+  private readonly dopplerCalculator: DopplerCalculator = new DopplerCalculator();
+
+  public constructor() {
+    this.angleRange = new RangeWithValue(ULTRASOUND.MIN_ANGLE, ULTRASOUND.MAX_ANGLE, ULTRASOUND.INITIAL_ANGLE);
+    this.angleProperty = new NumberProperty(ULTRASOUND.INITIAL_ANGLE, { range: this.angleRange });
+
+    this.peakVelocityRange = new RangeWithValue(0, ULTRASOUND.MAX_PEAK_VELOCITY, ULTRASOUND.INITIAL_PEAK_VELOCITY);
+    this.peakVelocityProperty = new NumberProperty(ULTRASOUND.INITIAL_PEAK_VELOCITY, {
+      range: this.peakVelocityRange,
+    });
+
+    this.frequencyRange = new RangeWithValue(ULTRASOUND.MIN_FREQ, ULTRASOUND.MAX_FREQ, ULTRASOUND.INITIAL_FREQ);
+    this.frequencyProperty = new NumberProperty(ULTRASOUND.INITIAL_FREQ, { range: this.frequencyRange });
+
+    // The probe is above the vessel and downstream, so the beam points back against the flow
+    this.beamDirectionProperty = new DerivedProperty([this.angleProperty], (angle) =>
+      Vector2.createPolar(1, Math.PI + angle),
+    );
+    this.probePositionProperty = new DerivedProperty([this.beamDirectionProperty], (beamDirection) =>
+      beamDirection.timesScalar(-ULTRASOUND.PROBE_DISTANCE),
+    );
+
+    // The axis reaches past the shift of the fastest blood seen head on, so the angle moves the spectrum along it
+    this.spectrumRangeProperty = new DerivedProperty(
+      [this.frequencyProperty, this.peakVelocityProperty],
+      (frequency, peakVelocity) =>
+        (SPECTRUM.RANGE_FACTOR * 2 * frequency * Math.max(peakVelocity, 0.1)) / ULTRASOUND.TISSUE_SOUND_SPEED,
+    );
+
+    this.peakShiftProperty = new NumberProperty(0);
+    this.meanShiftProperty = new NumberProperty(0);
+    this.estimatedPeakVelocityProperty = new DerivedProperty(
+      [this.peakShiftProperty, this.frequencyProperty, this.angleProperty],
+      (shift, frequency, angle) => this.estimateVelocity(shift, frequency, angle),
+    );
+    this.estimatedMeanVelocityProperty = new DerivedProperty(
+      [this.meanShiftProperty, this.frequencyProperty, this.angleProperty],
+      (shift, frequency, angle) => this.estimateVelocity(shift, frequency, angle),
+    );
+
+    this.playProperty = new BooleanProperty(true);
+
+    // Spread the cells evenly over the cross-section of the vessel, seen from the side
+    for (let i = 0; i < ULTRASOUND.CELL_COUNT; i++) {
+      const radialFraction = Math.sqrt(dotRandom.nextDouble()); // dimensionless
+      const azimuth = dotRandom.nextDouble() * 2 * Math.PI; // in radians (rad)
+      this.cells.push({
+        position: new Vector2(
+          (dotRandom.nextDouble() - 0.5) * ULTRASOUND.VESSEL_LENGTH,
+          radialFraction * Math.cos(azimuth) * ULTRASOUND.VESSEL_RADIUS,
+        ),
+        radialFraction: radialFraction,
+      });
+    }
+
+    // A new setting shows its spectrum at once, even while paused
+    Multilink.multilink([this.angleProperty, this.peakVelocityProperty, this.frequencyProperty], () => this.measure(1));
+  }
+
+  /**
+   * Reset the model to its initial state
+   */
+  public reset(): void {
+    this.angleProperty.reset();
+    this.peakVelocityProperty.reset();
+    this.frequencyProperty.reset();
+    this.playProperty.reset();
+    this.measure(1);
+  }
+
+  /**
+   * Step the model forward in time
+   * @param dt - elapsed time in seconds (s)
+   * @param force - step even while paused, for the step button
+   */
+  public step(dt: number, force: boolean = false): void {
+    if (!(this.playProperty.value || force)) {
+      return;
+    }
+
+    // The cells are shown in slow motion, and come around again at the end of the vessel
+    const halfLength = ULTRASOUND.VESSEL_LENGTH / 2; // in meters (m)
+    for (const cell of this.cells) {
+      const x = cell.position.x + this.getCellVelocity(cell).x * dt * ULTRASOUND.SLOW_MOTION; // in meters (m)
+      cell.position = new Vector2(x > halfLength ? x - ULTRASOUND.VESSEL_LENGTH : x, cell.position.y);
+    }
+
+    // Mix in the new spectrum at the same rate whatever the frame rate
+    this.measure(1 - (1 - SPECTRUM.SMOOTHING) ** (dt / SPECTRUM.SMOOTHING_INTERVAL));
+  }
+
+  /**
+   * Get the velocity of a blood cell from the parabolic profile of the flow
+   * @param cell - The blood cell
+   * @returns Velocity in meters per second (m/s)
+   */
+  public getCellVelocity(cell: BloodCell): Vector2 {
+    return new Vector2(this.peakVelocityProperty.value * (1 - cell.radialFraction * cell.radialFraction), 0);
+  }
+
+  /**
+   * Whether a blood cell is inside the ultrasound beam
+   * @param cell - The blood cell
+   */
+  public isInBeam(cell: BloodCell): boolean {
+    // Distance of the cell from the line of the beam, which passes through the axis of the vessel
+    return Math.abs(this.beamDirectionProperty.value.crossScalar(cell.position)) <= ULTRASOUND.BEAM_WIDTH / 2;
+  }
+
+  /**
+   * Find the echo of every cell in the beam, and mix the resulting spectrum and shifts into the displayed ones
+   * @param smoothing - Fraction of the new values mixed in, 1 to replace the old ones (dimensionless)
+   */
+  private measure(smoothing: number): void {
+    const frequency = this.frequencyProperty.value; // in Hertz (Hz)
+    const range = this.spectrumRangeProperty.value; // in Hertz (Hz)
+    const counts = new Array<number>(SPECTRUM.BIN_COUNT).fill(0);
+
+    let cellCount = 0;
+    let peakShift = 0; // in Hertz (Hz)
+    let shiftSum = 0; // in Hertz (Hz)
+    for (const cell of this.cells) {
+      if (!this.isInBeam(cell)) {
+        continue;
+      }
+
+      const shift =
+        this.dopplerCalculator.calculateEchoFrequency(
+          frequency,
+          this.getCellVelocity(cell),
+          this.beamDirectionProperty.value,
+          ULTRASOUND.TISSUE_SOUND_SPEED,
+        ) - frequency; // in Hertz (Hz)
+
+      const bin = Math.floor(((shift + range) / (2 * range)) * SPECTRUM.BIN_COUNT);
+      if (bin >= 0 && bin < SPECTRUM.BIN_COUNT) {
+        counts[bin] = (counts[bin] ?? 0) + 1;
+      }
+
+      cellCount++;
+      shiftSum += shift;
+      if (Math.abs(shift) > Math.abs(peakShift)) {
+        peakShift = shift;
+      }
+    }
+
+    for (let i = 0; i < SPECTRUM.BIN_COUNT; i++) {
+      const fraction = cellCount === 0 ? 0 : (counts[i] ?? 0) / cellCount; // dimensionless
+      const current = this.spectrum[i] ?? 0;
+      this.spectrum[i] = current + (fraction - current) * smoothing;
+    }
+
+    const meanShift = cellCount === 0 ? 0 : shiftSum / cellCount; // in Hertz (Hz)
+    this.peakShiftProperty.value += (peakShift - this.peakShiftProperty.value) * smoothing;
+    this.meanShiftProperty.value += (meanShift - this.meanShiftProperty.value) * smoothing;
+  }
+
+  /**
+   * Estimate the velocity of the blood from a shift with the Doppler equation of the scanner
+   * @param shift - Frequency shift in Hertz (Hz)
+   * @param frequency - Frequency sent out by the probe in Hertz (Hz)
+   * @param angle - Insonation angle in radians (rad)
+   * @returns Velocity along the vessel in meters per second (m/s)
+   */
+  private estimateVelocity(shift: number, frequency: number, angle: number): number {
+    return (ULTRASOUND.TISSUE_SOUND_SPEED * shift) / (2 * frequency * Math.cos(angle));
+  }
+}
@@ -0,0 +1,246 @@
+import {
+  Bounds2,
+  Line,
+  ModelViewTransform2,
+  Path,
+  PhetFont,
+  Rectangle,
+  ResetAllButton,
+  Shape,
+  Text,
+  TimeControlNode,
+  Vector2,
+} from "scenerystack";
+import { ScreenView, type ScreenViewOptions } from "scenerystack/sim";
+import DopplerEffectColors from "../../DopplerEffectColors";
+import { StringManager } from "../../i18n/StringManager";
+import { ULTRASOUND, ULTRASOUND_SCALE } from "../model/UltrasoundConstants";
+import type { UltrasoundModel } from "../model/UltrasoundModel";
+import { DopplerSpectrumNode } from "./components/DopplerSpectrumNode";
+import { UltrasoundControlNode } from "./components/UltrasoundControlNode";
+
+// UI constants
+const UI = {
+  ORIGIN_OFFSET: new Vector2(-170, 90), // axis of the vessel from the center of the layout, view units
+  CELL_RADIUS: 2, // view units
+  PROBE_WIDTH: 0.008, // across the beam, in meters (m)
+  PROBE_DEPTH: 0.003, // along the beam, in meters (m)
+  BEAM_OVERSHOOT: 0.015, // length of the beam beyond the axis of the vessel, in meters (m)
+  ANGLE_ARC_RADIUS: 50, // view units
+  LABEL_SPACING: 6, // view units
+} as const;
+
+/**
+ * View for the Doppler ultrasound screen
+ *
+ * Shows a section of the vessel along its axis, with the blood cells drawn in slow motion, the probe on
+ * the skin above and the beam it sends into the vessel at the insonation angle. The cells inside the beam,
+ * whose echoes make up the spectrum, are drawn brighter than the others.
+ */
+export class UltrasoundScreenView extends ScreenView {
+  // Model reference
+  private readonly model: UltrasoundModel;
+
+  private readonly modelViewTransform: ModelViewTransform2;
+
+  // Blood cells outside and inside the beam
+  private readonly cellsPath: Path;
+  private readonly beamCellsPath: Path;
+
+  private readonly spectrumNode: DopplerSpectrumNode;
+
+  /**
+   * Constructor for the UltrasoundScreenView
+   */
+  public constructor(model: UltrasoundModel, options?: ScreenViewOptions) {
+    const strings = StringManager.getInstance().getUltrasoundStrings();
+
+    super({
+      tagName: "div",
+      labelTagName: "h1",
+      labelContent: StringManager.getInstance().getScreenNameStrings().ultrasoundStringProperty,
+      descriptionContent:
+        "An ultrasound probe sends a beam into a blood vessel at an angle to the flow. Blood cells in the beam send back echoes shifted by the Doppler effect, faster cells near the middle of the vessel shifting them most. The Doppler spectrum shows the spread of shifts, from which the velocity of the blood is estimated.",
+      ...options,
+    });
+
+    this.model = model;
+
+    // Create model-view transform - y-axis is inverted and centered on the axis of the vessel
+    this.modelViewTransform = ModelViewTransform2.createSinglePointScaleInvertedYMapping(
+      new Vector2(0, 0),
+      this.layoutBounds.center.plus(UI.ORIGIN_OFFSET),
+      ULTRASOUND_SCALE.MODEL_VIEW,
+    );
+    const modelViewTransform = this.modelViewTransform;
+
+    // Create the vessel, filled with blood between its walls
+    const halfLength = ULTRASOUND.VESSEL_LENGTH / 2; // in meters (m)
+    const bloodNode = new Rectangle(
+      modelViewTransform.modelToViewBounds(
+        new Bounds2(-halfLength, -ULTRASOUND.VESSEL_RADIUS, halfLength, ULTRASOUND.VESSEL_RADIUS),
+      ),
+      { fill: DopplerEffectColors.bloodColorProperty },
+    );
+    bloodNode.setAccessibleName("Blood vessel");
+    const wallNodes = [-ULTRASOUND.VESSEL_RADIUS, ULTRASOUND.VESSEL_RADIUS].map((y) => {
+      const start = modelViewTransform.modelToViewXY(-halfLength, y);
+      const end = modelViewTransform.modelToViewXY(halfLength, y);
+      return new Line(start, end, { stroke: DopplerEffectColors.vesselWallColorProperty, lineWidth: 4 });
+    });
+    const vesselLabel = new Text(strings.vesselStringProperty, {
+      font: new PhetFont(14),
+      fill: DopplerEffectColors.textColorProperty,
+      maxWidth: 200,
+      left: bloodNode.left,
+      top: bloodNode.bottom + UI.LABEL_SPACING,
+    });
+
+    this.cellsPath = new Path(null, { fill: DopplerEffectColors.bloodCellColorProperty, opacity: 0.4 });
+    this.beamCellsPath = new Path(null, { fill: DopplerEffectColors.bloodCellColorProperty });
+
+    // Create the beam, the probe at its start and the arc of the insonation angle, all following the angle
+    const beamPath = new Path(null, { fill: DopplerEffectColors.ultrasoundBeamColorProperty });
+    const probePath = new Path(null, {
+      fill: DopplerEffectColors.probeColorProperty,
+      stroke: DopplerEffectColors.textColorProperty,
+    });
+    probePath.setAccessibleName("Ultrasound probe");
+    const probeLabel = new Text(strings.probeStringProperty, {
+      font: new PhetFont(14),
+      fill: DopplerEffectColors.textColorProperty,
+      maxWidth: 120,
+    });
+    const anglePath = new Path(null, { stroke: DopplerEffectColors.textColorProperty, lineWidth: 1.5 });
+    const angleLabel = new Text("θ", { font: new PhetFont(16), fill: DopplerEffectColors.textColorProperty });
+
+    model.angleProperty.link((angle) => {
+      const beamDirection = model.beamDirectionProperty.value; // dimensionless
+      const across = beamDirection.perpendicular; // dimensionless
+      const probePosition = model.probePositionProperty.value; // in meters (m)
+
+      // Polygon through the corners of a band around a line, in view coordinates
+      const createBand = (start: Vector2, end: Vector2, width: number): Shape =>
+        Shape.polygon(
+          [
+            start.plus(across.timesScalar(width / 2)),
+            end.plus(across.timesScalar(width / 2)),
+            end.minus(across.timesScalar(width / 2)),
+            start.minus(across.timesScalar(width / 2)),
+          ].map((corner) => modelViewTransform.modelToViewPosition(corner)),
+        );
+
+      beamPath.shape = createBand(probePosition, beamDirection.timesScalar(UI.BEAM_OVERSHOOT), ULTRASOUND.BEAM_WIDTH);
+      probePath.shape = createBand(
+        probePosition.minus(beamDirection.timesScalar(UI.PROBE_DEPTH)),
+        probePosition,
+        UI.PROBE_WIDTH,
+      );
+      probeLabel.centerX = probePath.centerX;
+      probeLabel.bottom = probePath.top - UI.LABEL_SPACING;
+
+      // The angle is measured from the flow to the line back to the probe, counterclockwise on screen
+      const center = modelViewTransform.modelToViewPosition(Vector2.ZERO);
+      anglePath.shape = new Shape().arc(center.x, center.y, UI.ANGLE_ARC_RADIUS, 0, -angle, true);
+      angleLabel.center = center.plus(Vector2.createPolar(UI.ANGLE_ARC_RADIUS + 12, -angle / 2));
+    });
+
+    // Create the spectrum and the panel of the scanner
+    this.spectrumNode = new DopplerSpectrumNode();
+    this.spectrumNode.setAccessibleName("Doppler spectrum");
+
+    const controlNode = new UltrasoundControlNode(
+      model.angleProperty,
+      model.angleRange,
+      model.peakVelocityProperty,
+      model.peakVelocityRange,
+      model.frequencyProperty,
+      model.frequencyRange,
+      model.peakShiftProperty,
+      model.meanShiftProperty,
+      model.estimatedPeakVelocityProperty,
+      model.estimatedMeanVelocityProperty,
+    );
+    controlNode.setAccessibleName("Ultrasound scanner controls");
+
+    // Add time control node
+    const timeControlNode = new TimeControlNode(model.playProperty, {
+      tagName: "div",
+      playPauseStepButtonOptions: {
+        stepForwardButtonOptions: {
+          listener: () => {
+            model.step(1 / 60, true);
+          },
+        },
+      },
+    });
+    timeControlNode.setAccessibleName("Simulation speed control");
+
+    // Setup reset all button
+    const resetAllButtonNode = new ResetAllButton({
+      listener: () => {
+        this.interruptSubtreeInput(); // Stop any ongoing interactions
+        model.reset();
+        this.updateView();
+      },
+    });
+    resetAllButtonNode.setAccessibleName("Reset simulation");
+
+    for (const node of [
+      bloodNode,
+      this.cellsPath,
+      ...wallNodes,
+      beamPath,
+      this.beamCellsPath,
+      vesselLabel,
+      anglePath,
+      angleLabel,
+      probePath,
+      probeLabel,
+      this.spectrumNode,
+      controlNode,
+      timeControlNode,
+      resetAllButtonNode,
+    ]) {
+      this.addChild(node);
+    }
+
+    // Layout
+    this.visibleBoundsProperty.link((visibleBounds) => {
+      const interfaceBounds = visibleBounds.withMinY(this.layoutBounds.minY).withMaxY(this.layoutBounds.maxY);
+      resetAllButtonNode.right = interfaceBounds.right - 10;
+      resetAllButtonNode.bottom = interfaceBounds.bottom - 10;
+      controlNode.right = interfaceBounds.right - 10;
+      controlNode.top = interfaceBounds.top + 10;
+      this.spectrumNode.left = interfaceBounds.minX + 10;
+      this.spectrumNode.top = interfaceBounds.top + 10;
+      timeControlNode.centerX = interfaceBounds.centerX;
+      timeControlNode.bottom = interfaceBounds.bottom - 10;
+    });
+
+    this.updateView();
+  }
+
+  /**
+   * Main step function called each frame
+   */
+  public step(): void {
+    this.updateView();
+  }
+
+  /**
+   * Redraw the blood cells and the spectrum
+   */
+  private updateView(): void {
+    const cellsShape = new Shape();
+    const beamCellsShape = new Shape();
+    for (const cell of this.model.cells) {
+      const center = this.modelViewTransform.modelToViewPosition(cell.position);
+      (this.model.isInBeam(cell) ? beamCellsShape : cellsShape).circle(center.x, center.y, UI.CELL_RADIUS);
+    }
+    this.cellsPath.shape = cellsShape;
+    this.beamCellsPath.shape = beamCellsShape;
+
+    this.spectrumNode.update(this.model.spectrum, this.model.spectrumRangeProperty.value);
+  }
+}
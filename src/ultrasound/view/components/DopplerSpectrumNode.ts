@@ -0,0 +1,107 @@
+/**
+ * DopplerSpectrumNode.ts
+ *
+ * Graph of the Doppler spectrum of the echo, the share of the blood in the beam at each frequency shift.
+ * Shifts toward the probe are to the right of the zero line in the middle. The bars are scaled
+ * so that the tallest one fills the graph, since only the shape of the spectrum matters.
+ */
+
+import { Line, Node, Path, PhetFont, Rectangle, Shape, Text, VBox } from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import { StringManager } from "../../../i18n/StringManager";
+
+// Layout of the graph
+const GRAPH = {
+  WIDTH: 240, // view units
+  HEIGHT: 110, // view units
+  LABEL_SPACING: 4, // view units
+} as const;
+
+/**
+ * Component that renders the Doppler spectrum
+ */
+export class DopplerSpectrumNode extends VBox {
+  private readonly barsPath: Path;
+  private readonly minLabel: Text;
+  private readonly maxLabel: Text;
+
+  /**
+   * Constructor for the DopplerSpectrumNode
+   */
+  constructor() {
+    const strings = StringManager.getInstance().getUltrasoundStrings();
+
+    const titleText = new Text(strings.spectrumStringProperty, {
+      font: new PhetFont(12),
+      maxWidth: GRAPH.WIDTH,
+      fill: DopplerEffectColors.textColorProperty,
+    });
+
+    const background = new Rectangle(0, 0, GRAPH.WIDTH, GRAPH.HEIGHT, {
+      fill: DopplerEffectColors.graphBackgroundColorProperty,
+      stroke: DopplerEffectColors.graphGridColorProperty,
+    });
+    const zeroLine = new Line(GRAPH.WIDTH / 2, 0, GRAPH.WIDTH / 2, GRAPH.HEIGHT, {
+      stroke: DopplerEffectColors.graphGridColorProperty,
+      lineDash: [4, 4],
+    });
+    const barsPath = new Path(null, { fill: DopplerEffectColors.spectrumColorProperty });
+
+    // Shift at each end of the axis, and zero in the middle
+    const labelOptions = { font: new PhetFont(10), fill: DopplerEffectColors.textColorProperty };
+    const minLabel = new Text("", labelOptions);
+    const maxLabel = new Text("", labelOptions);
+    const zeroLabel = new Text("0", labelOptions);
+    zeroLabel.centerX = GRAPH.WIDTH / 2;
+    zeroLabel.top = GRAPH.HEIGHT + GRAPH.LABEL_SPACING;
+    const axisText = new Text(strings.shiftAxisStringProperty, {
+      font: new PhetFont(10),
+      maxWidth: GRAPH.WIDTH,
+      fill: DopplerEffectColors.textColorProperty,
+    });
+
+    super({
+      spacing: GRAPH.LABEL_SPACING,
+      children: [
+        titleText,
+        new Node({ children: [background, zeroLine, barsPath, minLabel, maxLabel, zeroLabel] }),
+        axisText,
+      ],
+    });
+
+    this.barsPath = barsPath;
+    this.minLabel = minLabel;
+    this.maxLabel = maxLabel;
+  }
+
+  /**
+   * Redraw the spectrum
+   *
+   * @param spectrum - Share of the blood in each frequency bin, from the most negative to the most positive shift
+   * @param range - Largest shift on the axis, either way, in Hertz (Hz)
+   */
+  public update(spectrum: readonly number[], range: number): void {
+    const tallest = Math.max(...spectrum);
+    const barWidth = GRAPH.WIDTH / spectrum.length;
+
+    const barsShape = new Shape();
+    if (tallest > 0) {
+      spectrum.forEach((value, i) => {
+        const barHeight = (value / tallest) * GRAPH.HEIGHT;
+        if (barHeight > 0) {
+          barsShape.rect(i * barWidth, GRAPH.HEIGHT - barHeight, barWidth, barHeight);
+        }
+      });
+    }
+    this.barsPath.shape = barsShape;
+
+    // The axis is labelled in kilohertz (kHz)
+    const rangeInKilohertz = (range / 1000).toFixed(1);
+    this.minLabel.string = `-${rangeInKilohertz}`;
+    this.maxLabel.string = `+${rangeInKilohertz}`;
+    this.minLabel.left = 0;
+    this.minLabel.top = GRAPH.HEIGHT + GRAPH.LABEL_SPACING;
+    this.maxLabel.right = GRAPH.WIDTH;
+    this.maxLabel.top = GRAPH.HEIGHT + GRAPH.LABEL_SPACING;
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * UltrasoundControlNode.ts
+ *
+ * Panel of the ultrasound scanner: controls for the insonation angle, the peak velocity of the flow and the
+ * frequency sent out by the probe, and readouts of the peak and mean shifts of the echo with the velocities
+ * the scanner estimates from them.
+ */
+
+import {
+  DerivedProperty,
+  NumberControl,
+  NumberDisplay,
+  Panel,
+  PhetFont,
+  type Property,
+  Range,
+  type RangeWithValue,
+  Text,
+  type TReadOnlyProperty,
+  UnitConversionProperty,
+  VBox,
+} from "scenerystack";
+import DopplerEffectColors from "../../../DopplerEffectColors";
+import { StringManager } from "../../../i18n/StringManager";
+
+// Ranges the readouts are sized for
+const SHIFT_RANGE = new Range(-100, 100); // in kilohertz (kHz)
+const VELOCITY_RANGE = new Range(-10, 10); // in meters per second (m/s)
+
+/**
+ * Component that renders the controls and readouts of the ultrasound scanner
+ */
+export class UltrasoundControlNode extends Panel {
+  /**
+   * Constructor for the UltrasoundControlNode
+   *
+   * @param angleProperty - Property for the insonation angle (rad)
+   * @param angleRange - Range for the insonation angle (rad)
+   * @param peakVelocityProperty - Property for the velocity of the blood on the axis of the vessel (m/s)
+   * @param peakVelocityRange - Range for the peak velocity (m/s)
+   * @param frequencyProperty - Property for the frequency sent out by the probe (Hz)
+   * @param frequencyRange - Range for the frequency (Hz)
+   * @param peakShiftProperty - Shift of the fastest blood in the beam (Hz)
+   * @param meanShiftProperty - Mean shift of the blood in the beam (Hz)
+   * @param estimatedPeakVelocityProperty - Peak velocity estimated from the peak shift (m/s)
+   * @param estimatedMeanVelocityProperty - Mean velocity estimated from the mean shift (m/s)
+   */
+  constructor(
+    angleProperty: Property<number>,
+    angleRange: RangeWithValue,
+    peakVelocityProperty: Property<number>,
+    peakVelocityRange: RangeWithValue,
+    frequencyProperty: Property<number>,
+    frequencyRange: RangeWithValue,
+    peakShiftProperty: TReadOnlyProperty<number>,
+    meanShiftProperty: TReadOnlyProperty<number>,
+    estimatedPeakVelocityProperty: TReadOnlyProperty<number>,
+    estimatedMeanVelocityProperty: TReadOnlyProperty<number>,
+  ) {
+    const strings = StringManager.getInstance().getUltrasoundStrings();
+
+    const titleNodeOptions = {
+      font: new PhetFont(12),
+      maxWidth: 140,
+      fill: DopplerEffectColors.controlPanelTextColorProperty,
+    };
+
+    // Create the insonation angle control, displayed in degrees while the model uses radians
+    const angleControl = new NumberControl(
+      strings.insonationAngleStringProperty,
+      new UnitConversionProperty(angleProperty, { factor: 180 / Math.PI }),
+      angleRange.times(180 / Math.PI),
+      {
+        layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        delta: 1,
+        numberDisplayOptions: {
+          valuePattern: strings.degreesStringProperty,
+        },
+        titleNodeOptions: titleNodeOptions,
+      },
+    );
+
+    const peakVelocityControl = new NumberControl(
+      strings.peakVelocityStringProperty,
+      peakVelocityProperty,
+      peakVelocityRange,
+      {
+        layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        delta: 0.05,
+        numberDisplayOptions: {
+          decimalPlaces: 2,
+          valuePattern: strings.metersPerSecondStringProperty,
+        },
+        titleNodeOptions: titleNodeOptions,
+      },
+    );
+
+    // Create the frequency control, displayed in megahertz while the model uses hertz
+    const frequencyControl = new NumberControl(
+      strings.transmitFrequencyStringProperty,
+      new UnitConversionProperty(frequencyProperty, { factor: 1e-6 }),
+      frequencyRange.times(1e-6),
+      {
+        layoutFunction: NumberControl.createLayoutFunction2({ ySpacing: 12 }),
+        delta: 0.5,
+        numberDisplayOptions: {
+          decimalPlaces: 1,
+          valuePattern: strings.megahertzStringProperty,
+        },
+        titleNodeOptions: titleNodeOptions,
+      },
+    );
+
+    // Readouts drawn as plain text on the panel
+    const createReadout = (
+      valueProperty: TReadOnlyProperty<number>,
+      range: Range,
+      decimalPlaces: number,
+      valuePattern: TReadOnlyProperty<string>,
+    ): NumberDisplay =>
+      new NumberDisplay(valueProperty, range, {
+        decimalPlaces: decimalPlaces,
+        valuePattern: valuePattern,
+        textOptions: {
+          font: new PhetFont(14),
+          fill: DopplerEffectColors.controlPanelTextColorProperty,
+        },
+        backgroundFill: "transparent",
+        backgroundStroke: null,
+        xMargin: 0,
+        yMargin: 0,
+      });
+
+    // The shifts are shown in kilohertz (kHz)
+    const toKilohertz = (shift: number): number => shift / 1000;
+
+    const equationText = new Text(strings.velocityEquationStringProperty, {
+      font: new PhetFont({ size: 14, style: "italic" }),
+      fill: DopplerEffectColors.controlPanelTextColorProperty,
+      maxWidth: 200,
+    });
+
+    super(
+      new VBox({
+        spacing: 8,
+        align: "left",
+        children: [
+          angleControl,
+          peakVelocityControl,
+          frequencyControl,
+          createReadout(
+            new DerivedProperty([peakShiftProperty], toKilohertz),
+            SHIFT_RANGE,
+            2,
+            strings.peakShiftPatternStringProperty,
+          ),
+          createReadout(
+            new DerivedProperty([meanShiftProperty], toKilohertz),
+            SHIFT_RANGE,
+            2,
+            strings.meanShiftPatternStringProperty,
+          ),
+          equationText,
+          createReadout(
+            estimatedPeakVelocityProperty,
+            VELOCITY_RANGE,
+            2,
+            strings.estimatedPeakVelocityPatternStringProperty,
+          ),
+          createReadout(
+            estimatedMeanVelocityProperty,
+            VELOCITY_RANGE,
+            2,
+            strings.estimatedMeanVelocityPatternStringProperty,
+          ),
+        ],
+      }),
+      {
+        fill: DopplerEffectColors.controlPanelBackgroundColorProperty,
+        stroke: DopplerEffectColors.controlPanelBorderColorProperty,
+      },
+    );
+  }
+}